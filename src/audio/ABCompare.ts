@@ -0,0 +1,124 @@
+// ABCompare.ts
+// 2つの設定のA/B比較 (どちらが鳴っているかを隠すブラインド比較にも対応)
+// 音量の大きい方が良く聴こえてしまうため、測定したラウドネスで両者の音量を揃えてから比べる
+
+import { realtimeClock, type EngineClock } from './EngineClock';
+import type { SettingsKey, SettingsState } from './SettingsStore';
+
+export type ABSide = 'a' | 'b';
+
+export interface ABConfig {
+    name: string;
+    settings: SettingsState;
+}
+
+// 切り替え (クロスフェード) にかける時間
+export const AB_CROSSFADE_MS = 600;
+// 補間できない項目。違う場合は音量を一度下げてから差し替える (ノードの差し替えでクリックが出るため)
+export const AB_DIP_KEYS: readonly SettingsKey[] = ['eqBandCount', 'tinnitusNotch', 'toneLayer', 'room', 'fluctuationEnabled', 'fluctuationStrength'];
+export const AB_DIP_MS = 120;
+
+// 測定: 設定の変化が落ち着くまで待ってから平均する
+const MEASURE_SETTLE_MS = 600;
+const MEASURE_DURATION_MS = 1500;
+const MEASURE_INTERVAL_MS = 50;
+// 音量合わせで下げる上限 (dB)
+const MAX_CORRECTION_DB = 12;
+
+export function otherSide(side: ABSide): ABSide {
+    return side === 'a' ? 'b' : 'a';
+}
+
+/**
+ * 2つの設定の音量を揃えるゲイン (大きい方を小さい方に合わせる)
+ * @param levels 測定した実効値 (測れなかった場合は0)
+ */
+export function loudnessMatchGains(levels: Record<ABSide, number>): Record<ABSide, number> {
+    if (!(levels.a > 0) || !(levels.b > 0)) return { a: 1, b: 1 };
+    const minGain = Math.pow(10, -MAX_CORRECTION_DB / 20);
+    const target = Math.min(levels.a, levels.b);
+    return {
+        a: Math.max(minGain, target / levels.a),
+        b: Math.max(minGain, target / levels.b)
+    };
+}
+
+/**
+ * 設定が落ち着いてからの平均実効値を測る
+ * @param sample その時点の実効値を返す
+ */
+export function measureLoudness(sample: () => number, clock: EngineClock = realtimeClock): Promise<number> {
+    return new Promise(resolve => {
+        const startTime = clock.now();
+        let sumSquares = 0;
+        let frames = 0;
+        const tick = () => {
+            const elapsed = (clock.now() - startTime) * 1000;
+            if (elapsed >= MEASURE_SETTLE_MS) {
+                const rms = sample();
+                sumSquares += rms * rms;
+                frames++;
+            }
+            if (elapsed >= MEASURE_SETTLE_MS + MEASURE_DURATION_MS) {
+                resolve(frames > 0 ? Math.sqrt(sumSquares / frames) : 0);
+                return;
+            }
+            clock.setTimeout(tick, MEASURE_INTERVAL_MS);
+        };
+        clock.setTimeout(tick, MEASURE_INTERVAL_MS);
+    });
+}
+
+/**
+ * A/B比較の状態 (比べる2つの設定・再生中の側・音量合わせのゲイン)
+ */
+export class ABComparison {
+    readonly configs: Record<ABSide, ABConfig>;
+    readonly blind: boolean;
+    private playing: ABSide;
+    private gains: Record<ABSide, number> | null = null;
+    // ブラインド時の表示名 (どちらがXになるかはランダム)
+    private blindLabels: Record<ABSide, string>;
+
+    constructor(a: ABConfig, b: ABConfig, blind: boolean, random: () => number = Math.random) {
+        this.configs = { a, b };
+        this.blind = blind;
+        const swap = random() < 0.5;
+        this.blindLabels = swap ? { a: 'Y', b: 'X' } : { a: 'X', b: 'Y' };
+        // ブラインドではXから鳴らす (最初がAとは限らない)
+        this.playing = blind && swap ? 'b' : 'a';
+    }
+
+    getPlaying(): ABSide {
+        return this.playing;
+    }
+
+    // もう一方へ切り替えて、その側を返す
+    toggle(): ABSide {
+        this.playing = otherSide(this.playing);
+        return this.playing;
+    }
+
+    // 測定した音量から音量合わせのゲインを決める (決まるまでは切り替えられない)
+    setLevels(levels: Record<ABSide, number>) {
+        this.gains = loudnessMatchGains(levels);
+    }
+
+    isReady(): boolean {
+        return this.gains !== null;
+    }
+
+    getGain(side: ABSide): number {
+        return this.gains?.[side] ?? 1;
+    }
+
+    // 画面に出す名前 (ブラインドではX/Y)
+    labelOf(side: ABSide): string {
+        return this.blind ? this.blindLabels[side] : side.toUpperCase();
+    }
+
+    // 種明かし用の名前
+    describe(side: ABSide): string {
+        return `${side.toUpperCase()}: ${this.configs[side].name}`;
+    }
+}
@@ -1,34 +1,154 @@
 // AudioEngine.ts
-import { ImpactDetector, type DetectionCallbacks } from './ImpactDetector';
-
-// EQバンド定義
-const EQ_BANDS = [
-    { freq: 60, type: 'lowshelf' as BiquadFilterType },
-    { freq: 250, type: 'peaking' as BiquadFilterType },
-    { freq: 1000, type: 'peaking' as BiquadFilterType },
-    { freq: 4000, type: 'peaking' as BiquadFilterType },
-    { freq: 12000, type: 'highshelf' as BiquadFilterType }
-];
+import { ImpactDetector, getAllDetectionBands, type CustomDetection, type DetectionCallbacks } from './ImpactDetector';
+import { realtimeClock, OfflineClock, type EngineClock } from './EngineClock';
+import { EQ_LAYOUTS, qForBandwidth, resampleEqGains, type EqBand, type EqBandCount } from './EqBands';
+import { matchFingerprint, type SoundFingerprint } from './SoundFingerprint';
+import { DEFAULT_REACTIVE_RESPONSES, resolveReactiveLift, type ReactiveLiftRange, type ReactiveResponseMap, type ReactiveResponseTarget } from './ReactiveResponse';
+import { DEFAULT_METER_SCALE, DEFAULT_PREAMP_GAIN, loadMicCalibration, type InputMeasurement, type MicCalibration } from './MicCalibration';
+import { DEFAULT_ROOM, generateRoomImpulse, normalizeImpulse, type RoomSettings } from './RoomImpulse';
 
 // AudioWorklet Code (Embedded to avoid GitHub Pages loading issues)
 // @ts-ignore
 const processorCode = `
+// Slope: 1オクターブ間隔の1次ポール/ゼロ対をカスケードし、任意のdB/octを近似する
+const SLOPE_MIN_FREQ = 20;
+const SLOPE_SECTIONS = 11;
+// Grey: 等ラウドネス曲線(約40phon)の逆特性を近似するバイクアッド
+const GREY_STAGES = [
+  { type: 'lowshelf', freq: 200, gain: 12, q: 0.5 },
+  { type: 'peaking', freq: 3500, gain: -8, q: 0.9 },
+  { type: 'highshelf', freq: 9000, gain: 6, q: 0.7 }
+];
+// 整形ノイズの目標RMS (Pink/Brownと同程度)
+const SHAPED_TARGET_RMS = 0.2;
+const WHITE_POWER = 1 / 3;
+
+// 白色入力に対する平均パワー比 (対数グリッドで台形積分)
+function averagePowerGain(magnitudeAt, sampleRate) {
+  const nyquist = sampleRate / 2;
+  const points = 256;
+  let sum = 0;
+  let prevF = 1;
+  let prevP = magnitudeAt(1) ** 2;
+  for (let i = 1; i < points; i++) {
+    const f = Math.pow(nyquist, i / (points - 1));
+    const p = magnitudeAt(f) ** 2;
+    sum += (p + prevP) * 0.5 * (f - prevF);
+    prevF = f;
+    prevP = p;
+  }
+  return sum / nyquist;
+}
+
+function designSlopeFilter(slopeDb, sampleRate) {
+  const exponent = slopeDb / 6.02;
+  const limit = sampleRate * 0.45;
+  const K = 2 * sampleRate;
+  const coefs = new Float64Array(SLOPE_SECTIONS * 3);
+  const corners = [];
+
+  for (let k = 0; k < SLOPE_SECTIONS; k++) {
+    const fp = Math.min(SLOPE_MIN_FREQ * Math.pow(2, k), limit);
+    const fz = Math.min(fp * Math.pow(2, -exponent), limit);
+    // プリワープ付き双一次変換
+    const wp = K * Math.tan(Math.PI * fp / sampleRate);
+    const wz = K * Math.tan(Math.PI * fz / sampleRate);
+    const norm = 1 + K / wp;
+    coefs[k * 3] = (1 + K / wz) / norm;
+    coefs[k * 3 + 1] = (1 - K / wz) / norm;
+    coefs[k * 3 + 2] = (1 - K / wp) / norm;
+    corners.push(wz, wp);
+  }
+
+  const power = averagePowerGain((f) => {
+    // 双一次変換の周波数ワープを考慮してアナログ原型で評価
+    const w = K * Math.tan(Math.PI * Math.min(f, sampleRate * 0.499) / sampleRate);
+    let m = 1;
+    for (let k = 0; k < corners.length; k += 2) {
+      m *= Math.sqrt((1 + (w / corners[k]) ** 2) / (1 + (w / corners[k + 1]) ** 2));
+    }
+    return m;
+  }, sampleRate);
+
+  return { coefs, gain: SHAPED_TARGET_RMS / Math.sqrt(power * WHITE_POWER) };
+}
+
+// RBJ Audio EQ Cookbook
+function designBiquad(type, freq, gainDb, q, sampleRate) {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * freq / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const sqA = 2 * Math.sqrt(A) * alpha;
+  let b0, b1, b2, a0, a1, a2;
+
+  if (type === 'lowshelf') {
+    b0 = A * ((A + 1) - (A - 1) * cos + sqA);
+    b1 = 2 * A * ((A - 1) - (A + 1) * cos);
+    b2 = A * ((A + 1) - (A - 1) * cos - sqA);
+    a0 = (A + 1) + (A - 1) * cos + sqA;
+    a1 = -2 * ((A - 1) + (A + 1) * cos);
+    a2 = (A + 1) + (A - 1) * cos - sqA;
+  } else if (type === 'highshelf') {
+    b0 = A * ((A + 1) + (A - 1) * cos + sqA);
+    b1 = -2 * A * ((A - 1) + (A + 1) * cos);
+    b2 = A * ((A + 1) + (A - 1) * cos - sqA);
+    a0 = (A + 1) - (A - 1) * cos + sqA;
+    a1 = 2 * ((A - 1) - (A + 1) * cos);
+    a2 = (A + 1) - (A - 1) * cos - sqA;
+  } else {
+    b0 = 1 + alpha * A;
+    b1 = -2 * cos;
+    b2 = 1 - alpha * A;
+    a0 = 1 + alpha / A;
+    a1 = -2 * cos;
+    a2 = 1 - alpha / A;
+  }
+  return [b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0];
+}
+
+function biquadMagnitude(c, f, sampleRate) {
+  const w = 2 * Math.PI * f / sampleRate;
+  const c1 = Math.cos(w), s1 = Math.sin(w);
+  const c2 = Math.cos(2 * w), s2 = Math.sin(2 * w);
+  const nr = c[0] + c[1] * c1 + c[2] * c2;
+  const ni = -(c[1] * s1 + c[2] * s2);
+  const dr = 1 + c[3] * c1 + c[4] * c2;
+  const di = -(c[3] * s1 + c[4] * s2);
+  return Math.sqrt((nr * nr + ni * ni) / (dr * dr + di * di));
+}
+
+function designGreyFilter(sampleRate) {
+  const stages = GREY_STAGES.map(st => designBiquad(st.type, st.freq, st.gain, st.q, sampleRate));
+  const power = averagePowerGain(
+    (f) => stages.reduce((m, c) => m * biquadMagnitude(c, f, sampleRate), 1),
+    sampleRate
+  );
+  return { stages, gain: SHAPED_TARGET_RMS / Math.sqrt(power * WHITE_POWER) };
+}
+
+// チャンネルごとのフィルター状態
+function createChannelState() {
+  return {
+    b0: 0, b1: 0, b2: 0, b3: 0, b4: 0, b5: 0, b6: 0, lastBrown: 0, lastDark: 0,
+    slope: new Float64Array(SLOPE_SECTIONS * 2),
+    grey: new Float64Array(GREY_STAGES.length * 4)
+  };
+}
+
 class NoiseProcessor extends AudioWorkletProcessor {
   constructor() {
     super();
-    this.b0 = 0;
-    this.b1 = 0;
-    this.b2 = 0;
-    this.b3 = 0;
-    this.b4 = 0;
-    this.b5 = 0;
-    this.b6 = 0;
-    this.lastBrown = 0;
-    this.lastDark = 0;
+    this.channelStates = [createChannelState(), createChannelState()];
     this.rumblePhase1 = 0;
     this.rumblePhase2 = 0;
     this.rumblePhase3 = 0;
     this.rumbleModPhase = 0;
+
+    const sr = globalThis.sampleRate || 44100;
+    this.slopeDb = -3;
+    this.slopeFilter = designSlopeFilter(this.slopeDb, sr);
+    this.greyFilter = designGreyFilter(sr);
   }
 
   static get parameterDescriptors() {
@@ -40,6 +160,10 @@ class NoiseProcessor extends AudioWorkletProcessor {
       { name: 'rumbleGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
       { name: 'rumbleFreq', defaultValue: 55, minValue: 20, maxValue: 300, automationRate: 'k-rate' },
       { name: 'rumbleSpeed', defaultValue: 1, minValue: 0.1, maxValue: 10, automationRate: 'k-rate' },
+      { name: 'stereoWidth', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'slopeGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'slopeDb', defaultValue: -3, minValue: -9, maxValue: 6, automationRate: 'k-rate' },
+      { name: 'greyGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
       { name: 'masterGain', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'a-rate' }
     ];
   }
@@ -53,6 +177,10 @@ class NoiseProcessor extends AudioWorkletProcessor {
     const rumbleGainParam = parameters['rumbleGain'];
     const rumbleFreqParam = parameters['rumbleFreq'];
     const rumbleSpeedParam = parameters['rumbleSpeed'];
+    const stereoWidthParam = parameters['stereoWidth'];
+    const slopeGainParam = parameters['slopeGain'];
+    const slopeDbParam = parameters['slopeDb'];
+    const greyGainParam = parameters['greyGain'];
     const masterGainParam = parameters['masterGain'];
 
     const wGain = whiteGainParam[0];
@@ -62,8 +190,12 @@ class NoiseProcessor extends AudioWorkletProcessor {
     const rGain = rumbleGainParam[0];
     const rFreq = rumbleFreqParam ? rumbleFreqParam[0] : 55;
     const rSpeed = rumbleSpeedParam ? rumbleSpeedParam[0] : 1;
+    const width = stereoWidthParam ? stereoWidthParam[0] : 1;
+    const sGain = slopeGainParam ? slopeGainParam[0] : 0;
+    const slopeDb = slopeDbParam ? slopeDbParam[0] : -3;
+    const gGain = greyGainParam ? greyGainParam[0] : 0;
 
-    if (wGain === 0 && pGain === 0 && bGain === 0 && dGain === 0 && rGain === 0) {
+    if (wGain === 0 && pGain === 0 && bGain === 0 && dGain === 0 && rGain === 0 && sGain === 0 && gGain === 0) {
       for (let c = 0; c < output.length; c++) {
         output[c].fill(0);
       }
@@ -71,66 +203,120 @@ class NoiseProcessor extends AudioWorkletProcessor {
     }
 
     const channelCount = output.length;
-    for (let c = 0; c < channelCount; c++) {
-      const channel = output[c];
-      const len = channel.length;
-      const shouldUseArray = masterGainParam.length > 1;
-      const sampleRate = globalThis.sampleRate || 44100;
-      
-      const inc1 = (2 * Math.PI * rFreq) / sampleRate;
-      const inc2 = (2 * Math.PI * rFreq * 1.13) / sampleRate;
-      const inc3 = (2 * Math.PI * rFreq * 1.31) / sampleRate;
-      const modInc = (2 * Math.PI * rSpeed) / sampleRate;
-
-      for (let i = 0; i < len; i++) {
-        const mGain = shouldUseArray ? masterGainParam[i] : masterGainParam[0];
-        const white = Math.random() * 2 - 1;
-        let mixedOutput = 0;
+    while (this.channelStates.length < channelCount) {
+      this.channelStates.push(createChannelState());
+    }
+
+    // Width 0: 全チャンネル同一 / Width 1: 完全に無相関
+    // 共通成分と独立成分をパワー一定で混ぜる (相関係数 = 1 - width)
+    const commonAmount = Math.sqrt(1 - width);
+    const independentAmount = Math.sqrt(width);
+
+    const len = output[0].length;
+    const shouldUseArray = masterGainParam.length > 1;
+    const sampleRate = globalThis.sampleRate || 44100;
+
+    // 傾きが変わった時だけ係数を再計算
+    if (sGain > 0 && slopeDb !== this.slopeDb) {
+      this.slopeDb = slopeDb;
+      this.slopeFilter = designSlopeFilter(slopeDb, sampleRate);
+    }
+    const slopeCoefs = this.slopeFilter.coefs;
+    const slopeOut = this.slopeFilter.gain * sGain;
+    const greyStages = this.greyFilter.stages;
+    const greyOut = this.greyFilter.gain * gGain;
+
+    const inc1 = (2 * Math.PI * rFreq) / sampleRate;
+    const inc2 = (2 * Math.PI * rFreq * 1.13) / sampleRate;
+    const inc3 = (2 * Math.PI * rFreq * 1.31) / sampleRate;
+    const modInc = (2 * Math.PI * rSpeed) / sampleRate;
+
+    for (let i = 0; i < len; i++) {
+      const mGain = shouldUseArray ? masterGainParam[i] : masterGainParam[0];
+
+      // Rumbleは低域のためモノラル (全チャンネル共通の位相)
+      let rumble = 0;
+      if (rGain > 0) {
+        this.rumblePhase1 += inc1;
+        this.rumblePhase2 += inc2;
+        this.rumblePhase3 += inc3;
+        this.rumbleModPhase += modInc;
+
+        if (this.rumblePhase1 > 2 * Math.PI) this.rumblePhase1 -= 2 * Math.PI;
+        if (this.rumblePhase2 > 2 * Math.PI) this.rumblePhase2 -= 2 * Math.PI;
+        if (this.rumblePhase3 > 2 * Math.PI) this.rumblePhase3 -= 2 * Math.PI;
+        if (this.rumbleModPhase > 2 * Math.PI) this.rumbleModPhase -= 2 * Math.PI;
+
+        rumble = Math.sin(this.rumblePhase1) * 0.5 +
+                 Math.sin(this.rumblePhase2) * 0.3 +
+                 Math.sin(this.rumblePhase3) * 0.2;
+
+        const mod = 1.0 + Math.sin(this.rumbleModPhase) * 0.3;
+        rumble *= mod * rGain * 0.8;
+      }
+
+      const common = Math.random() * 2 - 1;
+
+      for (let c = 0; c < channelCount; c++) {
+        const st = this.channelStates[c];
+        const white = independentAmount > 0
+          ? common * commonAmount + (Math.random() * 2 - 1) * independentAmount
+          : common;
+        let mixedOutput = rumble;
 
         if (wGain > 0) mixedOutput += white * wGain;
 
         if (pGain > 0) {
-          this.b0 = 0.99886 * this.b0 + white * 0.0555179;
-          this.b1 = 0.99332 * this.b1 + white * 0.0750759;
-          this.b2 = 0.96900 * this.b2 + white * 0.1538520;
-          this.b3 = 0.86650 * this.b3 + white * 0.3104856;
-          this.b4 = 0.55000 * this.b4 + white * 0.5329522;
-          this.b5 = -0.7616 * this.b5 - white * 0.0168980;
-          let pink = this.b0 + this.b1 + this.b2 + this.b3 + this.b4 + this.b5 + this.b6 + white * 0.5362;
-          this.b6 = white * 0.115926;
+          st.b0 = 0.99886 * st.b0 + white * 0.0555179;
+          st.b1 = 0.99332 * st.b1 + white * 0.0750759;
+          st.b2 = 0.96900 * st.b2 + white * 0.1538520;
+          st.b3 = 0.86650 * st.b3 + white * 0.3104856;
+          st.b4 = 0.55000 * st.b4 + white * 0.5329522;
+          st.b5 = -0.7616 * st.b5 - white * 0.0168980;
+          let pink = st.b0 + st.b1 + st.b2 + st.b3 + st.b4 + st.b5 + st.b6 + white * 0.5362;
+          st.b6 = white * 0.115926;
           mixedOutput += (pink * 0.11) * pGain;
         }
 
-        const brownUpdate = (this.lastBrown + (0.02 * white)) / 1.02;
-        this.lastBrown = brownUpdate;
+        const brownUpdate = (st.lastBrown + (0.02 * white)) / 1.02;
+        st.lastBrown = brownUpdate;
         if (bGain > 0) mixedOutput += (brownUpdate * 3.5) * bGain;
 
-        const darkUpdate = (this.lastDark + (0.005 * white)) / 1.005;
-        this.lastDark = darkUpdate;
+        const darkUpdate = (st.lastDark + (0.005 * white)) / 1.005;
+        st.lastDark = darkUpdate;
         if (dGain > 0) mixedOutput += (darkUpdate * 4.0) * dGain;
-        
-        if (rGain > 0) {
-          this.rumblePhase1 += inc1;
-          this.rumblePhase2 += inc2;
-          this.rumblePhase3 += inc3;
-          this.rumbleModPhase += modInc;
-          
-          if (this.rumblePhase1 > 2 * Math.PI) this.rumblePhase1 -= 2 * Math.PI;
-          if (this.rumblePhase2 > 2 * Math.PI) this.rumblePhase2 -= 2 * Math.PI;
-          if (this.rumblePhase3 > 2 * Math.PI) this.rumblePhase3 -= 2 * Math.PI;
-          if (this.rumbleModPhase > 2 * Math.PI) this.rumbleModPhase -= 2 * Math.PI;
-          
-          let rumble = Math.sin(this.rumblePhase1) * 0.5 + 
-                       Math.sin(this.rumblePhase2) * 0.3 + 
-                       Math.sin(this.rumblePhase3) * 0.2;
-                       
-          const mod = 1.0 + Math.sin(this.rumbleModPhase) * 0.3;
-          rumble *= mod;
-                         
-          mixedOutput += rumble * rGain * 0.8;
-        }
-
-        channel[i] = mixedOutput * mGain;
+
+        if (sGain > 0) {
+          // 状態: [x1, y1] x SLOPE_SECTIONS
+          const z = st.slope;
+          let x = white;
+          for (let k = 0; k < SLOPE_SECTIONS; k++) {
+            const y = slopeCoefs[k * 3] * x + slopeCoefs[k * 3 + 1] * z[k * 2] - slopeCoefs[k * 3 + 2] * z[k * 2 + 1];
+            z[k * 2] = x;
+            z[k * 2 + 1] = y;
+            x = y;
+          }
+          mixedOutput += x * slopeOut;
+        }
+
+        if (gGain > 0) {
+          // 状態: [x1, x2, y1, y2] x ステージ数
+          const z = st.grey;
+          let x = white;
+          for (let k = 0; k < greyStages.length; k++) {
+            const co = greyStages[k];
+            const o = k * 4;
+            const y = co[0] * x + co[1] * z[o] + co[2] * z[o + 1] - co[3] * z[o + 2] - co[4] * z[o + 3];
+            z[o + 1] = z[o];
+            z[o] = x;
+            z[o + 3] = z[o + 2];
+            z[o + 2] = y;
+            x = y;
+          }
+          mixedOutput += x * greyOut;
+        }
+
+        output[c][i] = mixedOutput * mGain;
       }
     }
     return true;
@@ -139,8 +325,94 @@ class NoiseProcessor extends AudioWorkletProcessor {
 registerProcessor('noise-processor', NoiseProcessor);
 `;
 
+// Slope Noiseの傾き範囲 (dB/oct): -9 = Brownより暗い / -3 = Pink / 0 = White / +6 = Violet
+export const SLOPE_DB_MIN = -9;
+export const SLOPE_DB_MAX = 6;
+
+// White/Pink/Brown/Darkに加える整形ノイズ
+export interface ShapedNoiseMix {
+    slope: number;   // Slope Noise 音量 (0.0 - 1.0)
+    slopeDb: number; // 傾き (dB/oct)
+    grey: number;    // Grey Noise 音量 (0.0 - 1.0)
+}
+
+// 耳鳴りノッチ (Tailor-made notched): 耳鳴り周波数を中心に全ソースから帯域を除去する
+export interface TinnitusNotchSettings {
+    enabled: boolean;
+    frequency: number; // 中心周波数 Hz
+    depth: number;     // 帯域内の平均減衰量 dB (6 - 40)
+    width: number;     // 帯域幅 オクターブ (0.5 - 2.0)
+}
+
+export const DEFAULT_TINNITUS_NOTCH: TinnitusNotchSettings = { enabled: false, frequency: 4000, depth: 30, width: 1.0 };
+
+// ピーキングを帯域内に等間隔で並べて平坦な谷を作る
+const NOTCH_STAGES = 4;
+// 重なりで深くなる分の補正 (平均減衰がほぼdepthになる)
+const NOTCH_STAGE_GAIN = 0.75;
+
+// Tone Layer: バイノーラルビート (L/Rで周波数差) / アイソクロニック (振幅パルス)
+export type ToneMode = 'binaural' | 'isochronic';
+
+export interface ToneLayerSettings {
+    mode: ToneMode;
+    carrier: number;     // キャリア周波数 Hz (100 - 1000)
+    beat: number;        // 開始時のビート周波数 Hz (0.5 - 40)
+    beatEnd: number;     // ランプ終了時のビート周波数 Hz
+    rampMinutes: number; // beat -> beatEnd に移行する時間 (0 = ランプなし)
+    level: number;       // 0.0 - 1.0
+}
+
+export const DEFAULT_TONE_LAYER: ToneLayerSettings = {
+    mode: 'binaural', carrier: 200, beat: 10, beatEnd: 10, rampMinutes: 0, level: 0
+};
+
+// 純音は耳につきやすいので、Level 1.0でもノイズより控えめにする
+const TONE_MAX_GAIN = 0.3;
+
+// Output Limiter
+// コンプレッサーは閾値を-1.5dBFS付近に固定し、前後のゲインで天井(ceiling)に合わせる
+// (DynamicsCompressorNodeは閾値から自動でメイクアップゲインを掛けるため、閾値自体は動かさない)
+const LIMITER_THRESHOLD_DB = -1.5;
+const LIMITER_RATIO = 20;
+// 仕様上のメイクアップゲイン: (1 / compressionCurve(1.0)) ^ 0.6
+const LIMITER_MAKEUP_DB = -0.6 * LIMITER_THRESHOLD_DB * (1 - 1 / LIMITER_RATIO);
+export const OUTPUT_CEILING_MIN_DB = -40;
+export const DEFAULT_OUTPUT_CEILING_DB = -3;
+
+// 騒音スコアの集計間隔 (秒)
+const SCORE_SAMPLE_INTERVAL = 10;
+
+// 帯域ブースト用フィルターの数 (同時に持ち上げられる帯域の数)
+const REACTIVE_LIFT_FILTERS = 3;
+
+// 検知ログ用のイベント (時刻はclock.now()の秒)
+export type DetectionEvent =
+    | { type: 'impact'; time: number; bandId?: string; intensity: number; adaptiveGain: number; reactiveGain: number }
+    | { type: 'score'; time: number; score: number; peak: number; adaptiveGain: number }
+    | { type: 'recognized'; time: number; soundId: string; soundName: string; confidence: number; intensity: number; adaptiveGain: number; reactiveGain: number };
+
+// マイク入力の状態
+// active: 選択したマイク (未選択なら既定) を使用中 / fallback: 選択したマイクが見つからず既定のマイクを使用中
+// lost: 使えるマイクがない (接続され次第つなぎ直す) / denied: マイクの使用が許可されていない
+export type InputState = 'off' | 'active' | 'fallback' | 'lost' | 'denied';
+
+export interface InputDeviceInfo {
+    id: string;
+    label: string;
+}
+
+export interface AudioEngineOptions {
+    // 外部から与えるコンテキスト (OfflineAudioContextでのヘッドレス実行など)
+    context?: BaseAudioContext;
+    // フレーム/時刻の駆動元 (省略時はrequestAnimationFrame/Date.now)
+    clock?: EngineClock;
+}
+
 export class AudioEngine {
-    private ctx: AudioContext | null = null;
+    private ctx: BaseAudioContext | null = null;
+    private providedContext: BaseAudioContext | null;
+    private clock: EngineClock;
     private noiseNode: AudioWorkletNode | null = null;
     private noiseGainNode: GainNode | null = null; // ノイズ専用マスターゲイン
     private noiseMasterGainNode: GainNode | null = null; // Color + SubBass Master
@@ -149,16 +421,43 @@ export class AudioEngine {
     private baseGainNode: GainNode | null = null;      // 基本音量 (Global Master)
     private adaptiveGainNode: GainNode | null = null;  // Adaptive用
     private reactiveGainNode: GainNode | null = null;  // Reactive用
+    private comparisonGainNode: GainNode | null = null; // A/B比較の音量合わせ (baseGainNodeの後段)
 
     private analyser: AnalyserNode | null = null;
+    // 設定そのものの音量 (Adaptive/Reactive/ゆらぎの前、K特性に近い重み付け)
+    private loudnessAnalyser: AnalyserNode | null = null;
+
+    // Output Limiter (fluctuationGainNodeの後段・最終段)
+    private limiterInputGain: GainNode | null = null;
+    private limiterCompressor: DynamicsCompressorNode | null = null;
+    private limiterOutputGain: GainNode | null = null;
+    private limiterClipper: WaveShaperNode | null = null; // 天井を超えるサンプルを確実に切る
+    private outputCeilingDb = DEFAULT_OUTPUT_CEILING_DB;
 
     // EQフィルター
     private eqFilters: BiquadFilterNode[] = [];
+    private eqBandCount: EqBandCount = 5;
+    // グラフ構築前・バンド数変更時にも保持するゲイン (dB)
+    private eqGains: number[] = EQ_LAYOUTS[5].map(() => 0);
+
+    // Tinnitus Notch (EQの後段)
+    private notchFilters: BiquadFilterNode[] = [];
+    private notch: TinnitusNotchSettings = { ...DEFAULT_TINNITUS_NOTCH };
 
     // Sub-Bass Generator (40-60Hz)
     private subBassNode: OscillatorNode | null = null;
     private subBassGainNode: GainNode | null = null;
 
+    // Tone Layer (Binaural / Isochronic)
+    private toneLeftNode: OscillatorNode | null = null;
+    private toneRightNode: OscillatorNode | null = null;
+    private tonePulseNode: OscillatorNode | null = null;  // アイソクロニック用LFO
+    private tonePulseDepth: GainNode | null = null;
+    private toneEnvelopeGain: GainNode | null = null;     // パルスで開閉
+    private toneGainNode: GainNode | null = null;         // Level
+    private toneSettings: ToneLayerSettings = { ...DEFAULT_TONE_LAYER };
+    private toneRampStart = 0; // ランプ開始時刻 (ctx.currentTime)
+
     // 1/f Fluctuation
     private fluctuationGainNode: GainNode | null = null;
     private isFluctuationEnabled = false;
@@ -169,6 +468,7 @@ export class AudioEngine {
     private convolver: ConvolverNode | null = null;
     private densityDryGain: GainNode | null = null;
     private densityWetGain: GainNode | null = null;
+    private room: RoomSettings = { ...DEFAULT_ROOM };
 
     // Density Properties Removed
     private inputScanParams: {
@@ -178,6 +478,32 @@ export class AudioEngine {
         analyser: AnalyserNode | null
     } = { stream: null, source: null, gain: null, analyser: null };
     private detector: ImpactDetector | null = null;
+    // 使用中の入力デバイスとその校正値 (未校正ならnull: 従来の固定プリアンプ)
+    private inputDevice: InputDeviceInfo | null = null;
+    private micCalibration: MicCalibration | null = null;
+    // ユーザーが選んだマイク (nullなら既定のマイク)
+    private preferredInputDeviceId: string | null = null;
+    private inputState: InputState = 'off';
+    private inputRebind: Promise<void> | null = null;
+    private listeningDeviceChange = false;
+    // マイクを開いたときの既定のマイク (既定のマイクが切り替わったときだけ開き直す)
+    private defaultInputKey: string | null = null;
+    // マイク校正中 (Auto Mode外でもマイクを開いたままにする)
+    private calibrationActive = false;
+    public onInputStateChange: ((state: InputState) => void) | null = null;
+    // 検知設定 (Detectorはマイク初期化時に作られるため、ここで保持して作成時に反映)
+    private detectionSensitivity = 0.5;
+    private detectionMode: { simple: boolean; modeId: string; bandIds: string[] } = { simple: true, modeId: 'all', bandIds: [] };
+    private customDetection: CustomDetection = { bands: [], modes: [] };
+
+    // 学習した音 (フィンガープリント)
+    private soundFingerprints: SoundFingerprint[] = [];
+    private recognitionOnly = false; // 学習した音だけでReactiveブースト・ログ記録する
+    private teachingCallback: ((frames: Float32Array) => void) | null = null;
+
+    // 検知イベントの通知先 (履歴保存など)
+    public onDetectionEvent: ((event: DetectionEvent) => void) | null = null;
+    private scoreSample = { start: 0, sum: 0, peak: 0, count: 0 };
 
     public isInitialized = false;
     private baseVolume = 0.1;
@@ -186,11 +512,18 @@ export class AudioEngine {
     // Adaptiveモードのゲイン制御
     private adaptiveGain = 0; // 騒音スコアに基づくゲイン加算分
     private adaptiveTargetGain = 0;
+    // 予測マスキング: 繰り返す騒音の時間帯に入る前からAdaptiveゲインを底上げする
+    private preMaskGain = 0;
     private adaptiveAnimationId: number | null = null;
 
     // Reactiveモードのブースト設定
+    private reactiveEnabled = true;
     public reactiveBoostStrength = 0.3; // 0.0 - 0.5
     public reactiveBoostDuration = 10; // 秒（5-30）
+    // 検知バンドごとのブーストの掛け方 (帯域を持ち上げる場合はピーキングフィルターを使う)
+    private reactiveResponses: ReactiveResponseMap = { ...DEFAULT_REACTIVE_RESPONSES };
+    private reactiveLiftFilters: BiquadFilterNode[] = [];
+    private reactiveLiftSlots: { key: string; endsAt: number }[] = [];
 
     // Adaptiveモードの減衰速度（UIスライダー値 0.0-1.0）
     private adaptiveSpeedValue = 0.5; // 反応速度 (Attack)
@@ -201,146 +534,448 @@ export class AudioEngine {
     // Soundscapes Check
     public areSoundscapesLoaded = false;
 
-    constructor() { }
+    constructor(options: AudioEngineOptions = {}) {
+        this.providedContext = options.context ?? null;
+        this.clock = options.clock ?? realtimeClock;
+    }
 
     async init() {
         if (this.isInitialized) return;
 
+        if (this.providedContext) {
+            await this.buildGraph(this.providedContext);
+            return;
+        }
+
         // latencyHint to 'playback' caused issues with Mic input (Auto Mode) on Bluetooth.
         // Reverting to default (interactive) but keeping strict state monitoring.
-        this.ctx = new AudioContext();
+        const ctx = new AudioContext();
+        this.ctx = ctx;
 
         // 状態監視: Bluetooth接続などでSuspendedになったら復帰を試みる
-        this.ctx.onstatechange = () => {
-            console.log(`AudioContext state changed to: ${this.ctx?.state}`);
+        ctx.onstatechange = () => {
+            console.log(`AudioContext state changed to: ${ctx.state}`);
             // ユーザーが停止ボタンを押していないのにSuspendedになった場合のみ復帰
-            if (this.ctx?.state === 'suspended' && !this.isExplicitlyStopped) {
+            if (ctx.state === 'suspended' && !this.isExplicitlyStopped) {
                 console.log('Auto-resuming audio context...');
-                this.ctx.resume().catch(e => console.warn('Auto-resume failed:', e));
+                ctx.resume().catch(e => console.warn('Auto-resume failed:', e));
             }
         };
 
         try {
-            // Blob URLを作成して読み込み
-            const blob = new Blob([processorCode], { type: 'application/javascript' });
-            const url = URL.createObjectURL(blob);
-            await this.ctx.audioWorklet.addModule(url);
-            URL.revokeObjectURL(url); // メモリ解放
-
-            this.noiseNode = new AudioWorkletNode(this.ctx, 'noise-processor');
-
-            // ノイズ専用ゲイン作成
-            this.noiseGainNode = this.ctx.createGain();
-            this.noiseGainNode.gain.value = 1.0;
-
-            // Sub-Bass初期化
-            this.subBassNode = this.ctx.createOscillator();
-            this.subBassNode.type = 'sine';
-            this.subBassNode.frequency.value = 55.0; // 気持ちいい重低音
-            this.subBassGainNode = this.ctx.createGain();
-            this.subBassGainNode.gain.value = 0.0; // デフォルトOFF
-
-            this.subBassNode.start();
-
-            // 3つのゲインノードを作成
-            this.baseGainNode = this.ctx.createGain();
-            this.adaptiveGainNode = this.ctx.createGain();
-            this.reactiveGainNode = this.ctx.createGain();
-            this.fluctuationGainNode = this.ctx.createGain(); // ゆらぎ用
-
-            this.noiseMasterGainNode = this.ctx.createGain(); // New Master
-
-            this.analyser = this.ctx.createAnalyser();
-
-            // 初期値設定
-            this.baseGainNode.gain.value = this.baseVolume;
-            this.adaptiveGainNode.gain.value = 1.0;
-            this.reactiveGainNode.gain.value = 1.0;
-            this.fluctuationGainNode.gain.value = 1.0;
-            this.noiseMasterGainNode.gain.value = 1.0; // Default
-            this.analyser.fftSize = 2048;
-
-            // EQフィルターを作成
-            this.eqFilters = EQ_BANDS.map((band) => {
-                const filter = this.ctx!.createBiquadFilter();
-                filter.type = band.type;
-                filter.frequency.value = band.freq;
-                filter.gain.value = 0;
-                filter.Q.value = 1.0;
-                return filter;
-            });
+            await this.buildGraph(ctx);
+            console.log('AudioEngine initialized with 5-band EQ and separate gains');
+        } catch (e) {
+            console.error('Failed to load AudioWorklet:', e);
+            throw e;
+        }
+    }
+
+    /**
+     * ノード生成と接続 (リアルタイム/オフライン共通)
+     * @param impulse Density用IR。省略時は新規生成
+     */
+    private async buildGraph(ctx: BaseAudioContext, impulse?: AudioBuffer) {
+        this.ctx = ctx;
+
+        // Blob URLを作成して読み込み
+        const blob = new Blob([processorCode], { type: 'application/javascript' });
+        const url = URL.createObjectURL(blob);
+        await ctx.audioWorklet.addModule(url);
+        URL.revokeObjectURL(url); // メモリ解放
+
+        // ステレオ出力 (チャンネルごとに独立したジェネレーター状態)
+        this.noiseNode = new AudioWorkletNode(ctx, 'noise-processor', {
+            numberOfInputs: 0,
+            outputChannelCount: [2]
+        });
+
+        // ノイズ専用ゲイン作成
+        this.noiseGainNode = ctx.createGain();
+        this.noiseGainNode.gain.value = 1.0;
+
+        // Sub-Bass初期化
+        this.subBassNode = ctx.createOscillator();
+        this.subBassNode.type = 'sine';
+        this.subBassNode.frequency.value = 55.0; // 気持ちいい重低音
+        this.subBassGainNode = ctx.createGain();
+        this.subBassGainNode.gain.value = 0.0; // デフォルトOFF
+
+        this.subBassNode.start();
+
+        // Tone Layer初期化
+        // L/Rのキャリアを別々のオシレーターで作り、ChannelMergerで左右に振り分ける
+        this.toneLeftNode = ctx.createOscillator();
+        this.toneRightNode = ctx.createOscillator();
+        const toneMerger = ctx.createChannelMerger(2);
+        this.toneEnvelopeGain = ctx.createGain();
+        this.toneGainNode = ctx.createGain();
+        this.toneGainNode.gain.value = 0.0; // デフォルトOFF
+
+        this.tonePulseNode = ctx.createOscillator();
+        this.tonePulseNode.setPeriodicWave(createSoftSquareWave(ctx));
+        this.tonePulseDepth = ctx.createGain();
+
+        this.toneLeftNode.connect(toneMerger, 0, 0);
+        this.toneRightNode.connect(toneMerger, 0, 1);
+        toneMerger.connect(this.toneEnvelopeGain);
+        this.toneEnvelopeGain.connect(this.toneGainNode);
+        this.tonePulseNode.connect(this.tonePulseDepth);
+        this.tonePulseDepth.connect(this.toneEnvelopeGain.gain);
+        this.applyToneLayer(true);
+
+        this.toneLeftNode.start();
+        this.toneRightNode.start();
+        this.tonePulseNode.start();
+
+        // 3つのゲインノードを作成
+        this.baseGainNode = ctx.createGain();
+        this.adaptiveGainNode = ctx.createGain();
+        this.reactiveGainNode = ctx.createGain();
+        this.fluctuationGainNode = ctx.createGain(); // ゆらぎ用
+
+        this.noiseMasterGainNode = ctx.createGain(); // New Master
+
+        this.analyser = ctx.createAnalyser();
+
+        // 初期値設定
+        this.baseGainNode.gain.value = this.baseVolume;
+        this.adaptiveGainNode.gain.value = 1.0;
+        this.reactiveGainNode.gain.value = 1.0;
+        this.fluctuationGainNode.gain.value = 1.0;
+        this.noiseMasterGainNode.gain.value = 1.0; // Default
+        this.analyser.fftSize = 2048;
+
+        // EQフィルターを作成
+        this.eqFilters = this.createEQFilters(ctx);
+
+        // 耳鳴りノッチ (無効時はゲイン0で素通し)
+        this.notchFilters = Array.from({ length: NOTCH_STAGES }, () => {
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'peaking';
+            return filter;
+        });
+        for (let i = 0; i < this.notchFilters.length - 1; i++) {
+            this.notchFilters[i].connect(this.notchFilters[i + 1]);
+        }
+        this.applyNotch(true);
+
+        // 接続: 
+        // [Noise] -> noiseGainNode --+
+        //                            |-> noiseMasterGainNode -> EQ ...
+        // [Sub]   -> subBassGainNode -+
+        // [Tone]  -> toneGainNode ---+
+
+        this.noiseNode.connect(this.noiseGainNode);
+        this.noiseGainNode.connect(this.noiseMasterGainNode);
+
+        this.subBassNode.connect(this.subBassGainNode);
+        this.subBassGainNode.connect(this.noiseMasterGainNode);
+
+        this.toneGainNode.connect(this.noiseMasterGainNode);
+
+        this.noiseMasterGainNode.connect(this.eqFilters[0]);
+
+        // Density (Diffuser) Logic
+        // EQ output -> Dry/Wet split -> BaseGain
+        this.convolver = ctx.createConvolver();
+        this.convolver.normalize = false; // Disable auto-normalization to keep raw power
+        this.convolver.buffer = impulse ?? this.createRoomImpulse(ctx); // 既定はclassic (Duration 2.5s, Decay 2.0)
+        console.log('Density initialized: Convolver created');
+
+        this.densityDryGain = ctx.createGain();
+        this.densityWetGain = ctx.createGain();
+
+        // Default: 100% Dry
+        this.densityDryGain.gain.value = 1.0;
+        this.densityWetGain.gain.value = 0.0;
+
+        const eqOutput = this.eqFilters[this.eqFilters.length - 1];
+        const notchOutput = this.notchFilters[this.notchFilters.length - 1];
+
+        // Routing: EQ -> Notch -> Dry/Wet
+        eqOutput.connect(this.notchFilters[0]);
+        notchOutput.connect(this.densityDryGain);
+        notchOutput.connect(this.convolver);
+        this.convolver.connect(this.densityWetGain);
+
+        // Merge to BaseGain
+        this.densityDryGain.connect(this.baseGainNode);
+        this.densityWetGain.connect(this.baseGainNode);
+
+        // Reactiveの帯域ブースト (通常は0dBで素通し)
+        this.reactiveLiftFilters = Array.from({ length: REACTIVE_LIFT_FILTERS }, () => {
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'peaking';
+            filter.gain.value = 0;
+            return filter;
+        });
+        this.reactiveLiftSlots = this.reactiveLiftFilters.map(() => ({ key: '', endsAt: 0 }));
+        for (let i = 0; i < this.reactiveLiftFilters.length - 1; i++) {
+            this.reactiveLiftFilters[i].connect(this.reactiveLiftFilters[i + 1]);
+        }
+
+        this.comparisonGainNode = ctx.createGain();
+        this.comparisonGainNode.gain.value = 1.0;
+        this.baseGainNode.connect(this.comparisonGainNode);
+        this.comparisonGainNode.connect(this.adaptiveGainNode);
+        this.adaptiveGainNode.connect(this.reactiveLiftFilters[0]);
+
+        // ラウドネス測定: ITU-R BS.1770のK特性 (高域シェルフ + 低域カット) で重み付けする
+        const loudnessShelf = ctx.createBiquadFilter();
+        loudnessShelf.type = 'highshelf';
+        loudnessShelf.frequency.value = 1500;
+        loudnessShelf.gain.value = 4;
+        const loudnessHighpass = ctx.createBiquadFilter();
+        loudnessHighpass.type = 'highpass';
+        loudnessHighpass.frequency.value = 38;
+        loudnessHighpass.Q.value = 0.5;
+        this.loudnessAnalyser = ctx.createAnalyser();
+        this.loudnessAnalyser.fftSize = 2048;
+        this.baseGainNode.connect(loudnessShelf);
+        loudnessShelf.connect(loudnessHighpass);
+        loudnessHighpass.connect(this.loudnessAnalyser);
+        this.reactiveLiftFilters[this.reactiveLiftFilters.length - 1].connect(this.reactiveGainNode);
+        this.reactiveGainNode.connect(this.fluctuationGainNode);
+
+        // Limiter: fluctuation -> input(1/ceiling) -> compressor -> output(ceiling) -> clipper -> analyser
+        this.limiterInputGain = ctx.createGain();
+        this.limiterCompressor = ctx.createDynamicsCompressor();
+        this.limiterCompressor.threshold.value = LIMITER_THRESHOLD_DB;
+        this.limiterCompressor.knee.value = 0;
+        this.limiterCompressor.ratio.value = LIMITER_RATIO;
+        this.limiterCompressor.attack.value = 0.002;
+        this.limiterCompressor.release.value = 0.25;
+        this.limiterOutputGain = ctx.createGain();
+        this.limiterClipper = ctx.createWaveShaper();
+        this.applyOutputCeiling();
+
+        this.fluctuationGainNode.connect(this.limiterInputGain);
+        this.limiterInputGain.connect(this.limiterCompressor);
+        this.limiterCompressor.connect(this.limiterOutputGain);
+        this.limiterOutputGain.connect(this.limiterClipper);
+        this.limiterClipper.connect(this.analyser);
+        this.analyser.connect(ctx.destination);
+
+        this.isInitialized = true;
+    }
+
+    // 現在のバンド構成でEQフィルター列を作成し、直列に接続する
+    private createEQFilters(ctx: BaseAudioContext): BiquadFilterNode[] {
+        const filters = this.getEQBands().map((band, i) => {
+            const filter = ctx.createBiquadFilter();
+            filter.type = band.type;
+            filter.frequency.value = band.freq;
+            filter.gain.value = this.eqGains[i] ?? 0;
+            filter.Q.value = band.q;
+            return filter;
+        });
+
+        for (let i = 0; i < filters.length - 1; i++) {
+            filters[i].connect(filters[i + 1]);
+        }
+        return filters;
+    }
+
+    // EQ設定
+    setEQBand(bandIndex: number, gainDb: number) {
+        if (bandIndex < 0 || bandIndex >= this.eqGains.length) return;
+        this.eqGains[bandIndex] = gainDb;
+
+        const filter = this.eqFilters[bandIndex];
+        if (filter && this.ctx) {
+            filter.gain.setTargetAtTime(gainDb, this.ctx.currentTime, 0.02);
+        }
+    }
+
+    getEQValues(): number[] {
+        return [...this.eqGains];
+    }
+
+    getEQBands(): EqBand[] {
+        return EQ_LAYOUTS[this.eqBandCount];
+    }
 
-            // 接続: 
-            // [Noise] -> noiseGainNode --+
-            //                            |-> noiseMasterGainNode -> EQ ...
-            // [Sub]   -> subBassGainNode -+
+    getEQBandCount(): EqBandCount {
+        return this.eqBandCount;
+    }
+
+    /**
+     * EQのバンド数を切り替える
+     * 現在のカーブは新しいバンドへ補間して引き継ぐ
+     */
+    setEQBandCount(count: EqBandCount) {
+        if (count === this.eqBandCount) return;
+
+        const fromFreqs = this.getEQBands().map(b => b.freq);
+        this.eqBandCount = count;
+        this.eqGains = resampleEqGains(this.eqGains, fromFreqs, this.getEQBands().map(b => b.freq));
+
+        // グラフ構築済みならフィルター列を差し替え
+        const ctx = this.ctx;
+        if (!ctx || this.eqFilters.length === 0 || !this.noiseMasterGainNode) return;
 
-            this.noiseNode.connect(this.noiseGainNode);
-            this.noiseGainNode.connect(this.noiseMasterGainNode);
+        const oldFilters = this.eqFilters;
+        const newFilters = this.createEQFilters(ctx);
+        const eqOutput = newFilters[newFilters.length - 1];
 
-            this.subBassNode.connect(this.subBassGainNode);
-            this.subBassGainNode.connect(this.noiseMasterGainNode);
+        eqOutput.connect(this.notchFilters[0]);
+        this.noiseMasterGainNode.connect(newFilters[0]);
+        this.soundscapeMasterGain?.connect(newFilters[0]);
 
-            this.noiseMasterGainNode.connect(this.eqFilters[0]);
+        this.noiseMasterGainNode.disconnect(oldFilters[0]);
+        this.soundscapeMasterGain?.disconnect(oldFilters[0]);
+        oldFilters.forEach(f => f.disconnect());
 
-            for (let i = 0; i < this.eqFilters.length - 1; i++) {
-                this.eqFilters[i].connect(this.eqFilters[i + 1]);
+        this.eqFilters = newFilters;
+        console.log(`EQ switched to ${count} bands`);
+    }
+
+    // ==========================================
+    // Tinnitus Notch
+    // ==========================================
+
+    setTinnitusNotch(settings: Partial<TinnitusNotchSettings>) {
+        this.notch = { ...this.notch, ...settings };
+        this.applyNotch(false);
+    }
+
+    getTinnitusNotch(): TinnitusNotchSettings {
+        return { ...this.notch };
+    }
+
+    private applyNotch(immediate: boolean) {
+        const ctx = this.ctx;
+        if (!ctx || this.notchFilters.length === 0) return;
+
+        const nyquist = ctx.sampleRate / 2;
+        const width = Math.max(0.5, Math.min(this.notch.width, 2.0));
+        const depth = Math.max(6, Math.min(this.notch.depth, 40));
+        const center = Math.max(100, Math.min(this.notch.frequency, 16000));
+        const stageGain = this.notch.enabled ? -depth * NOTCH_STAGE_GAIN : 0;
+        const q = qForBandwidth(width / NOTCH_STAGES);
+
+        this.notchFilters.forEach((filter, i) => {
+            // 帯域を等分した各区間の中心 (対数軸)
+            const freq = Math.min(center * Math.pow(2, width * ((i + 0.5) / NOTCH_STAGES - 0.5)), nyquist * 0.95);
+            if (immediate) {
+                filter.frequency.value = freq;
+                filter.Q.value = q;
+                filter.gain.value = stageGain;
+            } else {
+                filter.frequency.setTargetAtTime(freq, ctx.currentTime, 0.05);
+                filter.Q.setTargetAtTime(q, ctx.currentTime, 0.05);
+                filter.gain.setTargetAtTime(stageGain, ctx.currentTime, 0.05);
             }
+        });
+    }
 
-            // Density (Diffuser) Logic
-            // EQ output -> Dry/Wet split -> BaseGain
-            this.convolver = this.ctx.createConvolver();
-            this.convolver.normalize = false; // Disable auto-normalization to keep raw power
-            this.convolver.buffer = generateImpulseResponse(this.ctx, 2.5, 2.0); // Duration 2.5s, Decay 2.0
-            console.log('Density initialized: Convolver created');
+    /**
+     * 耳鳴り周波数の確認用に正弦波を短く鳴らす
+     * ノッチ・EQは通さず、出力の上限・リミッター・音量計の対象になるようリミッターの入力へつなぐ
+     */
+    previewTone(frequency: number, duration: number = 1.5) {
+        const ctx = this.ctx;
+        const output = this.limiterInputGain;
+        if (!ctx || !output) return;
+
+        const t = ctx.currentTime;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.value = frequency;
+        gain.gain.setValueAtTime(0, t);
+        gain.gain.linearRampToValueAtTime(0.05, t + 0.05);
+        gain.gain.setValueAtTime(0.05, t + duration - 0.1);
+        gain.gain.linearRampToValueAtTime(0, t + duration);
+
+        osc.connect(gain);
+        gain.connect(output);
+        osc.start(t);
+        osc.stop(t + duration);
+        osc.onended = () => gain.disconnect();
+    }
 
-            this.densityDryGain = this.ctx.createGain();
-            this.densityWetGain = this.ctx.createGain();
+    // ==========================================
+    // Output Limiter
+    // ==========================================
 
-            // Default: 100% Dry
-            this.densityDryGain.gain.value = 1.0;
-            this.densityWetGain.gain.value = 0.0;
+    /**
+     * 出力の上限レベル (dBFS)
+     * Adaptive/Reactiveなどの自動制御を含め、最終出力はこの値を超えない
+     */
+    setOutputCeiling(db: number) {
+        this.outputCeilingDb = Math.max(OUTPUT_CEILING_MIN_DB, Math.min(db, 0));
+        this.applyOutputCeiling();
+    }
 
-            const eqOutput = this.eqFilters[this.eqFilters.length - 1];
+    getOutputCeiling(): number {
+        return this.outputCeilingDb;
+    }
 
-            // Routing
-            eqOutput.connect(this.densityDryGain);
-            eqOutput.connect(this.convolver);
-            this.convolver.connect(this.densityWetGain);
+    // リミッターのゲインリダクション (dB, 0以下)
+    getLimiterReduction(): number {
+        return this.limiterCompressor?.reduction ?? 0;
+    }
 
-            // Merge to BaseGain
-            this.densityDryGain.connect(this.baseGainNode);
-            this.densityWetGain.connect(this.baseGainNode);
+    // 最終出力の実効値 (0dBFS = 1.0)
+    getOutputRms(): number {
+        if (!this.analyser) return 0;
+        const data = new Float32Array(this.analyser.fftSize);
+        this.analyser.getFloatTimeDomainData(data);
 
-            this.baseGainNode.connect(this.adaptiveGainNode);
-            this.adaptiveGainNode.connect(this.reactiveGainNode);
-            this.reactiveGainNode.connect(this.fluctuationGainNode);
-            this.fluctuationGainNode.connect(this.analyser);
-            this.analyser.connect(this.ctx.destination);
+        let sum = 0;
+        for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+        return Math.sqrt(sum / data.length);
+    }
 
-            this.isInitialized = true;
-            console.log('AudioEngine initialized with 5-band EQ and separate gains');
-        } catch (e) {
-            console.error('Failed to load AudioWorklet:', e);
-            throw e;
-        }
+    /**
+     * 設定による音量 (K特性の重み付き実効値、0dBFS = 1.0)
+     * Master Volumeまでを含み、A/B比較のゲイン・Adaptive/Reactive・ゆらぎ・リミッターは含まない
+     */
+    getProgramRms(): number {
+        if (!this.loudnessAnalyser) return 0;
+        const data = new Float32Array(this.loudnessAnalyser.fftSize);
+        this.loudnessAnalyser.getFloatTimeDomainData(data);
+
+        let sum = 0;
+        for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+        return Math.sqrt(sum / data.length);
     }
 
-    // EQ設定
-    setEQBand(bandIndex: number, gainDb: number) {
-        if (bandIndex < 0 || bandIndex >= this.eqFilters.length) return;
-        const filter = this.eqFilters[bandIndex];
-        if (filter && this.ctx) {
-            filter.gain.setTargetAtTime(gainDb, this.ctx.currentTime, 0.02);
-        }
+    /**
+     * A/B比較で音量を揃えるゲイン (Master Volumeの後段)
+     * クリックが出ないよう直線で変える
+     * @param seconds 変化にかける時間
+     */
+    setComparisonGain(gain: number, seconds: number) {
+        const param = this.comparisonGainNode?.gain;
+        if (!param || !this.ctx) return;
+        const t = this.ctx.currentTime;
+        param.cancelScheduledValues(t);
+        param.setValueAtTime(param.value, t);
+        param.linearRampToValueAtTime(Math.max(0, gain), t + Math.max(seconds, 0.01));
     }
 
-    getEQValues(): number[] {
-        return this.eqFilters.map(f => f.gain.value);
+    // リミッター出力のゲイン (天井 + メイクアップ)
+    private limiterOutputLevel(): number {
+        return Math.pow(10, (this.outputCeilingDb - LIMITER_MAKEUP_DB) / 20);
     }
 
-    getEQBands() {
-        return EQ_BANDS;
+    private applyOutputCeiling() {
+        if (!this.limiterInputGain || !this.limiterOutputGain || !this.limiterClipper) return;
+
+        const ceiling = Math.pow(10, this.outputCeilingDb / 20);
+        // 天井の変更は即時に反映 (ランプ中に超えないように)
+        this.limiterInputGain.gain.value = 1 / ceiling;
+        this.limiterOutputGain.gain.value = this.limiterOutputLevel();
+
+        // [-1, 1] の入力を ±ceiling でクランプ (範囲外の入力は端の値になる)
+        const curve = new Float32Array(4097);
+        for (let i = 0; i < curve.length; i++) {
+            const x = (i / (curve.length - 1)) * 2 - 1;
+            curve[i] = Math.max(-ceiling, Math.min(x, ceiling));
+        }
+        this.limiterClipper.curve = curve;
     }
 
     getOutputAnalyser(): AnalyserNode | null {
@@ -365,32 +1000,137 @@ export class AudioEngine {
             sum += x * x;
         }
         const rms = Math.sqrt(sum / dataArray.length);
-        // 感度向上してるので、表示用に少し調整 (0.5くらいでMAXに見えるように)
-        return Math.min(rms * 3.0, 1.0);
+        // 校正済みなら基準音がメーターの8割に来る倍率、未校正なら0.33くらいでMAXに見えるように
+        const scale = this.micCalibration?.meterScale ?? DEFAULT_METER_SCALE;
+        return Math.min(rms * scale, 1.0);
+    }
+
+    // 使用中の入力デバイス (マイク未初期化ならnull)
+    getInputDevice(): InputDeviceInfo | null {
+        return this.inputDevice ? { ...this.inputDevice } : null;
+    }
+
+    getMicCalibration(): MicCalibration | null {
+        return this.micCalibration;
+    }
+
+    /**
+     * マイク校正の適用 (nullで未校正の既定値に戻す)
+     * 保存は呼び出し側で行う (saveMicCalibration)
+     */
+    applyMicCalibration(calibration: MicCalibration | null) {
+        this.micCalibration = calibration;
+        if (this.inputScanParams.gain) {
+            this.inputScanParams.gain.gain.value = calibration?.preampGain ?? DEFAULT_PREAMP_GAIN;
+        }
+        this.detector?.setCalibratedBaselines(calibration?.baselines ?? {});
+    }
+
+    /**
+     * マイク校正用の測定 (プリアンプ前の入力)
+     * 測定中はスピーカーからの回り込みを避けるため出力をミュートする
+     * @param mode 'average': 静かな部屋の平均 / 'peak': 基準音 (手拍子など) の最大
+     */
+    async measureInput(seconds: number, mode: 'average' | 'peak', onProgress?: (progress: number) => void): Promise<InputMeasurement> {
+        const ctx = this.ctx;
+        const source = this.inputScanParams.source;
+        if (!ctx || !source) throw new Error('Microphone is not initialized');
+
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.5; // 検知プロセッサーと同じ
+        source.connect(analyser);
+
+        const outputGain = this.limiterOutputGain?.gain;
+        outputGain?.cancelScheduledValues(ctx.currentTime);
+        outputGain?.setTargetAtTime(0, ctx.currentTime, 0.02);
+
+        const samples = new Float32Array(analyser.fftSize);
+        const bins = new Float32Array(analyser.frequencyBinCount);
+        const spectrumDb = new Float32Array(analyser.frequencyBinCount).fill(mode === 'peak' ? -Infinity : 0);
+        let sumSquares = 0;
+        let peakRms = 0;
+        let frames = 0;
+
+        const interval = 50;
+        const settle = 200; // ミュート・平滑化が落ち着くまで待つ
+        const total = Math.round(seconds * 1000 / interval);
+        const wait = (ms: number) => new Promise<void>(resolve => this.clock.setTimeout(resolve, ms));
+
+        try {
+            await wait(settle);
+            for (let i = 0; i < total; i++) {
+                await wait(interval);
+
+                analyser.getFloatTimeDomainData(samples);
+                let sum = 0;
+                for (let j = 0; j < samples.length; j++) sum += samples[j] * samples[j];
+                const rms = Math.sqrt(sum / samples.length);
+                sumSquares += rms * rms;
+                peakRms = Math.max(peakRms, rms);
+
+                analyser.getFloatFrequencyData(bins);
+                for (let j = 0; j < bins.length; j++) {
+                    // 無音のビンは-Infinityになるため下限を設ける
+                    const db = Math.max(bins[j], -200);
+                    spectrumDb[j] = mode === 'peak' ? Math.max(spectrumDb[j], db) : spectrumDb[j] + db;
+                }
+                frames++;
+                onProgress?.((i + 1) / total);
+            }
+        } finally {
+            source.disconnect(analyser);
+            // 測定中に天井が変えられていても、今の天井の値に戻す
+            outputGain?.cancelScheduledValues(ctx.currentTime);
+            outputGain?.setTargetAtTime(this.limiterOutputLevel(), ctx.currentTime, 0.05);
+        }
+
+        if (mode === 'average' && frames > 0) {
+            for (let j = 0; j < spectrumDb.length; j++) spectrumDb[j] /= frames;
+        }
+        return {
+            rms: frames > 0 ? Math.sqrt(sumSquares / frames) : 0,
+            peakRms,
+            spectrumDb,
+            sampleRate: ctx.sampleRate
+        };
     }
 
     // マイク入力の初期化
     async initInput() {
-        if (!this.ctx) return;
+        // マイク入力はリアルタイム再生 (AudioContext) のみ
+        const ctx = this.ctx;
+        if (!(ctx instanceof AudioContext)) return;
         if (this.inputScanParams.stream) return;
 
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    echoCancellation: false,
-                    noiseSuppression: false,
-                    autoGainControl: false
-                }
+        // マイクの抜き差し・Bluetoothヘッドセットの切り替えに追従する
+        if (!this.listeningDeviceChange) {
+            navigator.mediaDevices.addEventListener('devicechange', () => {
+                this.handleDeviceChange().catch(e => console.error('Failed to handle device change:', e));
             });
+            this.listeningDeviceChange = true;
+        }
+
+        try {
+            const { stream, fallback } = await this.openInputStream();
+            this.defaultInputKey = defaultInputKey(await this.enumerateInputs().catch(() => []));
             this.inputScanParams.stream = stream;
-            this.inputScanParams.stream = stream;
-            this.inputScanParams.source = this.ctx.createMediaStreamSource(stream);
+            this.inputScanParams.source = ctx.createMediaStreamSource(stream);
+
+            // 入力デバイスごとの校正値を読み込む
+            const track = stream.getAudioTracks()[0];
+            this.inputDevice = { id: track?.getSettings().deviceId ?? 'default', label: track?.label ?? '' };
+            this.micCalibration = loadMicCalibration(this.inputDevice.id);
+            // 使用中のマイクが外された
+            track?.addEventListener('ended', () => {
+                if (this.inputScanParams.stream === stream) this.rebindInput();
+            });
 
-            // プリアンプ (GainNode) 作成: マイク感度向上用
-            this.inputScanParams.gain = this.ctx.createGain();
-            this.inputScanParams.gain.gain.value = 5.0; // 入力を5倍に増幅
+            // プリアンプ (GainNode) 作成: マイク感度向上用 (未校正なら5倍)
+            this.inputScanParams.gain = ctx.createGain();
+            this.inputScanParams.gain.gain.value = this.micCalibration?.preampGain ?? DEFAULT_PREAMP_GAIN;
 
-            this.inputScanParams.analyser = this.ctx.createAnalyser();
+            this.inputScanParams.analyser = ctx.createAnalyser();
             this.inputScanParams.analyser.fftSize = 2048;
 
             // 接続: Source -> Gain -> Analyser
@@ -398,110 +1138,274 @@ export class AudioEngine {
             this.inputScanParams.gain.connect(this.inputScanParams.analyser);
 
             // コールバック設定
+            // 検知はオーディオスレッドで行うため、Adaptiveゲインの追従もスコア受信ごとに進める
+            // (rAFループは画面オフ・タブ非表示で止まる)
             const callbacks: DetectionCallbacks = {
                 onImpact: (intensity, bandId) => {
+                    if (this.recognitionOnly) return;
                     this.handleReactiveImpact(intensity, bandId);
                 },
+                onSnapshot: (frames, intensity) => {
+                    this.handleSnapshot(frames, intensity);
+                },
                 onNoiseScoreUpdate: (score) => {
                     this.handleAdaptiveUpdate(score);
+                    if (this.isAutoMode) this.stepAdaptiveGain();
                 }
             };
 
-            this.detector = new ImpactDetector(
-                this.inputScanParams.analyser,
-                callbacks,
-                this.ctx.sampleRate
-            );
+            // 接続: Gain -> Detector (AudioWorklet)
+            await ImpactDetector.loadModule(ctx);
+            // 出力 (Analyser) を参照入力として渡し、スピーカーからの回り込みを差し引く
+            this.detector = new ImpactDetector(ctx, this.inputScanParams.gain, callbacks, this.analyser ?? undefined);
+            this.detector.reactiveEnabled = this.reactiveEnabled;
+            this.detector.sensitivity = this.detectionSensitivity;
+            this.detector.setCustomDetection(this.customDetection);
+            if (this.micCalibration) this.detector.setCalibratedBaselines(this.micCalibration.baselines);
+            this.updateFingerprintCapture();
+            if (this.detectionMode.simple) {
+                this.detector.setSimpleMode(this.detectionMode.modeId);
+            } else {
+                this.detector.setDetailedMode(this.detectionMode.bandIds);
+            }
 
+            this.setInputState(fallback ? 'fallback' : 'active');
             console.log('Microphone initialized');
         } catch (e) {
             console.error('Microphone access denied:', e);
+            this.setInputState(e instanceof DOMException && e.name === 'NotAllowedError' ? 'denied' : 'lost');
             throw e;
         }
     }
 
+    // 選択したマイクを開く。見つからなければ既定のマイクで開く
+    private async openInputStream(): Promise<{ stream: MediaStream; fallback: boolean }> {
+        const constraints: MediaTrackConstraints = {
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false
+        };
+        if (this.preferredInputDeviceId) {
+            try {
+                const stream = await navigator.mediaDevices.getUserMedia({
+                    audio: { ...constraints, deviceId: { exact: this.preferredInputDeviceId } }
+                });
+                return { stream, fallback: false };
+            } catch (e) {
+                if (!(e instanceof DOMException) || (e.name !== 'OverconstrainedError' && e.name !== 'NotFoundError')) throw e;
+                console.warn('Selected microphone not found, using default');
+            }
+            return { stream: await navigator.mediaDevices.getUserMedia({ audio: constraints }), fallback: true };
+        }
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: constraints }), fallback: false };
+    }
+
+    private setInputState(state: InputState) {
+        if (state === this.inputState) return;
+        this.inputState = state;
+        this.onInputStateChange?.(state);
+    }
+
+    getInputState(): InputState {
+        return this.inputState;
+    }
+
+    // 入力デバイス一覧 (マイクの許可前はラベルが空)
+    async listInputDevices(): Promise<InputDeviceInfo[]> {
+        const inputs = await this.enumerateInputs();
+        return inputs.map(d => ({ id: d.deviceId, label: d.label }));
+    }
+
+    private async enumerateInputs(): Promise<MediaDeviceInfo[]> {
+        if (!navigator.mediaDevices?.enumerateDevices) return [];
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return devices.filter(d => d.kind === 'audioinput');
+    }
+
+    getPreferredInputDevice(): string | null {
+        return this.preferredInputDeviceId;
+    }
+
+    /**
+     * 使用するマイクを選ぶ (nullで既定のマイク)
+     * マイク使用中なら新しいデバイスでつなぎ直す
+     */
+    async setInputDevice(deviceId: string | null) {
+        this.preferredInputDeviceId = deviceId || null;
+        if (this.inputScanParams.stream || this.inputState === 'lost') {
+            await this.rebindInput();
+        }
+    }
+
+    private async handleDeviceChange() {
+        if (!this.inputScanParams.stream && this.inputState !== 'lost') return;
+
+        const inputs = await this.enumerateInputs();
+        const preferred = this.preferredInputDeviceId;
+        const current = this.inputDevice?.id;
+        const needsRebind =
+            this.inputState === 'lost' ||
+            // 既定のマイクが切り替わった (出力デバイスなど関係のない抜き差しでは開き直さない)
+            (!preferred && defaultInputKey(inputs) !== this.defaultInputKey) ||
+            // 使用中のマイクが外された / 選択したマイクが戻ってきた
+            !inputs.some(d => d.deviceId === current) ||
+            (this.inputState === 'fallback' && inputs.some(d => d.deviceId === preferred));
+        if (needsRebind) await this.rebindInput();
+    }
+
+    /**
+     * マイクを開き直す。Auto Modeは止めずに検知を再開する
+     * マイクがなければ'lost'のままAdaptiveゲインを戻し、次のdevicechangeで再試行する
+     */
+    private rebindInput(): Promise<void> {
+        if (this.inputRebind) return this.inputRebind;
+
+        this.inputRebind = (async () => {
+            this.closeInput();
+            try {
+                await this.initInput();
+                // 開き直している間にAuto Modeが切られた
+                if (!this.isAutoMode && !this.calibrationActive) {
+                    this.releaseInput();
+                    return;
+                }
+                this.stopAdaptiveLoop();
+                if (this.isAutoMode) {
+                    this.detector?.start();
+                    this.detector?.updateNoiseGain(this.baseVolume + this.adaptiveGain);
+                }
+            } catch {
+                this.handleInputUnavailable();
+            }
+        })().finally(() => {
+            this.inputRebind = null;
+        });
+        return this.inputRebind;
+    }
+
+    // マイクが使えない間もAuto Modeは続け、スコアが来ないためAdaptiveゲインを予測マスキング分まで戻す
+    private handleInputUnavailable() {
+        if (!this.isAutoMode) return;
+        this.adaptiveTargetGain = this.preMaskGain;
+        this.startAdaptiveLoop();
+    }
+
     toggleAutoMode(enable: boolean) {
         this.isAutoMode = enable;
         if (enable) {
-            if (!this.inputScanParams.stream) {
+            if (!(this.ctx instanceof AudioContext)) {
+                // ヘッドレス: マイクなし。検知結果はfeedNoiseScore/feedImpactで与える
+                this.startAdaptiveLoop();
+            } else if (!this.inputScanParams.stream) {
                 this.initInput().then(() => {
                     this.detector?.start();
-                    this.startAdaptiveLoop();
+                }).catch(() => {
+                    this.handleInputUnavailable();
                 });
             } else {
                 this.detector?.start();
                 this.detector?.updateNoiseGain(this.baseVolume);
-                this.startAdaptiveLoop();
             }
         } else {
             this.detector?.stop();
             this.stopAdaptiveLoop();
             this.adaptiveGain = 0;
             this.adaptiveTargetGain = 0;
+            this.scoreSample = { start: 0, sum: 0, peak: 0, count: 0 };
 
             // マイクストリームを完全に停止・解放する
-            if (this.inputScanParams.stream) {
-                this.inputScanParams.stream.getTracks().forEach(track => track.stop());
-                this.inputScanParams.stream = null;
-                // Source/Analyserも作り直しになるためクリア
-                if (this.inputScanParams.source) {
-                    this.inputScanParams.source.disconnect();
-                    this.inputScanParams.source = null;
-                }
-                if (this.inputScanParams.gain) {
-                    this.inputScanParams.gain.disconnect();
-                    this.inputScanParams.gain = null;
-                }
-                // Analyserは再利用してもいいが、念のため
-                if (this.inputScanParams.analyser) {
-                    this.inputScanParams.analyser.disconnect();
-                    this.inputScanParams.analyser = null;
-                }
-                console.log('Microphone stream released');
-            }
+            this.releaseInput();
 
             // ゲインを元に戻す
             if (this.adaptiveGainNode && this.reactiveGainNode && this.ctx) {
                 this.adaptiveGainNode.gain.setTargetAtTime(1.0, this.ctx.currentTime, 0.5);
                 this.reactiveGainNode.gain.setTargetAtTime(1.0, this.ctx.currentTime, 0.5);
             }
+            // 帯域ブーストも0dBに戻す
+            const ctx = this.ctx;
+            if (ctx) {
+                this.reactiveLiftFilters.forEach(filter => {
+                    filter.gain.cancelScheduledValues(ctx.currentTime);
+                    filter.gain.setTargetAtTime(0, ctx.currentTime, 0.5);
+                });
+            }
+            this.reactiveLiftSlots = this.reactiveLiftFilters.map(() => ({ key: '', endsAt: 0 }));
         }
     }
 
-    // Adaptiveゲイン更新ループ
+    // マイク校正の開始・終了 (校正中はマイクを開き直してもAuto Mode外で閉じない)
+    setCalibrationActive(active: boolean) {
+        this.calibrationActive = active;
+    }
+
+    // マイクストリームを停止・解放する (Auto Mode外でマイク校正した後など)
+    releaseInput() {
+        this.closeInput();
+        this.setInputState('off');
+    }
+
+    private closeInput() {
+        if (!this.inputScanParams.stream) return;
+        this.inputScanParams.stream.getTracks().forEach(track => track.stop());
+        this.inputScanParams.stream = null;
+        this.inputDevice = null;
+        this.micCalibration = null;
+        // Detectorは次回のinitInputで作り直す
+        this.detector?.dispose();
+        this.detector = null;
+        // Source/Analyserも作り直しになるためクリア
+        if (this.inputScanParams.source) {
+            this.inputScanParams.source.disconnect();
+            this.inputScanParams.source = null;
+        }
+        if (this.inputScanParams.gain) {
+            this.inputScanParams.gain.disconnect();
+            this.inputScanParams.gain = null;
+        }
+        // Analyserは再利用してもいいが、念のため
+        if (this.inputScanParams.analyser) {
+            this.inputScanParams.analyser.disconnect();
+            this.inputScanParams.analyser = null;
+        }
+        console.log('Microphone stream released');
+    }
+
+    // Adaptiveゲイン更新ループ (ヘッドレス実行用。マイク検知時はスコア受信ごとに進める)
     private startAdaptiveLoop() {
         if (this.adaptiveAnimationId !== null) return;
 
         const loop = () => {
             if (!this.isAutoMode) return;
+            this.stepAdaptiveGain();
+            this.adaptiveAnimationId = this.clock.requestFrame(loop);
+        };
 
-            // 目標ゲインに向けて緩やかに追従
-            const diff = this.adaptiveTargetGain - this.adaptiveGain;
-            if (Math.abs(diff) > 0.001) {
-                // 上昇は速め(0.02)、下降は設定値に基づく
-                // Decay 0.0 (短い) -> Speed 0.0020 (速く戻る)
-                // Decay 1.0 (長い) -> Speed 0.0001 (ゆっくり戻る)
-                const decaySpeed = 0.0001 + ((1.0 - this.adaptiveDecayValue) * 0.0019);
-
-                // 上昇速度 (Attack) をスライダー連動に変更
-                // Attack 0.0 (遅い) -> 0.0005 (じわじわ上がる)
-                // Attack 1.0 (速い) -> 0.02 (以前の固定値＝俊敏)
-                const attackSpeed = 0.0005 + (this.adaptiveSpeedValue * 0.0195);
-
-                const speed = diff > 0 ? attackSpeed : decaySpeed;
-                this.adaptiveGain += diff * speed;
-                this.applyAdaptiveGain();
-            }
+        this.adaptiveAnimationId = this.clock.requestFrame(loop);
+    }
 
-            this.adaptiveAnimationId = requestAnimationFrame(loop);
-        };
+    // 目標ゲインに向けて1フレーム分(約1/60秒)追従
+    private stepAdaptiveGain() {
+        const diff = this.adaptiveTargetGain - this.adaptiveGain;
+        if (Math.abs(diff) <= 0.001) return;
 
-        this.adaptiveAnimationId = requestAnimationFrame(loop);
+        // 上昇は速め(0.02)、下降は設定値に基づく
+        // Decay 0.0 (短い) -> Speed 0.0020 (速く戻る)
+        // Decay 1.0 (長い) -> Speed 0.0001 (ゆっくり戻る)
+        const decaySpeed = 0.0001 + ((1.0 - this.adaptiveDecayValue) * 0.0019);
+
+        // 上昇速度 (Attack) をスライダー連動に変更
+        // Attack 0.0 (遅い) -> 0.0005 (じわじわ上がる)
+        // Attack 1.0 (速い) -> 0.02 (以前の固定値＝俊敏)
+        const attackSpeed = 0.0005 + (this.adaptiveSpeedValue * 0.0195);
+
+        const speed = diff > 0 ? attackSpeed : decaySpeed;
+        this.adaptiveGain += diff * speed;
+        this.applyAdaptiveGain();
     }
 
     private stopAdaptiveLoop() {
         if (this.adaptiveAnimationId !== null) {
-            cancelAnimationFrame(this.adaptiveAnimationId);
+            this.clock.cancelFrame(this.adaptiveAnimationId);
             this.adaptiveAnimationId = null;
         }
     }
@@ -511,23 +1415,51 @@ export class AudioEngine {
         if (!this.isAutoMode) return;
 
         // 騒音スコアをゲイン加算分に変換（最大+0.4）
-        this.adaptiveTargetGain = Math.min(noiseScore * 2, 0.4);
+        this.adaptiveTargetGain = Math.max(Math.min(noiseScore * 2, 0.4), this.preMaskGain);
+        this.sampleNoiseScore(noiseScore);
 
         // 検知器にノイズゲインを通知
         this.detector?.updateNoiseGain(this.baseVolume + this.adaptiveGain);
     }
 
     // Reactive: 衝撃検知時の即時ブースト
-    private handleReactiveImpact(intensity: number, _bandId?: string) {
-        if (!this.isAutoMode || !this.reactiveGainNode || !this.ctx) return;
+    private handleReactiveImpact(intensity: number, bandId?: string) {
+        const boostMultiplier = this.applyReactiveBoost(intensity, bandId);
+        if (boostMultiplier === null) return;
+
+        if (this.onDetectionEvent) {
+            this.onDetectionEvent({
+                type: 'impact',
+                time: this.clock.now(),
+                bandId,
+                intensity,
+                adaptiveGain: this.adaptiveGainNode?.gain.value ?? 1.0,
+                reactiveGain: boostMultiplier
+            });
+        }
+    }
+
+    /**
+     * Reactiveブーストを掛け、倍率を返す (無効時はnull)
+     * 検知バンドの設定に応じて、出力全体か対応する帯域だけを持ち上げる
+     */
+    private applyReactiveBoost(intensity: number, bandId?: string): number | null {
+        if (!this.isAutoMode || !this.reactiveGainNode || !this.ctx) return null;
 
         // Reactiveが無効の場合はスキップ
-        if (!this.detector?.reactiveEnabled) return;
+        if (!this.reactiveEnabled) return null;
 
         const now = this.ctx.currentTime;
         // ブースト量を乗算式のゲインとして計算（例: 1.0 + 0.3 = 1.3倍）
         const boostMultiplier = 1.0 + (intensity * this.reactiveBoostStrength * 3);
 
+        const lift = resolveReactiveLift(bandId, this.reactiveResponses, getAllDetectionBands(this.customDetection));
+        if (lift) {
+            this.applyReactiveLift(lift, 20 * Math.log10(boostMultiplier));
+            console.log(`Reactive lift! ${lift.minFreq}-${lift.maxFreq}Hz, Intensity: ${intensity.toFixed(2)}, Multiplier: ${boostMultiplier.toFixed(2)}`);
+            return boostMultiplier;
+        }
+
         // 即時ブースト → 穏やかにフェードアウト
         this.reactiveGainNode.gain.cancelScheduledValues(now);
         this.reactiveGainNode.gain.setValueAtTime(this.reactiveGainNode.gain.value, now);
@@ -544,6 +1476,133 @@ export class AudioEngine {
         );
 
         console.log(`Reactive! Intensity: ${intensity.toFixed(2)}, Multiplier: ${boostMultiplier.toFixed(2)}`);
+        return boostMultiplier;
+    }
+
+    // 帯域ブースト: 同じ帯域のフィルターがあれば掛け直し、なければ最も早く終わるフィルターを使う
+    private applyReactiveLift(range: ReactiveLiftRange, gainDb: number) {
+        if (!this.ctx || this.reactiveLiftFilters.length === 0) return;
+
+        const now = this.ctx.currentTime;
+        const key = `${range.minFreq}-${range.maxFreq}`;
+        let index = this.reactiveLiftSlots.findIndex(slot => slot.key === key);
+        if (index < 0) {
+            index = 0;
+            this.reactiveLiftSlots.forEach((slot, i) => {
+                if (slot.endsAt < this.reactiveLiftSlots[index].endsAt) index = i;
+            });
+        }
+
+        const filter = this.reactiveLiftFilters[index];
+        const octaves = Math.max(Math.log2(range.maxFreq / range.minFreq), 0.3);
+        filter.frequency.value = Math.sqrt(range.minFreq * range.maxFreq);
+        filter.Q.value = qForBandwidth(octaves);
+
+        // 全体ブーストと同じエンベロープ (dBで直線 = 振幅では指数カーブ)
+        const holdTime = this.reactiveBoostDuration * 0.5;
+        const fadeTime = this.reactiveBoostDuration * 0.5;
+        filter.gain.cancelScheduledValues(now);
+        filter.gain.setValueAtTime(filter.gain.value, now);
+        filter.gain.linearRampToValueAtTime(gainDb, now + 0.1);
+        filter.gain.setValueAtTime(gainDb, now + 0.1 + holdTime);
+        filter.gain.linearRampToValueAtTime(0, now + 0.1 + holdTime + fadeTime);
+
+        this.reactiveLiftSlots[index] = { key, endsAt: now + 0.1 + holdTime + fadeTime };
+    }
+
+    // 立ち上がりのスナップショット: 学習中は例として渡し、それ以外は学習した音と照合する
+    private handleSnapshot(frames: Float32Array, intensity: number) {
+        if (this.teachingCallback) {
+            this.teachingCallback(frames);
+            return;
+        }
+
+        const match = matchFingerprint(frames, this.soundFingerprints);
+        if (!match) return;
+
+        // 学習した音だけに反応する設定の場合、ここでブーストする (通常は帯域の衝撃検知でブースト済み)
+        let reactiveGain = this.reactiveGainNode?.gain.value ?? 1.0;
+        if (this.recognitionOnly && match.fingerprint.mask) {
+            reactiveGain = this.applyReactiveBoost(intensity) ?? reactiveGain;
+        }
+
+        console.log(`Recognized: ${match.fingerprint.name} (${(match.confidence * 100).toFixed(0)}%)`);
+
+        if (this.onDetectionEvent) {
+            this.onDetectionEvent({
+                type: 'recognized',
+                time: this.clock.now(),
+                soundId: match.fingerprint.id,
+                soundName: match.fingerprint.name,
+                confidence: match.confidence,
+                intensity,
+                adaptiveGain: this.adaptiveGainNode?.gain.value ?? 1.0,
+                reactiveGain
+            });
+        }
+    }
+
+    // 学習中か、照合する音がある場合のみスナップショットを取る
+    private updateFingerprintCapture() {
+        this.detector?.setFingerprintCapture(this.teachingCallback !== null || this.soundFingerprints.length > 0);
+    }
+
+    setSoundFingerprints(fingerprints: SoundFingerprint[]) {
+        this.soundFingerprints = [...fingerprints];
+        this.updateFingerprintCapture();
+    }
+
+    setRecognitionOnly(enabled: boolean) {
+        this.recognitionOnly = enabled;
+    }
+
+    /**
+     * 学習モード: 検知した音のスナップショットを照合せずにコールバックへ渡す
+     * (Auto Masking有効中のみ検知が動く)
+     */
+    startTeaching(onExample: (frames: Float32Array) => void) {
+        this.teachingCallback = onExample;
+        this.updateFingerprintCapture();
+    }
+
+    stopTeaching() {
+        this.teachingCallback = null;
+        this.updateFingerprintCapture();
+    }
+
+    // 騒音スコアを一定間隔で平均・最大に集計して通知
+    private sampleNoiseScore(score: number) {
+        if (!this.onDetectionEvent) return;
+
+        const now = this.clock.now();
+        const sample = this.scoreSample;
+        if (sample.count === 0) sample.start = now;
+        sample.sum += score;
+        sample.peak = Math.max(sample.peak, score);
+        sample.count++;
+
+        if (now - sample.start >= SCORE_SAMPLE_INTERVAL) {
+            this.onDetectionEvent({
+                type: 'score',
+                time: now,
+                score: sample.sum / sample.count,
+                peak: sample.peak,
+                adaptiveGain: this.adaptiveGainNode?.gain.value ?? 1.0
+            });
+            this.scoreSample = { start: now, sum: 0, peak: 0, count: 0 };
+        }
+    }
+
+    /**
+     * 検知結果を外部から与える (ヘッドレス実行・テスト用)
+     * マイク検知と同じ経路でAdaptive/Reactiveに反映される
+     */
+    feedNoiseScore(score: number) {
+        this.handleAdaptiveUpdate(score);
+    }
+
+    feedImpact(intensity: number, bandId?: string) {
+        this.handleReactiveImpact(intensity, bandId);
     }
 
     // Adaptiveゲインを適用
@@ -555,13 +1614,23 @@ export class AudioEngine {
 
         // 不感帯: 1.10未満は1.0として無視
         // これによりスピーカーからの微小な揺らぎを無視
-        if (multiplier < 1.10) {
+        // (出力参照で自己音を除去している場合は不要)
+        if (multiplier < 1.10 && !this.detector?.isOutputAware) {
             multiplier = 1.0;
         }
 
         this.adaptiveGainNode.gain.setTargetAtTime(multiplier, this.ctx.currentTime, 0.1);
     }
 
+    /**
+     * 予測マスキングのAdaptiveゲイン底上げ (0でスコアのみに戻る)
+     * 上昇・下降はAdaptiveのAttack/Decayに従う
+     */
+    setPreMaskGain(gain: number) {
+        this.preMaskGain = Math.max(0, Math.min(gain, 0.4));
+        this.adaptiveTargetGain = Math.max(this.adaptiveTargetGain, this.preMaskGain);
+    }
+
     // 現在のゲイン値を取得（インジケーター用）
     getGainValues(): { adaptive: number; reactive: number } {
         return {
@@ -571,6 +1640,7 @@ export class AudioEngine {
     }
 
     setSensitivity(val: number) {
+        this.detectionSensitivity = val;
         if (this.detector) {
             this.detector.sensitivity = val;
         }
@@ -578,6 +1648,7 @@ export class AudioEngine {
 
     // Reactive有効/無効
     setReactiveEnabled(enabled: boolean) {
+        this.reactiveEnabled = enabled;
         if (this.detector) {
             this.detector.reactiveEnabled = enabled;
         }
@@ -593,6 +1664,19 @@ export class AudioEngine {
         this.reactiveBoostDuration = val;
     }
 
+    // 検知バンドごとのブーストの掛け方 ('all' = 全帯域検知・学習した音)
+    setReactiveResponse(bandId: string, target: ReactiveResponseTarget) {
+        this.reactiveResponses[bandId] = target;
+    }
+
+    setReactiveResponses(responses: ReactiveResponseMap) {
+        this.reactiveResponses = { ...DEFAULT_REACTIVE_RESPONSES, ...responses };
+    }
+
+    getReactiveResponses(): ReactiveResponseMap {
+        return { ...this.reactiveResponses };
+    }
+
     // Adaptive反応速度 (Attack)
     setAdaptiveSpeed(val: number) {
         this.adaptiveSpeedValue = val;
@@ -624,6 +1708,7 @@ export class AudioEngine {
         zero(this.noiseMasterGainNode);
         zero(this.soundscapeMasterGain);
         zero(this.subBassGainNode);
+        zero(this.toneGainNode);
 
 
         // Also mute rumble if possible (it's inside noiseNode param)
@@ -638,46 +1723,65 @@ export class AudioEngine {
 
 
     setDetectionSimpleMode(modeId: string) {
+        this.detectionMode = { simple: true, modeId, bandIds: [] };
         if (this.detector) {
             this.detector.setSimpleMode(modeId);
         }
     }
 
     setDetectionDetailedMode(bandIds: string[]) {
+        this.detectionMode = { simple: false, modeId: this.detectionMode.modeId, bandIds: [...bandIds] };
         if (this.detector) {
             this.detector.setDetailedMode(bandIds);
         }
     }
 
     toggleDetectionBand(bandId: string, enabled: boolean) {
+        const bandIds = this.detectionMode.bandIds.filter(id => id !== bandId);
+        if (enabled) bandIds.push(bandId);
+        this.detectionMode = { ...this.detectionMode, bandIds };
         if (this.detector) {
             this.detector.toggleBand(bandId, enabled);
         }
     }
 
+    // ユーザー定義の検知バンド・シンプルモード
+    setCustomDetection(custom: CustomDetection) {
+        this.customDetection = { bands: [...custom.bands], modes: [...custom.modes] };
+        if (this.detector) {
+            this.detector.setCustomDetection(this.customDetection);
+        }
+    }
+
+    getCustomDetection(): CustomDetection {
+        return { bands: [...this.customDetection.bands], modes: [...this.customDetection.modes] };
+    }
+
     getDetector() {
         return this.detector;
     }
 
     async resume() {
-        if (!this.ctx) return;
+        const ctx = this.ctx;
+        if (!(ctx instanceof AudioContext)) return;
         this.isExplicitlyStopped = false; // 再開フラグ
-        if (this.ctx.state === 'suspended') {
-            await this.ctx.resume();
+        if (ctx.state === 'suspended') {
+            await ctx.resume();
         }
     }
 
     suspend() {
-        if (!this.ctx) return;
+        const ctx = this.ctx;
+        if (!(ctx instanceof AudioContext)) return;
         this.isExplicitlyStopped = true; // 停止フラグ
-        this.ctx.suspend();
+        ctx.suspend();
         this.detector?.stop();
         this.stopAdaptiveLoop();
         this.isAutoMode = false;
     }
 
     // ノイズミキシング設定 (0.0 - 1.0)
-    setNoiseMix(white: number, pink: number, brown: number, dark: number, rumble?: number) {
+    setNoiseMix(white: number, pink: number, brown: number, dark: number, rumble?: number, shaped?: ShapedNoiseMix) {
         if (!this.noiseNode) return;
         const params = this.noiseNode.parameters;
 
@@ -687,6 +1791,13 @@ export class AudioEngine {
         if (params.has('brownGain')) params.get('brownGain')!.setValueAtTime(brown, this.ctx!.currentTime);
         if (params.has('darkGain')) params.get('darkGain')!.setValueAtTime(dark, this.ctx!.currentTime);
         if (rumble !== undefined && params.has('rumbleGain')) params.get('rumbleGain')!.setValueAtTime(rumble, this.ctx!.currentTime);
+
+        if (shaped) {
+            const slopeDb = Math.max(SLOPE_DB_MIN, Math.min(shaped.slopeDb, SLOPE_DB_MAX));
+            if (params.has('slopeGain')) params.get('slopeGain')!.setValueAtTime(shaped.slope, this.ctx!.currentTime);
+            if (params.has('slopeDb')) params.get('slopeDb')!.setValueAtTime(slopeDb, this.ctx!.currentTime);
+            if (params.has('greyGain')) params.get('greyGain')!.setValueAtTime(shaped.grey, this.ctx!.currentTime);
+        }
     }
 
     setNoiseType(type: number) {
@@ -744,6 +1855,84 @@ export class AudioEngine {
         if (param) param.setTargetAtTime(volume, this.ctx!.currentTime, 0.1);
     }
 
+    // ==========================================
+    // Tone Layer (Binaural / Isochronic)
+    // ==========================================
+
+    /**
+     * トーンレイヤーを設定する
+     * 周波数関連 (mode/carrier/beat/beatEnd/rampMinutes) が変わった場合はその時点からランプをやり直し、
+     * Levelだけの変更ではランプの進行を維持する
+     */
+    setToneLayer(settings: Partial<ToneLayerSettings>) {
+        const prev = this.toneSettings;
+        this.toneSettings = { ...prev, ...settings };
+
+        const next = this.toneSettings;
+        const retuned = prev.mode !== next.mode || prev.carrier !== next.carrier || prev.beat !== next.beat ||
+            prev.beatEnd !== next.beatEnd || prev.rampMinutes !== next.rampMinutes;
+        const elapsed = !retuned && this.ctx ? this.ctx.currentTime - this.toneRampStart : 0;
+        this.applyToneLayer(false, elapsed);
+    }
+
+    // セッション開始時などにビートのランプを最初から
+    restartToneRamp() {
+        this.applyToneLayer(false, 0);
+    }
+
+    getToneLayer(): ToneLayerSettings {
+        return { ...this.toneSettings };
+    }
+
+    private applyToneLayer(immediate: boolean, rampElapsed: number = 0) {
+        const ctx = this.ctx;
+        if (!ctx || !this.toneLeftNode || !this.toneRightNode || !this.tonePulseNode ||
+            !this.tonePulseDepth || !this.toneEnvelopeGain || !this.toneGainNode) return;
+
+        const st = this.toneSettings;
+        const t = ctx.currentTime;
+        const carrier = Math.max(100, Math.min(st.carrier, 1000));
+        const clampBeat = (beat: number) => Math.max(0.5, Math.min(beat, 40));
+        const rampSeconds = Math.max(0, st.rampMinutes * 60 - rampElapsed);
+        const startBeat = st.rampMinutes > 0
+            ? clampBeat(st.beat + (st.beatEnd - st.beat) * Math.min(rampElapsed / (st.rampMinutes * 60), 1))
+            : clampBeat(st.beat);
+        const endBeat = rampSeconds > 0 ? clampBeat(st.beatEnd) : startBeat;
+        const isBinaural = st.mode === 'binaural';
+
+        // Binaural: L = carrier - beat/2, R = carrier + beat/2 / Isochronic: 両耳同じキャリア
+        const leftAt = (beat: number) => isBinaural ? carrier - beat / 2 : carrier;
+        const rightAt = (beat: number) => isBinaural ? carrier + beat / 2 : carrier;
+
+        const schedule = (param: AudioParam, from: number, to: number) => {
+            param.cancelScheduledValues(t);
+            param.setValueAtTime(from, t);
+            if (rampSeconds > 0) param.linearRampToValueAtTime(to, t + rampSeconds);
+        };
+        schedule(this.toneLeftNode.frequency, leftAt(startBeat), leftAt(endBeat));
+        schedule(this.toneRightNode.frequency, rightAt(startBeat), rightAt(endBeat));
+        schedule(this.tonePulseNode.frequency, startBeat, endBeat);
+        this.toneRampStart = t - rampElapsed;
+
+        // Isochronic: 0.5 ± 0.5 でパルス開閉 / Binaural: 常時1.0
+        this.toneEnvelopeGain.gain.value = isBinaural ? 1.0 : 0.5;
+        this.tonePulseDepth.gain.value = isBinaural ? 0 : 0.5;
+
+        const level = Math.max(0, Math.min(st.level, 1)) * TONE_MAX_GAIN;
+        if (immediate) {
+            this.toneGainNode.gain.value = level;
+        } else {
+            this.toneGainNode.gain.setTargetAtTime(level, t, 0.1);
+        }
+    }
+
+    // Stereo Width (0.0 = Mono, 1.0 = 完全に無相関)
+    setStereoWidth(width: number) {
+        if (!this.noiseNode) return;
+        const param = this.noiseNode.parameters.get('stereoWidth');
+        if (param) param.setTargetAtTime(Math.max(0, Math.min(width, 1)), this.ctx!.currentTime, 0.1);
+    }
+
     setRumbleFrequency(freq: number) {
         if (!this.noiseNode) return;
         const param = this.noiseNode.parameters.get('rumbleFreq');
@@ -784,7 +1973,7 @@ export class AudioEngine {
 
     private stopFluctuationLoop() {
         if (this.fluctuationAnimationId !== null) {
-            cancelAnimationFrame(this.fluctuationAnimationId);
+            this.clock.cancelFrame(this.fluctuationAnimationId);
             this.fluctuationAnimationId = null;
         }
     }
@@ -803,17 +1992,7 @@ export class AudioEngine {
         // Strength 0.0 -> 1.0 (定数)
         // Strength 1.0 -> +/- 0.15 くらいの変動
 
-        const t = Date.now() / 1000;
-        const wave1 = Math.sin(t * 0.1); // Slow 10s period
-        const wave2 = Math.sin(t * 0.23 + 1); // ~4s period
-        const wave3 = Math.sin(t * 0.7 + 2); // ~1.4s period
-
-        // 合成 (Composite)
-        const combined = (wave1 * 0.5 + wave2 * 0.3 + wave3 * 0.2);
-
-        // 適用範囲: 1.0 +/- (strength * 0.5)
-        // 0.2だと気づきにくいので0.5まで広げる
-        const targetGain = 1.0 + (combined * this.fluctuationStrength * 0.5);
+        const targetGain = fluctuationGainAt(this.clock.now(), this.fluctuationStrength);
 
         // 滑らかに移行
         this.fluctuationGainNode.gain.setTargetAtTime(targetGain, this.ctx.currentTime, 0.1);
@@ -823,7 +2002,7 @@ export class AudioEngine {
             console.log('Fluctuation gain:', targetGain);
         }
 
-        this.fluctuationAnimationId = requestAnimationFrame(this.fluctuationLoop);
+        this.fluctuationAnimationId = this.clock.requestFrame(this.fluctuationLoop);
     };
 
 
@@ -872,6 +2051,77 @@ export class AudioEngine {
         this.densityDryGain.gain.setTargetAtTime(dry, this.ctx.currentTime, 0.1);
         this.densityWetGain.gain.setTargetAtTime(wet, this.ctx.currentTime, 0.1);
     }
+
+    // ==========================================
+    // Room (Density IR)
+    // ==========================================
+
+    /**
+     * 部屋のパラメータからIRを作り直す
+     * type === 'user' の場合は loadUserImpulse() でIRを与える
+     */
+    setRoom(settings: RoomSettings) {
+        this.room = { ...settings };
+        if (settings.type === 'user' || !this.ctx || !this.convolver) return;
+        this.replaceImpulse(this.createRoomImpulse(this.ctx));
+    }
+
+    getRoom(): RoomSettings {
+        return { ...this.room };
+    }
+
+    /**
+     * ユーザーのIRファイルを読み込む (WAV/FLACなどdecodeAudioDataが扱える形式)
+     * サンプルレートはコンテキストに合わせて変換され、音量は従来IRと揃える
+     */
+    async loadUserImpulse(data: ArrayBuffer, settings: RoomSettings) {
+        const ctx = this.ctx;
+        if (!ctx || !this.convolver) throw new Error('AudioEngine is not initialized');
+
+        // decodeAudioDataは渡したArrayBufferを切り離すため複製を渡す
+        const decoded = await ctx.decodeAudioData(data.slice(0));
+
+        // Convolverは1/2/4chのみ対応: 先頭2chを最大10秒まで使う
+        const channels = Math.min(decoded.numberOfChannels, 2);
+        const length = Math.min(decoded.length, decoded.sampleRate * 10);
+        const impulse = ctx.createBuffer(channels, length, decoded.sampleRate);
+        for (let c = 0; c < channels; c++) {
+            impulse.copyToChannel(decoded.getChannelData(c).subarray(0, length), c);
+        }
+        normalizeImpulse(impulse);
+
+        this.room = { ...settings, type: 'user' };
+        this.replaceImpulse(impulse);
+    }
+
+    private createRoomImpulse(ctx: BaseAudioContext): AudioBuffer {
+        if (this.room.type === 'classic' || this.room.type === 'user') {
+            // userはIR読み込み前の仮 (loadUserImpulseで差し替え)
+            return generateImpulseResponse(ctx, 2.5, 2.0);
+        }
+        return generateRoomImpulse(ctx, this.room);
+    }
+
+    // 再生中でもIRを差し替えられるよう、Convolverごと入れ替える
+    private replaceImpulse(impulse: AudioBuffer) {
+        const ctx = this.ctx;
+        const oldConvolver = this.convolver;
+        if (!ctx || !oldConvolver || !this.densityWetGain || this.notchFilters.length === 0) return;
+
+        const notchOutput = this.notchFilters[this.notchFilters.length - 1];
+        const convolver = ctx.createConvolver();
+        convolver.normalize = false;
+        convolver.buffer = impulse;
+
+        notchOutput.connect(convolver);
+        convolver.connect(this.densityWetGain);
+        notchOutput.disconnect(oldConvolver);
+        oldConvolver.disconnect();
+
+        this.convolver = convolver;
+        console.log(`Density IR replaced: ${this.room.type}, ${impulse.duration.toFixed(2)}s`);
+    }
+
     // ==========================================
 
     private layers: Map<string, SoundLayer> = new Map();
@@ -916,21 +2166,7 @@ export class AudioEngine {
             // Apply Seamless Loop Processing (Crossfade End to Start)
             const seamlessBuffer = this.createSeamlessBuffer(rawBuffer, 3.0); // 3-second overlap
 
-            const gainNode = this.ctx.createGain();
-            gainNode.gain.value = 0; // 初期状態はミュート
-
-            // マスター（EQの手前）に接続
-            if (this.soundscapeMasterGain) {
-                gainNode.connect(this.soundscapeMasterGain);
-            }
-
-            this.layers.set(id, {
-                buffer: seamlessBuffer,
-                gainNode: gainNode,
-                sourceNode: null,
-                isPlaying: false,
-                volume: 0
-            });
+            this.registerLayer(id, seamlessBuffer);
 
             console.log(`Loaded sound: ${id} (Seamless processed)`);
         } catch (e) {
@@ -938,6 +2174,27 @@ export class AudioEngine {
         }
     }
 
+    // ループ処理済みバッファをレイヤーとして登録
+    private registerLayer(id: string, buffer: AudioBuffer) {
+        if (!this.ctx) return;
+
+        const gainNode = this.ctx.createGain();
+        gainNode.gain.value = 0; // 初期状態はミュート
+
+        // マスター（EQの手前）に接続
+        if (this.soundscapeMasterGain) {
+            gainNode.connect(this.soundscapeMasterGain);
+        }
+
+        this.layers.set(id, {
+            buffer: buffer,
+            gainNode: gainNode,
+            sourceNode: null,
+            isPlaying: false,
+            volume: 0
+        });
+    }
+
     /**
      * Create a seamless loop buffer by crossfading end into start
      * @param buffer Original AudioBuffer
@@ -1012,7 +2269,7 @@ export class AudioEngine {
             // ボリューム0の場合、少し待ってから停止（フェードアウト時間を確保）
             // 即座に止めるとプチッというノイズが入るため
             if (layer.isPlaying) {
-                setTimeout(() => {
+                this.clock.setTimeout(() => {
                     // 最新のボリュームがまだ0なら停止（連打防止）
                     if (layer.volume === 0) {
                         this.stopSound(id);
@@ -1055,6 +2312,134 @@ export class AudioEngine {
         layer.isPlaying = false;
         console.log(`Stopped sound: ${id}`);
     }
+
+    // ==========================================
+    // Offline Render (Export)
+    // ==========================================
+
+    /**
+     * 現在のミックスをOfflineAudioContextでレンダリングする
+     * ライブと同じグラフを組み、IRとループ処理済みバッファはそのまま共有する
+     * (Auto Maskingはマイク入力依存のため対象外)
+     * @param duration 秒
+     * @param onProgress 進捗 (0.0 - 1.0)
+     */
+    async renderOffline(duration: number, onProgress?: (progress: number) => void): Promise<AudioBuffer> {
+        if (!this.isInitialized || !this.ctx) {
+            throw new Error('AudioEngine is not initialized');
+        }
+
+        const snapshot = this.captureRenderSnapshot();
+        // ConvolverのIRとサンプルレートを一致させる必要があるため、ライブと同じレートで描画
+        const sampleRate = this.ctx.sampleRate;
+        const offlineCtx = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+
+        // ゆらぎループはrAF相当の60fpsで回す。不要なら進捗通知用に間引く
+        const frameRate = snapshot.fluctuationEnabled ? 60 : 10;
+        const clock = new OfflineClock(offlineCtx, frameRate, this.clock.now());
+
+        const offline = new AudioEngine({ context: offlineCtx, clock });
+        offline.eqBandCount = snapshot.eqBandCount;
+        offline.eqGains = [...snapshot.eq];
+        offline.notch = { ...snapshot.notch };
+        offline.toneSettings = { ...snapshot.tone };
+        offline.outputCeilingDb = snapshot.outputCeilingDb;
+        await offline.buildGraph(offlineCtx, snapshot.impulse ?? undefined);
+        await offline.initSoundscapes();
+        offline.applyRenderSnapshot(snapshot);
+        // ビートのランプはライブの経過位置から続ける
+        offline.applyToneLayer(true, snapshot.toneRampElapsed);
+
+        // 進捗通知 (1%刻み)
+        if (onProgress) {
+            let lastReported = 0;
+            clock.onTick = (time) => {
+                const progress = time / duration;
+                if (progress - lastReported >= 0.01) {
+                    lastReported = progress;
+                    onProgress(progress);
+                }
+            };
+        }
+        clock.schedule(duration);
+
+        const rendered = await offlineCtx.startRendering();
+        onProgress?.(1);
+        return rendered;
+    }
+
+    // ライブのパラメータ値を取得
+    private captureRenderSnapshot(): RenderSnapshot {
+        const noiseParams: Record<string, number> = {};
+        this.noiseNode?.parameters.forEach((param, name) => {
+            noiseParams[name] = param.value;
+        });
+
+        const layers: { id: string; buffer: AudioBuffer; volume: number }[] = [];
+        this.layers.forEach((layer, id) => {
+            if (layer.volume > 0) {
+                layers.push({ id, buffer: layer.buffer, volume: layer.volume });
+            }
+        });
+
+        return {
+            noiseParams,
+            noiseVolume: this.noiseMasterGainNode?.gain.value ?? 1.0,
+            soundscapeVolume: this.soundscapeMasterGain?.gain.value ?? 1.0,
+            baseVolume: this.baseVolume,
+            subBassVolume: this.subBassGainNode?.gain.value ?? 0,
+            subBassFrequency: this.subBassNode?.frequency.value ?? 55,
+            eqBandCount: this.eqBandCount,
+            eq: this.getEQValues(),
+            notch: this.getTinnitusNotch(),
+            tone: this.getToneLayer(),
+            outputCeilingDb: this.outputCeilingDb,
+            toneRampElapsed: this.ctx ? this.ctx.currentTime - this.toneRampStart : 0,
+            densityDry: this.densityDryGain?.gain.value ?? 1.0,
+            densityWet: this.densityWetGain?.gain.value ?? 0.0,
+            impulse: this.convolver?.buffer ?? null,
+            fluctuationEnabled: this.isFluctuationEnabled,
+            fluctuationStrength: this.fluctuationStrength,
+            layers
+        };
+    }
+
+    // オフライン側: ランプせずに初期値として直接設定
+    private applyRenderSnapshot(snapshot: RenderSnapshot) {
+        if (!this.ctx) return;
+
+        const params = this.noiseNode?.parameters;
+        Object.entries(snapshot.noiseParams).forEach(([name, value]) => {
+            const param = params?.get(name);
+            if (param) param.value = value;
+        });
+
+        if (this.noiseMasterGainNode) this.noiseMasterGainNode.gain.value = snapshot.noiseVolume;
+        if (this.soundscapeMasterGain) this.soundscapeMasterGain.gain.value = snapshot.soundscapeVolume;
+        if (this.subBassGainNode) this.subBassGainNode.gain.value = snapshot.subBassVolume;
+        if (this.subBassNode) this.subBassNode.frequency.value = snapshot.subBassFrequency;
+
+        this.baseVolume = snapshot.baseVolume;
+        if (this.baseGainNode) this.baseGainNode.gain.value = snapshot.baseVolume;
+
+        if (this.densityDryGain) this.densityDryGain.gain.value = snapshot.densityDry;
+        if (this.densityWetGain) this.densityWetGain.gain.value = snapshot.densityWet;
+
+        snapshot.layers.forEach(({ id, buffer, volume }) => {
+            this.registerLayer(id, buffer);
+            const layer = this.layers.get(id);
+            if (!layer) return;
+            layer.volume = volume;
+            layer.gainNode.gain.value = volume;
+            this.startSound(id);
+        });
+
+        // 1/fゆらぎ: オフラインクロック上でライブと同じループを回す
+        this.setFluctuationStrength(snapshot.fluctuationStrength);
+        if (snapshot.fluctuationEnabled) {
+            this.setFluctuation(true);
+        }
+    }
 }
 
 interface SoundLayer {
@@ -1065,7 +2450,29 @@ interface SoundLayer {
     volume: number;
 }
 
-export function generateImpulseResponse(ctx: AudioContext, duration: number, decay: number): AudioBuffer {
+// オフラインレンダリング用のパラメータ一式
+interface RenderSnapshot {
+    noiseParams: Record<string, number>; // noise-processorのAudioParam
+    noiseVolume: number;
+    soundscapeVolume: number;
+    baseVolume: number;
+    subBassVolume: number;
+    subBassFrequency: number;
+    eqBandCount: EqBandCount; // EQフィルターはbuildGraph時にこの構成で作成
+    eq: number[];
+    notch: TinnitusNotchSettings;
+    tone: ToneLayerSettings;
+    toneRampElapsed: number; // 秒
+    outputCeilingDb: number;
+    densityDry: number;
+    densityWet: number;
+    impulse: AudioBuffer | null;
+    fluctuationEnabled: boolean;
+    fluctuationStrength: number;
+    layers: { id: string; buffer: AudioBuffer; volume: number }[];
+}
+
+export function generateImpulseResponse(ctx: BaseAudioContext, duration: number, decay: number): AudioBuffer {
     const sampleRate = ctx.sampleRate;
     const length = sampleRate * duration;
     const impulse = ctx.createBuffer(2, length, sampleRate);
@@ -1098,6 +2505,36 @@ export function generateImpulseResponse(ctx: AudioContext, duration: number, dec
     return impulse;
 }
 
+// 既定のマイクの識別
+// Chromeは'default'の項目のgroupIdが、それ以外のブラウザは一覧の先頭の項目が切り替わる
+function defaultInputKey(inputs: MediaDeviceInfo[]): string | null {
+    const device = inputs.find(d => d.deviceId === 'default') ?? inputs[0];
+    return device ? `${device.deviceId}:${device.groupId}` : null;
+}
+
+// 1/fゆらぎのターゲットゲイン (t: 秒)
+function fluctuationGainAt(t: number, strength: number): number {
+    const wave1 = Math.sin(t * 0.1); // Slow 10s period
+    const wave2 = Math.sin(t * 0.23 + 1); // ~4s period
+    const wave3 = Math.sin(t * 0.7 + 2); // ~1.4s period
 
+    // 合成 (Composite)
+    const combined = (wave1 * 0.5 + wave2 * 0.3 + wave3 * 0.2);
 
+    // 適用範囲: 1.0 +/- (strength * 0.5)
+    // 0.2だと気づきにくいので0.5まで広げる
+    return 1.0 + (combined * strength * 0.5);
+}
 
+// アイソクロニック用のパルス波形 (-1 - 1)
+// 矩形波の奇数倍音をσ近似で丸め、クリックを出さずに明確な開閉を作る
+function createSoftSquareWave(ctx: BaseAudioContext): PeriodicWave {
+    const harmonics = 15;
+    const real = new Float32Array(harmonics + 1);
+    const imag = new Float32Array(harmonics + 1);
+    for (let n = 1; n <= harmonics; n += 2) {
+        const sigma = Math.sin(Math.PI * n / (harmonics + 1)) / (Math.PI * n / (harmonics + 1));
+        imag[n] = (4 / (Math.PI * n)) * sigma;
+    }
+    return ctx.createPeriodicWave(real, imag, { disableNormalization: true });
+}
@@ -0,0 +1,363 @@
+// AudioFileEncoder.ts
+// レンダリング済みAudioBufferをWAV/FLACファイルに変換する
+
+export type ExportFormat = 'wav' | 'flac';
+
+// float (-1.0 - 1.0) -> 16bit整数
+function toInt16(sample: number): number {
+    const s = Math.max(-1, Math.min(1, sample));
+    return s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7FFF);
+}
+
+/**
+ * 16bit PCM WAV
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+    const channels = buffer.numberOfChannels;
+    const length = buffer.length;
+    const bytesPerSample = 2;
+    const dataSize = length * channels * bytesPerSample;
+
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    const writeString = (offset: number, str: string) => {
+        for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+    };
+
+    // RIFF Header
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+
+    // fmt chunk
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true);
+    view.setUint16(32, channels * bytesPerSample, true);
+    view.setUint16(34, 16, true);
+
+    // data chunk (インターリーブ)
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channelData: Float32Array[] = [];
+    for (let c = 0; c < channels; c++) channelData.push(buffer.getChannelData(c));
+
+    let offset = 44;
+    for (let i = 0; i < length; i++) {
+        for (let c = 0; c < channels; c++) {
+            view.setInt16(offset, toInt16(channelData[c][i]), true);
+            offset += bytesPerSample;
+        }
+    }
+
+    return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+// ==========================================
+// FLAC (16bit, FIXED predictor + Rice coding)
+// ==========================================
+
+const FLAC_BLOCK_SIZE = 4096;
+// メインスレッドで続けてエンコードする最大時間 (これを超えたら描画・音声処理に譲る)
+const FLAC_SLICE_MS = 30;
+
+// フレームヘッダのサンプルレート符号 (未定義のレートは0000 = STREAMINFO参照)
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+    88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100,
+    16000: 0b0101, 22050: 0b0110, 24000: 0b0111, 32000: 0b1000,
+    44100: 0b1001, 48000: 0b1010, 96000: 0b1011
+};
+
+const CRC8_TABLE = (() => {
+    const table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i;
+        for (let j = 0; j < 8; j++) {
+            crc = (crc & 0x80) ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+        }
+        table[i] = crc;
+    }
+    return table;
+})();
+
+const CRC16_TABLE = (() => {
+    const table = new Uint16Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 8;
+        for (let j = 0; j < 8; j++) {
+            crc = (crc & 0x8000) ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+        }
+        table[i] = crc;
+    }
+    return table;
+})();
+
+function crc8(data: Uint8Array, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ data[i]];
+    return crc;
+}
+
+function crc16(data: Uint8Array, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+        crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[((crc >> 8) ^ data[i]) & 0xFF];
+    }
+    return crc;
+}
+
+class BitWriter {
+    private bytes = new Uint8Array(1 << 16);
+    private bytePos = 0;
+    private bitBuffer = 0; // 未確定ビット (8bit未満)
+    private bitCount = 0;
+
+    get length(): number {
+        return this.bytePos;
+    }
+
+    get data(): Uint8Array {
+        return this.bytes;
+    }
+
+    private ensure(extra: number) {
+        if (this.bytePos + extra <= this.bytes.length) return;
+        let size = this.bytes.length * 2;
+        while (size < this.bytePos + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.bytes.subarray(0, this.bytePos));
+        this.bytes = next;
+    }
+
+    // 符号なし (36bitまで)
+    writeBits(value: number, bits: number) {
+        // ビット演算は32bitまでのため、24bitを超える値は上位と下位に分けて書く
+        if (bits > 24) {
+            const high = Math.floor(value / 0x1000000);
+            this.writeBits(high, bits - 24);
+            this.writeBits(value - high * 0x1000000, 24);
+            return;
+        }
+        this.ensure(4);
+        this.bitBuffer = (this.bitBuffer << bits) | (value & ((1 << bits) - 1));
+        this.bitCount += bits;
+        while (this.bitCount >= 8) {
+            this.bitCount -= 8;
+            this.bytes[this.bytePos++] = (this.bitBuffer >>> this.bitCount) & 0xFF;
+        }
+        this.bitBuffer &= (1 << this.bitCount) - 1;
+    }
+
+    writeSigned(value: number, bits: number) {
+        this.writeBits(value < 0 ? value + Math.pow(2, bits) : value, bits);
+    }
+
+    // zeros個の0と終端の1。バイト境界をまたぐ0はバイト単位でまとめて書く
+    writeUnary(zeros: number) {
+        this.ensure((zeros >> 3) + 8);
+        let remaining = zeros;
+        const fill = Math.min(remaining, (8 - this.bitCount) & 7);
+        if (fill > 0) {
+            this.writeBits(0, fill);
+            remaining -= fill;
+        }
+        if (this.bitCount === 0 && remaining >= 8) {
+            const zeroBytes = remaining >> 3;
+            this.bytes.fill(0, this.bytePos, this.bytePos + zeroBytes);
+            this.bytePos += zeroBytes;
+            remaining &= 7;
+        }
+        this.writeBits(1, remaining + 1);
+    }
+
+    writeByte(value: number) {
+        this.writeBits(value & 0xFF, 8);
+    }
+
+    // バイト境界までゼロ埋め
+    align() {
+        if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount);
+    }
+
+    toBlobPart(): Uint8Array {
+        return this.bytes.slice(0, this.bytePos);
+    }
+}
+
+// フレーム番号 (UTF-8風の可変長符号)
+function writeUtf8Number(writer: BitWriter, value: number) {
+    if (value < 0x80) {
+        writer.writeByte(value);
+        return;
+    }
+    let byteCount = 2;
+    while (value >= Math.pow(2, 5 * byteCount + 1)) byteCount++;
+    const firstBits = 7 - byteCount;
+    const shift = 6 * (byteCount - 1);
+    const prefix = (0xFF << (8 - byteCount)) & 0xFF;
+    writer.writeByte(prefix | Math.floor(value / Math.pow(2, shift)) & ((1 << firstBits) - 1));
+    for (let i = byteCount - 2; i >= 0; i--) {
+        writer.writeByte(0x80 | (Math.floor(value / Math.pow(2, 6 * i)) & 0x3F));
+    }
+}
+
+// FIXED予測 (order 0-4) の残差
+function fixedResidual(samples: Int32Array, order: number, out: Int32Array) {
+    for (let i = order; i < samples.length; i++) {
+        let r: number;
+        switch (order) {
+            case 0: r = samples[i]; break;
+            case 1: r = samples[i] - samples[i - 1]; break;
+            case 2: r = samples[i] - 2 * samples[i - 1] + samples[i - 2]; break;
+            case 3: r = samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3]; break;
+            default: r = samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4]; break;
+        }
+        out[i - order] = r;
+    }
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, residual: Int32Array) {
+    const n = samples.length;
+
+    // 全サンプルが同値 (無音など) ならCONSTANT
+    let allEqual = true;
+    for (let i = 1; i < n; i++) {
+        if (samples[i] !== samples[0]) { allEqual = false; break; }
+    }
+    if (allEqual) {
+        writer.writeBits(0, 1);
+        writer.writeBits(0b000000, 6);
+        writer.writeBits(0, 1);
+        writer.writeSigned(samples[0], 16);
+        return;
+    }
+
+    const maxOrder = Math.min(4, n - 1);
+
+    // 残差の絶対値和が最小になる次数を選択
+    let bestOrder = 0;
+    let bestSum = Infinity;
+    for (let order = 0; order <= maxOrder; order++) {
+        fixedResidual(samples, order, residual);
+        let sum = 0;
+        for (let i = 0; i < n - order; i++) sum += Math.abs(residual[i]);
+        if (sum < bestSum) {
+            bestSum = sum;
+            bestOrder = order;
+        }
+    }
+    fixedResidual(samples, bestOrder, residual);
+    const residualCount = n - bestOrder;
+
+    // Riceパラメータ: 平均値から推定
+    const mean = residualCount > 0 ? (bestSum * 2) / residualCount : 0;
+    let k = 0;
+    while (k < 14 && Math.pow(2, k + 1) <= mean) k++;
+
+    // Subframe Header: FIXED
+    writer.writeBits(0, 1);
+    writer.writeBits(0b001000 | bestOrder, 6);
+    writer.writeBits(0, 1);
+
+    // Warm-up samples
+    for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[i], 16);
+
+    // Residual: Rice (4bit param), partition order 0
+    writer.writeBits(0b00, 2);
+    writer.writeBits(0, 4);
+    writer.writeBits(k, 4);
+    for (let i = 0; i < residualCount; i++) {
+        const r = residual[i];
+        const u = r >= 0 ? r * 2 : -r * 2 - 1;
+        writer.writeUnary(Math.floor(u / Math.pow(2, k)));
+        if (k > 0) writer.writeBits(u & ((1 << k) - 1), k);
+    }
+}
+
+/**
+ * 16bit FLAC (FIXED予測 + Riceエンコード)
+ * MD5署名は省略 (0 = 未計算として仕様上許容)
+ * 長いファイルでも画面や再生が止まらないよう、フレームの合間に処理を譲る
+ * @param onProgress 0.0 - 1.0
+ */
+export async function encodeFlac(buffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<Blob> {
+    const channels = buffer.numberOfChannels;
+    const length = buffer.length;
+    const sampleRate = buffer.sampleRate;
+
+    const channelData: Float32Array[] = [];
+    for (let c = 0; c < channels; c++) channelData.push(buffer.getChannelData(c));
+
+    const parts: Uint8Array[] = [];
+
+    // "fLaC" + STREAMINFO
+    const header = new BitWriter();
+    [0x66, 0x4C, 0x61, 0x43].forEach(b => header.writeByte(b));
+    header.writeBits(1, 1);   // last metadata block
+    header.writeBits(0, 7);   // STREAMINFO
+    header.writeBits(34, 24);
+    header.writeBits(Math.min(FLAC_BLOCK_SIZE, length), 16);
+    header.writeBits(FLAC_BLOCK_SIZE, 16);
+    header.writeBits(0, 24);  // min frame size (unknown)
+    header.writeBits(0, 24);  // max frame size (unknown)
+    header.writeBits(sampleRate, 20);
+    header.writeBits(channels - 1, 3);
+    header.writeBits(16 - 1, 5);
+    header.writeBits(length, 36);
+    for (let i = 0; i < 16; i++) header.writeByte(0); // MD5
+    parts.push(header.toBlobPart());
+
+    const samples = new Int32Array(FLAC_BLOCK_SIZE);
+    const residual = new Int32Array(FLAC_BLOCK_SIZE);
+
+    let frameNumber = 0;
+    let sliceStart = performance.now();
+    for (let start = 0; start < length; start += FLAC_BLOCK_SIZE) {
+        if (performance.now() - sliceStart > FLAC_SLICE_MS) {
+            onProgress?.(start / length);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            sliceStart = performance.now();
+        }
+        const blockSize = Math.min(FLAC_BLOCK_SIZE, length - start);
+        const frame = new BitWriter();
+
+        // Frame Header
+        frame.writeBits(0b11111111111110, 14); // sync
+        frame.writeBits(0, 1);                 // reserved
+        frame.writeBits(0, 1);                 // fixed blocksize
+        frame.writeBits(blockSize === FLAC_BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+        frame.writeBits(FLAC_SAMPLE_RATE_CODES[sampleRate] ?? 0b0000, 4);
+        frame.writeBits(channels - 1, 4);      // independent channels
+        frame.writeBits(0b100, 3);             // 16 bits per sample
+        frame.writeBits(0, 1);
+        writeUtf8Number(frame, frameNumber);
+        if (blockSize !== FLAC_BLOCK_SIZE) frame.writeBits(blockSize - 1, 16);
+        frame.writeByte(crc8(frame.data, 0, frame.length));
+
+        // Subframes
+        const block = samples.subarray(0, blockSize);
+        for (let c = 0; c < channels; c++) {
+            const data = channelData[c];
+            for (let i = 0; i < blockSize; i++) block[i] = toInt16(data[start + i]);
+            writeSubframe(frame, block, residual);
+        }
+
+        // Footer
+        frame.align();
+        const crc = crc16(frame.data, 0, frame.length);
+        frame.writeBits(crc, 16);
+
+        parts.push(frame.toBlobPart());
+        frameNumber++;
+    }
+
+    onProgress?.(1);
+    return new Blob(parts as BlobPart[], { type: 'audio/flac' });
+}
+
+export async function encodeAudioBuffer(buffer: AudioBuffer, format: ExportFormat, onProgress?: (progress: number) => void): Promise<Blob> {
+    return format === 'flac' ? encodeFlac(buffer, onProgress) : encodeWav(buffer);
+}
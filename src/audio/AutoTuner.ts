@@ -1,3 +1,4 @@
+import { AUTOTUNER_EQ_FREQS } from './EqBands';
 
 export class AutoTuner {
     /**
@@ -6,6 +7,7 @@ export class AutoTuner {
      * @param pitch 0-100 (Low-High)
      * @param sharpness 0-100 (Soft-Sharp)
      * @param resonance 0-100 (Dry-Boomy)
+     * @returns eqはAUTOTUNER_EQ_FREQS (32Hz - 16kHz) の並び。適用側でEQのバンド構成へ変換する
      */
     public static calculateSettings(targetType: string, pitch: number, sharpness: number, resonance: number) {
         // Default base settings
@@ -88,6 +90,6 @@ export class AutoTuner {
                 break;
         }
 
-        return { mix: { ...mix, r: rumble.vol, rf: rumble.freq, rs: rumble.speed, s: sub.vol }, eq };
+        return { mix: { ...mix, r: rumble.vol, rf: rumble.freq, rs: rumble.speed, s: sub.vol }, eq, eqFreqs: AUTOTUNER_EQ_FREQS };
     }
 }
@@ -0,0 +1,152 @@
+// DetectorReplay.test.ts
+// 合成した足音のWAVを検知プロセッサーに流し、検知数と誤検知数が変わらないことを確かめる回帰テスト
+// 埋め込みコード (ImpactDetector.ts) と型付きコード (impact-detector-processor.ts) が同じ結果になることも確かめる
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { decodeWav, evaluateReplay, parseLabelTrack, replayDetector, type ProcessorEvent, type ReplayPort, type ReplayProcessor, type ReplayProcessorFactory } from './DetectorReplay';
+
+const SAMPLE_RATE = 44100;
+const DURATION = 8;
+// 足音 (正解ラベル)
+const IMPACT_TIMES = [2.0, 3.5, 5.0, 6.5];
+
+// 再現性のため乱数は固定のシードで作る
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) >>> 0;
+        return state / 0x100000000;
+    };
+}
+
+// 静かな部屋の暗騒音 + 低域の減衰する衝撃音
+function synthesizeFootsteps(): Float32Array {
+    const samples = new Float32Array(SAMPLE_RATE * DURATION);
+    const random = createRandom(1);
+    let brown = 0;
+    for (let i = 0; i < samples.length; i++) {
+        brown = (brown + (random() * 2 - 1) * 0.02) * 0.998;
+        samples[i] = brown * 0.001;
+    }
+    IMPACT_TIMES.forEach(time => {
+        const start = Math.round(time * SAMPLE_RATE);
+        const length = Math.round(0.3 * SAMPLE_RATE);
+        for (let i = 0; i < length && start + i < samples.length; i++) {
+            const t = i / SAMPLE_RATE;
+            samples[start + i] += 0.3 * Math.exp(-t / 0.05) * Math.sin(2 * Math.PI * 70 * t);
+        }
+    });
+    return samples;
+}
+
+// 16bit PCMモノラルのWAV
+function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 1, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    samples.forEach((sample, i) => {
+        view.setInt16(44 + i * 2, Math.round(Math.max(-1, Math.min(sample, 1)) * 0x7FFF), true);
+    });
+    return buffer;
+}
+
+// Audacityのラベル形式
+const LABELS = IMPACT_TIMES.map(time => `${time.toFixed(6)}\t${time.toFixed(6)}\tfootstep`).join('\n');
+
+// テストで差し替えるAudioWorkletのグローバル
+interface WorkletGlobals {
+    AudioWorkletProcessor: unknown;
+    registerProcessor: (name: string, ctor: new () => ReplayProcessor) => void;
+    sampleRate: number;
+}
+
+/**
+ * impact-detector-processor.ts をAudioWorkletの外で読み込む
+ * AudioWorkletProcessor・registerProcessor・sampleRateをグローバルに用意してからimportする
+ */
+async function loadTypedProcessor(): Promise<ReplayProcessorFactory> {
+    let onEvent: ((event: ProcessorEvent) => void) | null = null;
+    class StubWorkletProcessor {
+        port: ReplayPort;
+        constructor() {
+            const handler = onEvent;
+            this.port = {
+                onmessage: null,
+                postMessage: (data: unknown) => handler?.(data as ProcessorEvent)
+            };
+        }
+    }
+
+    let processorClass: (new () => ReplayProcessor) | null = null;
+    // vite-env.d.tsのAudioWorklet宣言とは型が合わないため、差し替える項目だけの型で扱う
+    const global = globalThis as unknown as WorkletGlobals;
+    global.AudioWorkletProcessor = StubWorkletProcessor;
+    global.registerProcessor = (_name: string, ctor: new () => ReplayProcessor) => {
+        processorClass = ctor;
+    };
+    await import('./impact-detector-processor');
+    if (!processorClass) throw new Error('Detector processor was not registered');
+    const ctor: new () => ReplayProcessor = processorClass;
+
+    return (sampleRate, handler) => {
+        global.sampleRate = sampleRate;
+        onEvent = handler;
+        return new ctor();
+    };
+}
+
+describe('replayDetector', () => {
+    const wav = decodeWav(encodeWav(synthesizeFootsteps(), SAMPLE_RATE));
+    const options = { sensitivity: 0.5, modeId: 'footsteps_all' };
+    let createTypedProcessor: ReplayProcessorFactory;
+
+    beforeAll(async () => {
+        createTypedProcessor = await loadTypedProcessor();
+    });
+
+    it('decodes the synthesized WAV', () => {
+        expect(wav.sampleRate).toBe(SAMPLE_RATE);
+        expect(wav.channels).toHaveLength(1);
+        expect(wav.channels[0].length).toBe(SAMPLE_RATE * DURATION);
+    });
+
+    it('detects every labelled footstep without false positives', () => {
+        const result = replayDetector(wav.channels, wav.sampleRate, options);
+        const report = evaluateReplay(result.impacts, parseLabelTrack(LABELS));
+
+        expect(report.truePositives).toBe(IMPACT_TIMES.length);
+        expect(report.falseNegatives).toBe(0);
+        expect(report.falsePositives).toBe(0);
+    });
+
+    it('does not report impacts for background noise only', () => {
+        const quiet = wav.channels[0].slice(0, Math.round(1.9 * SAMPLE_RATE));
+        const result = replayDetector(quiet, wav.sampleRate, options);
+
+        expect(result.impacts).toHaveLength(0);
+        expect(result.scores.length).toBeGreaterThan(0);
+    });
+
+    it('gives the same results as impact-detector-processor.ts', () => {
+        const embedded = replayDetector(wav.channels, wav.sampleRate, options);
+        const typed = replayDetector(wav.channels, wav.sampleRate, { ...options, createProcessor: createTypedProcessor });
+
+        expect(typed.impacts).toEqual(embedded.impacts);
+        expect(typed.scores).toEqual(embedded.scores);
+    });
+});
@@ -0,0 +1,304 @@
+// DetectorReplay.ts
+// 録音したWAVを検知プロセッサーに1レンダー量子ずつ流し、騒音スコアと衝撃の時系列を得る
+// マイク・AudioContext・requestAnimationFrameを使わないため、同じ入力からは常に同じ結果になる
+// (感度・BASELINE_SMOOTHING・MAX_IMPACT_COOLDOWNの調整や、検知の回帰確認に使う)
+//
+// 例:
+//   const wav = decodeWav(await file.arrayBuffer());
+//   const result = replayDetector(wav.channels, wav.sampleRate, { sensitivity: 0.6, modeId: 'footsteps_all' });
+//   const report = evaluateReplay(result.impacts, parseLabelTrack(labelsText));
+
+import { detectorProcessorCode, getAllDetectionBands, getAllSimpleModes, type CustomDetection } from './ImpactDetector';
+import { DEFAULT_PREAMP_GAIN } from './MicCalibration';
+
+const RENDER_QUANTUM = 128;
+
+// 衝撃が正解ラベルからこの秒数以内なら一致とみなす (解析間隔・スコア平滑化の遅れを含む)
+export const DEFAULT_MATCH_TOLERANCE = 0.3;
+
+export interface ReplayOptions {
+    sensitivity?: number;          // 既定 0.5
+    modeId?: string;               // シンプルモード (既定 'all')
+    bandIds?: string[];            // 詳細モード (指定時はmodeIdより優先)
+    custom?: CustomDetection;      // ユーザー定義のバンド・モード
+    preampGain?: number;           // マイク入力のプリアンプ (既定は未校正時と同じ5倍)
+    reference?: Float32Array;      // 出力参照 (マイクと同じ長さ・サンプルレート)
+    noiseGain?: number;            // 出力参照なしのベースライン底上げ
+    baselines?: Record<string, number>; // マイク校正のベースライン
+    baselineSmoothing?: number;
+    impactCooldown?: number;       // 解析フレーム数
+    // 検知プロセッサーの差し替え (既定は埋め込みコード。型付きのimpact-detector-processor.tsとの比較用)
+    createProcessor?: ReplayProcessorFactory;
+}
+
+export interface ReplayScore {
+    time: number; // 秒
+    score: number;
+}
+
+export interface ReplayImpact {
+    time: number; // 秒
+    intensity: number;
+    bandId?: string;
+}
+
+export interface ReplayResult {
+    duration: number; // 秒
+    scores: ReplayScore[];
+    impacts: ReplayImpact[];
+}
+
+// 正解ラベル (bandIdを指定すると、そのバンドでの検知だけを一致とみなす)
+export interface GroundTruthEvent {
+    time: number; // 秒
+    bandId?: string;
+    label?: string;
+}
+
+export interface ReplayEvaluation {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    precision: number;
+    recall: number;
+    matches: { expected: GroundTruthEvent; detected: ReplayImpact }[];
+    missed: GroundTruthEvent[];
+    spurious: ReplayImpact[];
+}
+
+export type ProcessorEvent =
+    | { type: 'score'; score: number }
+    | { type: 'impact'; intensity: number; bandId?: string }
+    | { type: 'snapshot' };
+
+export interface ReplayPort {
+    onmessage: ((e: { data: unknown }) => void) | null;
+    postMessage: (data: unknown) => void;
+}
+
+export interface ReplayProcessor {
+    port: ReplayPort;
+    process(inputs: Float32Array[][]): boolean;
+}
+
+export type ReplayProcessorFactory = (sampleRate: number, onEvent: (event: ProcessorEvent) => void) => ReplayProcessor;
+
+/**
+ * 埋め込みの検知プロセッサーコードをAudioWorkletの外で動かす
+ * AudioWorkletProcessor・registerProcessor・sampleRateを差し替えて評価する
+ */
+function createProcessor(sampleRate: number, onEvent: (event: ProcessorEvent) => void): ReplayProcessor {
+    class ReplayWorkletProcessor {
+        port: ReplayPort = {
+            onmessage: null,
+            postMessage: (data: unknown) => onEvent(data as ProcessorEvent)
+        };
+    }
+
+    let processorClass: (new () => ReplayProcessor) | null = null;
+    const register = (_name: string, ctor: new () => ReplayProcessor) => {
+        processorClass = ctor;
+    };
+    // globalThisを引数で差し替え、プロセッサーが参照するsampleRateを与える
+    new Function('AudioWorkletProcessor', 'registerProcessor', 'globalThis', detectorProcessorCode)(
+        ReplayWorkletProcessor, register, { sampleRate }
+    );
+    if (!processorClass) throw new Error('Detector processor was not registered');
+    return new (processorClass as new () => ReplayProcessor)();
+}
+
+/**
+ * 音声を検知プロセッサーに流して騒音スコア・衝撃の時系列を返す
+ * @param input モノラルのサンプル列、またはチャンネルごとのサンプル列
+ */
+export function replayDetector(input: Float32Array | Float32Array[], sampleRate: number, options: ReplayOptions = {}): ReplayResult {
+    const channels = Array.isArray(input) ? input : [input];
+    const length = channels[0]?.length ?? 0;
+    const custom = options.custom ?? { bands: [], modes: [] };
+    const preampGain = options.preampGain ?? DEFAULT_PREAMP_GAIN;
+
+    const result: ReplayResult = { duration: length / sampleRate, scores: [], impacts: [] };
+    let time = 0;
+    const processor = (options.createProcessor ?? createProcessor)(sampleRate, (event) => {
+        if (event.type === 'score') {
+            result.scores.push({ time, score: event.score });
+        } else if (event.type === 'impact') {
+            result.impacts.push({ time, intensity: event.intensity, bandId: event.bandId });
+        }
+    });
+    const send = (data: unknown) => processor.port.onmessage?.({ data });
+
+    // ImpactDetectorと同じ順序で設定を送る
+    const bandIds = options.bandIds ?? getAllSimpleModes(custom).find(m => m.id === (options.modeId ?? 'all'))?.bandIds ?? [];
+    const bands = getAllDetectionBands(custom)
+        .filter(b => bandIds.includes(b.id))
+        .map(({ id, minFreq, maxFreq }) => ({ id, minFreq, maxFreq }));
+    send({ type: 'params', sensitivity: options.sensitivity ?? 0.5, reactiveEnabled: true });
+    send({ type: 'config', bands, reset: true });
+    send({ type: 'tuning', baselineSmoothing: options.baselineSmoothing, impactCooldown: options.impactCooldown });
+    if (options.baselines) send({ type: 'baselines', values: options.baselines });
+    if (options.noiseGain !== undefined) send({ type: 'noiseGain', value: options.noiseGain });
+    send({ type: 'start' });
+
+    // レンダー量子ごとにプリアンプを掛けて渡す
+    const micChunks = channels.map(() => new Float32Array(RENDER_QUANTUM));
+    const referenceChunk = new Float32Array(RENDER_QUANTUM);
+    for (let offset = 0; offset < length; offset += RENDER_QUANTUM) {
+        const size = Math.min(RENDER_QUANTUM, length - offset);
+        const mic = channels.map((channel, c) => {
+            const chunk = size === RENDER_QUANTUM ? micChunks[c] : new Float32Array(size);
+            for (let i = 0; i < size; i++) chunk[i] = channel[offset + i] * preampGain;
+            return chunk;
+        });
+        let reference: Float32Array[] = [];
+        if (options.reference) {
+            const chunk = size === RENDER_QUANTUM ? referenceChunk : new Float32Array(size);
+            for (let i = 0; i < size; i++) chunk[i] = options.reference[offset + i] ?? 0;
+            reference = [chunk];
+        }
+
+        time = (offset + size) / sampleRate;
+        processor.process([mic, reference]);
+    }
+
+    return result;
+}
+
+/**
+ * 検知結果を正解ラベルと照合する
+ * ラベルを時刻順に、許容範囲内で最も近い未使用の衝撃と対応付ける
+ */
+export function evaluateReplay(
+    impacts: ReplayImpact[],
+    truth: GroundTruthEvent[],
+    tolerance: number = DEFAULT_MATCH_TOLERANCE
+): ReplayEvaluation {
+    const used = new Set<ReplayImpact>();
+    const matches: ReplayEvaluation['matches'] = [];
+    const missed: GroundTruthEvent[] = [];
+
+    for (const expected of [...truth].sort((a, b) => a.time - b.time)) {
+        let best: ReplayImpact | null = null;
+        for (const impact of impacts) {
+            if (used.has(impact)) continue;
+            if (Math.abs(impact.time - expected.time) > tolerance) continue;
+            if (expected.bandId && impact.bandId !== expected.bandId) continue;
+            if (!best || Math.abs(impact.time - expected.time) < Math.abs(best.time - expected.time)) {
+                best = impact;
+            }
+        }
+        if (best) {
+            used.add(best);
+            matches.push({ expected, detected: best });
+        } else {
+            missed.push(expected);
+        }
+    }
+
+    const spurious = impacts.filter(impact => !used.has(impact));
+    const truePositives = matches.length;
+    return {
+        truePositives,
+        falsePositives: spurious.length,
+        falseNegatives: missed.length,
+        precision: impacts.length > 0 ? truePositives / impacts.length : 1,
+        recall: truth.length > 0 ? truePositives / truth.length : 1,
+        matches,
+        missed,
+        spurious
+    };
+}
+
+/**
+ * Audacityのラベルファイル (開始秒<TAB>終了秒<TAB>ラベル) を正解ラベルとして読む
+ * ラベルが検知バンドIDの場合はbandIdとして扱う
+ */
+export function parseLabelTrack(text: string, bandIds: string[] = getAllDetectionBands({ bands: [], modes: [] }).map(b => b.id)): GroundTruthEvent[] {
+    const events: GroundTruthEvent[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const [start, , label = ''] = line.split('\t');
+        const time = parseFloat(start);
+        // 周波数範囲の行 (\で始まる) や空行は無視
+        if (!Number.isFinite(time)) continue;
+        const name = label.trim();
+        events.push({ time, label: name || undefined, bandId: bandIds.includes(name) ? name : undefined });
+    }
+    return events;
+}
+
+/**
+ * PCM (8/16/24/32bit整数) または32/64bit浮動小数点のWAVを読む
+ */
+export function decodeWav(data: ArrayBuffer): { sampleRate: number; channels: Float32Array[] } {
+    const view = new DataView(data);
+    const readString = (offset: number, length: number) => {
+        let str = '';
+        for (let i = 0; i < length; i++) str += String.fromCharCode(view.getUint8(offset + i));
+        return str;
+    };
+    if (data.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+        throw new Error('Not a WAV file');
+    }
+
+    let format = 0;
+    let channelCount = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let dataOffset = -1;
+    let dataSize = 0;
+
+    // チャンクを順に読む (奇数長は1バイト詰め物)
+    let offset = 12;
+    while (offset + 8 <= data.byteLength) {
+        const id = readString(offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (id === 'fmt ') {
+            format = view.getUint16(body, true);
+            channelCount = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            bitsPerSample = view.getUint16(body + 14, true);
+            // WAVE_FORMAT_EXTENSIBLE: サブフォーマットGUIDの先頭2バイトが実際の形式
+            if (format === 0xFFFE && size >= 26) format = view.getUint16(body + 24, true);
+        } else if (id === 'data') {
+            dataOffset = body;
+            dataSize = Math.min(size, data.byteLength - body);
+            break;
+        }
+        offset = body + size + (size % 2);
+    }
+
+    const isFloat = format === 3;
+    if ((format !== 1 && !isFloat) || channelCount === 0 || dataOffset < 0) {
+        throw new Error(`Unsupported WAV format (${format})`);
+    }
+    if (isFloat ? bitsPerSample !== 32 && bitsPerSample !== 64 : ![8, 16, 24, 32].includes(bitsPerSample)) {
+        throw new Error(`Unsupported WAV bit depth (${bitsPerSample})`);
+    }
+
+    const bytesPerSample = bitsPerSample / 8;
+    const frameCount = Math.floor(dataSize / (bytesPerSample * channelCount));
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+    const readSample = (pos: number): number => {
+        if (isFloat) return bitsPerSample === 32 ? view.getFloat32(pos, true) : view.getFloat64(pos, true);
+        switch (bitsPerSample) {
+            case 8: return (view.getUint8(pos) - 128) / 128;
+            case 16: return view.getInt16(pos, true) / 0x8000;
+            case 24: {
+                const value = view.getUint8(pos) | (view.getUint8(pos + 1) << 8) | (view.getInt8(pos + 2) << 16);
+                return value / 0x800000;
+            }
+            default: return view.getInt32(pos, true) / 0x80000000;
+        }
+    };
+
+    let pos = dataOffset;
+    for (let i = 0; i < frameCount; i++) {
+        for (let c = 0; c < channelCount; c++) {
+            channels[c][i] = readSample(pos);
+            pos += bytesPerSample;
+        }
+    }
+    return { sampleRate, channels };
+}
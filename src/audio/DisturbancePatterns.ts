@@ -0,0 +1,211 @@
+// DisturbancePatterns.ts
+// 検知ログから毎日繰り返す騒音の時間帯を学習し、その少し前からマスキングを強める (予測マスキング)
+
+import type { ImpactLogEntry, ScoreLogEntry } from './EventLog';
+import { slotPresetId } from './PresetLibrary';
+
+const STORAGE_KEY = 'soundmasking_premask_v1';
+
+// 学習に使う期間
+export const PATTERN_LEARNING_DAYS = 14;
+
+// 1日を5分単位で集計し、前後1区間 (±5分) のずれは同じ時間帯として数える
+const BIN_MINUTES = 5;
+const BINS_PER_DAY = 24 * 60 / BIN_MINUTES;
+const BIN_TOLERANCE = 1;
+
+// 3日以上、かつ記録のあった日の半分以上で起きた時間帯を「繰り返す」とみなす
+const MIN_OCCURRENCE_DAYS = 3;
+const MIN_OCCURRENCE_RATIO = 0.5;
+
+// この騒音スコア (10秒区間の最大) 以上も騒音の発生として数える
+const SCORE_EVENT_THRESHOLD = 0.15;
+
+export interface DisturbanceWindow {
+    id: string;
+    startMinute: number; // 0時からの分 (0 - 1439)
+    endMinute: number;   // 終了 (含まない)。開始より小さい場合は日付をまたぐ
+    days: number;        // 発生した日数
+    ratio: number;       // 記録のあった日のうち発生した割合
+    label: string;       // 最も多かった音 (学習した音の名前・バンドID)
+    enabled: boolean;
+}
+
+// 予測マスキングの動作
+// gain: Adaptiveゲインを底上げ / preset: 指定プリセットに切り替え、時間帯が終わったら元に戻す
+export type PreMaskAction = 'gain' | 'preset';
+
+export interface PreMaskSettings {
+    enabled: boolean;
+    leadMinutes: number; // 時間帯の何分前から強めるか
+    action: PreMaskAction;
+    gainBoost: number;   // Adaptiveゲイン加算分 (0.0 - 0.4)
+    presetId: string;    // ユーザープリセットのID
+}
+
+export const DEFAULT_PRE_MASK_SETTINGS: PreMaskSettings = {
+    enabled: false,
+    leadMinutes: 5,
+    action: 'gain',
+    gainBoost: 0.2,
+    presetId: ''
+};
+
+export interface PreMaskState {
+    settings: PreMaskSettings;
+    windows: DisturbanceWindow[];
+}
+
+function dayKey(time: number): string {
+    const d = new Date(time);
+    return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+}
+
+function minuteOfDay(date: Date): number {
+    return date.getHours() * 60 + date.getMinutes();
+}
+
+function wrapBin(bin: number): number {
+    return (bin + BINS_PER_DAY) % BINS_PER_DAY;
+}
+
+export function formatMinute(minute: number): string {
+    const m = (minute + 24 * 60) % (24 * 60);
+    return `${Math.floor(m / 60)}:${String(m % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 衝撃・騒音スコアの記録から繰り返す時間帯を求める
+ * 記録のあった日 (Auto Masking中にスコアが記録された日) を分母にする
+ */
+export function learnDisturbanceWindows(impacts: ImpactLogEntry[], scores: ScoreLogEntry[]): DisturbanceWindow[] {
+    const monitoredDays = new Set<string>();
+    scores.forEach(e => monitoredDays.add(dayKey(e.time)));
+    impacts.forEach(e => monitoredDays.add(dayKey(e.time)));
+    if (monitoredDays.size < MIN_OCCURRENCE_DAYS) return [];
+
+    // 時間帯ごとに発生した日と音の内訳
+    const binDays: Set<string>[] = Array.from({ length: BINS_PER_DAY }, () => new Set());
+    const binLabels: Map<string, number>[] = Array.from({ length: BINS_PER_DAY }, () => new Map());
+    const addEvent = (time: number, label: string | null) => {
+        const bin = Math.floor(minuteOfDay(new Date(time)) / BIN_MINUTES);
+        const day = dayKey(time);
+        for (let offset = -BIN_TOLERANCE; offset <= BIN_TOLERANCE; offset++) {
+            binDays[wrapBin(bin + offset)].add(day);
+        }
+        if (label) binLabels[bin].set(label, (binLabels[bin].get(label) ?? 0) + 1);
+    };
+    impacts.forEach(e => addEvent(e.time, e.soundName ?? e.bandId ?? 'all'));
+    scores.filter(e => e.peak >= SCORE_EVENT_THRESHOLD).forEach(e => addEvent(e.time, null));
+
+    const recurring = binDays.map(days =>
+        days.size >= MIN_OCCURRENCE_DAYS && days.size / monitoredDays.size >= MIN_OCCURRENCE_RATIO
+    );
+    if (recurring.every(r => r)) {
+        // 一日中: 時間帯として扱えない
+        return [];
+    }
+
+    // 連続した区間をまとめる (日付をまたぐ区間のため、繰り返さない区間から走査する)
+    const first = recurring.findIndex(r => !r);
+    const windows: DisturbanceWindow[] = [];
+    let start = -1;
+    for (let i = 1; i <= BINS_PER_DAY; i++) {
+        const bin = wrapBin(first + i);
+        if (recurring[bin] && start < 0) start = bin;
+        if (!recurring[bin] && start >= 0) {
+            windows.push(createWindow(start, bin, binDays, binLabels, monitoredDays.size));
+            start = -1;
+        }
+    }
+    return windows.sort((a, b) => a.startMinute - b.startMinute);
+}
+
+function createWindow(
+    startBin: number,
+    endBin: number,
+    binDays: Set<string>[],
+    binLabels: Map<string, number>[],
+    monitoredDays: number
+): DisturbanceWindow {
+    let days = 0;
+    const labels = new Map<string, number>();
+    for (let bin = startBin; bin !== endBin; bin = wrapBin(bin + 1)) {
+        days = Math.max(days, binDays[bin].size);
+        binLabels[bin].forEach((count, label) => labels.set(label, (labels.get(label) ?? 0) + count));
+    }
+    const label = [...labels.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+    const startMinute = startBin * BIN_MINUTES;
+    const endMinute = endBin * BIN_MINUTES;
+
+    return {
+        id: `w${startMinute}-${endMinute}`,
+        startMinute,
+        endMinute,
+        days,
+        ratio: days / monitoredDays,
+        label,
+        enabled: true
+    };
+}
+
+// 時間帯の長さ (分)
+function windowLength(window: DisturbanceWindow): number {
+    return (window.endMinute - window.startMinute + 24 * 60) % (24 * 60) || 24 * 60;
+}
+
+// minuteが時間帯の開始からlength分以内か (日付またぎ対応)
+function isWithin(minute: number, start: number, length: number): boolean {
+    return (minute - start + 24 * 60) % (24 * 60) < length;
+}
+
+function overlaps(a: DisturbanceWindow, b: DisturbanceWindow): boolean {
+    return isWithin(a.startMinute, b.startMinute, windowLength(b)) || isWithin(b.startMinute, a.startMinute, windowLength(a));
+}
+
+// 再学習した時間帯に、以前オフにした時間帯の設定を引き継ぐ
+export function mergeWindowSettings(learned: DisturbanceWindow[], previous: DisturbanceWindow[]): DisturbanceWindow[] {
+    const disabled = previous.filter(w => !w.enabled);
+    return learned.map(w => ({ ...w, enabled: !disabled.some(d => overlaps(w, d)) }));
+}
+
+/**
+ * 予測マスキングを掛けるべき時間帯 (開始のleadMinutes分前から終了まで)
+ */
+export function findActiveWindow(windows: DisturbanceWindow[], date: Date, leadMinutes: number): DisturbanceWindow | null {
+    const minute = minuteOfDay(date);
+    return windows.find(w =>
+        w.enabled && isWithin(minute, w.startMinute - leadMinutes, windowLength(w) + leadMinutes)
+    ) ?? null;
+}
+
+// 次に始まる有効な時間帯
+export function findNextWindow(windows: DisturbanceWindow[], date: Date): DisturbanceWindow | null {
+    const minute = minuteOfDay(date);
+    const enabled = windows.filter(w => w.enabled);
+    if (enabled.length === 0) return null;
+    const until = (w: DisturbanceWindow) => (w.startMinute - minute + 24 * 60) % (24 * 60);
+    return enabled.reduce((next, w) => until(w) < until(next) ? w : next);
+}
+
+export function loadPreMaskState(): PreMaskState {
+    try {
+        const data = localStorage.getItem(STORAGE_KEY);
+        if (data) {
+            const saved = JSON.parse(data) as Partial<PreMaskState>;
+            // 旧形式: カスタムスロットに切り替える (スロットはプリセットライブラリへ移行済み)
+            const { slotId, ...stored } = (saved.settings ?? {}) as Partial<PreMaskSettings> & { slotId?: string };
+            const settings = { ...DEFAULT_PRE_MASK_SETTINGS, ...stored };
+            if ((settings.action as string) === 'slot') settings.action = 'preset';
+            if (slotId && !stored.presetId) settings.presetId = slotPresetId(slotId);
+            return { settings, windows: saved.windows ?? [] };
+        }
+    } catch (e) {
+        console.error('Failed to load pre-masking settings', e);
+    }
+    return { settings: { ...DEFAULT_PRE_MASK_SETTINGS }, windows: [] };
+}
+
+export function savePreMaskState(state: PreMaskState) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
@@ -0,0 +1,125 @@
+// EngineClock.ts
+// AudioEngineの時間・フレーム駆動を抽象化する
+// リアルタイム: requestAnimationFrame / Date.now
+// オフライン: OfflineAudioContextのsuspend/resumeで仮想フレームを刻む
+
+export interface EngineClock {
+    // 現在時刻 (秒)
+    now(): number;
+    // 次フレームでコールバック (requestAnimationFrame相当)
+    requestFrame(callback: () => void): number;
+    cancelFrame(id: number): void;
+    // 遅延実行 (setTimeout相当)
+    setTimeout(callback: () => void, ms: number): number;
+    clearTimeout(id: number): void;
+}
+
+export const realtimeClock: EngineClock = {
+    now: () => Date.now() / 1000,
+    requestFrame: (callback) => requestAnimationFrame(() => callback()),
+    cancelFrame: (id) => cancelAnimationFrame(id),
+    setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+    clearTimeout: (id) => window.clearTimeout(id)
+};
+
+/**
+ * OfflineAudioContext用の仮想クロック
+ * startRendering()の前にschedule()を呼ぶと、frameRate間隔でレンダリングを一時停止し
+ * フレーム/タイマーのコールバックを実行してから再開する
+ */
+export class OfflineClock implements EngineClock {
+    private ctx: OfflineAudioContext;
+    private frameRate: number;
+    private epoch: number;
+
+    private nextId = 1;
+    private frameCallbacks: Map<number, () => void> = new Map();
+    private timers: Map<number, { due: number; callback: () => void }> = new Map();
+
+    // 各フレーム処理後に呼ばれる (進捗表示など)
+    public onTick: ((time: number) => void) | null = null;
+
+    /**
+     * @param frameRate 仮想フレームレート (rAF相当の60fpsが既定)
+     * @param epoch now()の基準時刻 (秒)
+     */
+    constructor(ctx: OfflineAudioContext, frameRate: number = 60, epoch: number = 0) {
+        this.ctx = ctx;
+        this.frameRate = frameRate;
+        this.epoch = epoch;
+    }
+
+    now(): number {
+        return this.epoch + this.ctx.currentTime;
+    }
+
+    requestFrame(callback: () => void): number {
+        const id = this.nextId++;
+        this.frameCallbacks.set(id, callback);
+        return id;
+    }
+
+    cancelFrame(id: number) {
+        this.frameCallbacks.delete(id);
+    }
+
+    setTimeout(callback: () => void, ms: number): number {
+        const id = this.nextId++;
+        this.timers.set(id, { due: this.ctx.currentTime + ms / 1000, callback });
+        return id;
+    }
+
+    clearTimeout(id: number) {
+        this.timers.delete(id);
+    }
+
+    /**
+     * フレーム境界のsuspendを予約する (startRendering()の前に呼ぶ)
+     * 長時間のレンダリングでも予約が溜まらないよう、次のsuspendは一時停止するたびに1つずつ予約する
+     * @param duration 秒 (OfflineAudioContextの長さ)
+     */
+    schedule(duration: number) {
+        // suspendはレンダー量子(128サンプル)単位に丸められるため、重複しないよう量子化
+        const quantum = 128 / this.ctx.sampleRate;
+        const interval = Math.max(quantum, 1 / this.frameRate);
+
+        let frame = 0;
+        let lastQuantum = 0;
+        const scheduleNext = () => {
+            let q = lastQuantum;
+            while (q <= lastQuantum) {
+                frame++;
+                q = Math.round((frame * interval) / quantum);
+            }
+            lastQuantum = q;
+
+            const at = q * quantum;
+            if (at >= duration) return;
+            this.ctx.suspend(at).then(() => {
+                this.tick();
+                scheduleNext();
+                this.ctx.resume();
+            });
+        };
+        scheduleNext();
+    }
+
+    private tick() {
+        const time = this.ctx.currentTime;
+
+        // 期限の来たタイマー
+        this.timers.forEach((timer, id) => {
+            if (timer.due <= time) {
+                this.timers.delete(id);
+                timer.callback();
+            }
+        });
+
+        // フレームコールバック (実行中に再登録されたものは次フレーム)
+        const callbacks = Array.from(this.frameCallbacks.values());
+        this.frameCallbacks.clear();
+        callbacks.forEach(callback => callback());
+
+        if (this.onTick) this.onTick(time);
+    }
+}
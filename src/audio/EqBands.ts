@@ -0,0 +1,87 @@
+// EqBands.ts
+// EQのバンド構成 (5 / 10 / 31バンド) とバンド間のゲイン変換
+
+export interface EqBand {
+    freq: number;           // 中心 (シェルフは肩) 周波数 Hz
+    type: BiquadFilterType;
+    q: number;
+    label: string;          // UI表示用
+}
+
+export type EqBandCount = 5 | 10 | 31;
+
+export const EQ_BAND_COUNTS: EqBandCount[] = [5, 10, 31];
+
+// 旧5バンドEQの周波数 (v2スロット・プリセットのeq配列はこの並び)
+export const LEGACY_EQ_FREQS = [60, 250, 1000, 4000, 12000];
+
+// AutoTuner.calculateSettings のeq配列の並び (オクターブ10バンド)
+export const AUTOTUNER_EQ_FREQS = [32, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+// ISO 1/3オクターブ中心周波数
+const THIRD_OCTAVE_FREQS = [
+    20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160,
+    200, 250, 315, 400, 500, 630, 800, 1000, 1250, 1600,
+    2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000
+];
+
+// バンド幅(オクターブ)からピーキングフィルターのQを求める
+export function qForBandwidth(octaves: number): number {
+    const p = Math.pow(2, octaves);
+    return Math.sqrt(p) / (p - 1);
+}
+
+function formatFreq(freq: number): string {
+    return freq >= 1000 ? `${+(freq / 1000).toFixed(2)}k` : `${freq}`;
+}
+
+// 両端をシェルフ、中間をピーキングにしたバンド列を作る
+function buildBands(freqs: number[], q: number): EqBand[] {
+    return freqs.map((freq, i) => ({
+        freq,
+        type: (i === 0 ? 'lowshelf' : i === freqs.length - 1 ? 'highshelf' : 'peaking') as BiquadFilterType,
+        q,
+        label: formatFreq(freq)
+    }));
+}
+
+export const EQ_LAYOUTS: Record<EqBandCount, EqBand[]> = {
+    // 従来の5バンド (Q=1.0)
+    5: buildBands(LEGACY_EQ_FREQS, 1.0),
+    // オクターブバンド (AutoTunerと同じ並び)
+    10: buildBands(AUTOTUNER_EQ_FREQS, qForBandwidth(1)),
+    // 1/3オクターブ グラフィックEQ
+    31: buildBands(THIRD_OCTAVE_FREQS, qForBandwidth(1 / 3))
+};
+
+export function getLayoutFreqs(count: EqBandCount): number[] {
+    return EQ_LAYOUTS[count].map(band => band.freq);
+}
+
+export function isEqBandCount(value: unknown): value is EqBandCount {
+    return EQ_BAND_COUNTS.includes(value as EqBandCount);
+}
+
+/**
+ * ゲイン配列を別の周波数列へ変換する
+ * 対数周波数軸で線形補間し、範囲外は端の値を保持する (端のバンドはシェルフのため)
+ */
+export function resampleEqGains(gains: number[], fromFreqs: number[], toFreqs: number[]): number[] {
+    const count = Math.min(gains.length, fromFreqs.length);
+    if (count === 0) return toFreqs.map(() => 0);
+
+    const logFrom = fromFreqs.slice(0, count).map(f => Math.log2(f));
+    // UIのスライダー刻み(0.5dB)に合わせて丸める (両端のバンドも同じ)
+    const roundToStep = (gain: number) => Math.round(gain * 2) / 2;
+
+    return toFreqs.map((freq) => {
+        const x = Math.log2(freq);
+        if (x <= logFrom[0]) return roundToStep(gains[0]);
+        if (x >= logFrom[count - 1]) return roundToStep(gains[count - 1]);
+
+        let i = 0;
+        while (x > logFrom[i + 1]) i++;
+        const t = (x - logFrom[i]) / (logFrom[i + 1] - logFrom[i]);
+        return roundToStep(gains[i] + (gains[i + 1] - gains[i]) * t);
+    });
+}
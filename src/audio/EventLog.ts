@@ -0,0 +1,138 @@
+// EventLog.ts
+// 検知イベント (衝撃・騒音スコア) の履歴をIndexedDBに保存する
+
+const DB_NAME = 'soundmasking_events';
+const IMPACT_STORE = 'impacts';
+const SCORE_STORE = 'scores';
+const DB_VERSION = 1;
+
+// これより古い記録は起動時に削除する
+export const EVENT_LOG_RETENTION_DAYS = 90;
+
+export interface ImpactLogEntry {
+    id?: number;
+    time: number;           // Unix時刻 (ms)
+    bandId: string | null;  // null = 全帯域
+    intensity: number;      // 0.0 - 1.0
+    adaptiveGain: number;   // 検知時のAdaptive倍率
+    reactiveGain: number;   // 検知で掛けたReactiveブースト倍率
+    // 学習した音として認識した場合
+    soundId?: string;
+    soundName?: string;
+    confidence?: number;    // 0.0 - 1.0
+}
+
+export interface ScoreLogEntry {
+    id?: number;
+    time: number;           // 集計区間の終了時刻 (ms)
+    score: number;          // 区間内の平均騒音スコア
+    peak: number;           // 区間内の最大騒音スコア
+    adaptiveGain: number;
+}
+
+export interface EventLogData {
+    impacts: ImpactLogEntry[];
+    scores: ScoreLogEntry[];
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const name of [IMPACT_STORE, SCORE_STORE]) {
+                const store = db.createObjectStore(name, { keyPath: 'id', autoIncrement: true });
+                store.createIndex('time', 'time');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+export async function recordImpact(entry: ImpactLogEntry): Promise<void> {
+    await withStore(IMPACT_STORE, 'readwrite', store => store.add(entry));
+}
+
+export async function recordScoreSample(entry: ScoreLogEntry): Promise<void> {
+    await withStore(SCORE_STORE, 'readwrite', store => store.add(entry));
+}
+
+/**
+ * 期間内の記録を時刻順に取得する
+ * @param from Unix時刻 (ms)
+ * @param to Unix時刻 (ms)、省略時は現在まで
+ */
+export async function queryEventLog(from: number, to: number = Date.now()): Promise<EventLogData> {
+    const range = IDBKeyRange.bound(from, to);
+    const [impacts, scores] = await Promise.all([
+        withStore<ImpactLogEntry[]>(IMPACT_STORE, 'readonly', store => store.index('time').getAll(range)),
+        withStore<ScoreLogEntry[]>(SCORE_STORE, 'readonly', store => store.index('time').getAll(range))
+    ]);
+    return { impacts, scores };
+}
+
+// 指定時刻より前の記録を削除
+export async function pruneEventLog(before: number): Promise<void> {
+    const range = IDBKeyRange.upperBound(before, true);
+    await Promise.all([IMPACT_STORE, SCORE_STORE].map(name =>
+        withStore(name, 'readwrite', store => store.delete(range))
+    ));
+}
+
+export async function clearEventLog(): Promise<void> {
+    await Promise.all([IMPACT_STORE, SCORE_STORE].map(name =>
+        withStore(name, 'readwrite', store => store.clear())
+    ));
+}
+
+export function eventLogToJson(data: EventLogData): string {
+    const strip = <T extends { id?: number }>(entries: T[]) => entries.map(({ id: _id, ...rest }) => rest);
+    return JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        impacts: strip(data.impacts).map(e => ({ ...e, time: new Date(e.time).toISOString() })),
+        scores: strip(data.scores).map(e => ({ ...e, time: new Date(e.time).toISOString() }))
+    }, null, 2);
+}
+
+// ユーザーが付けた名前はカンマ・引用符を含みうる
+function csvText(text: string): string {
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 衝撃とスコアを1つの表にまとめる (該当しない列は空欄)
+export function eventLogToCsv(data: EventLogData): string {
+    const rows: { time: number; cells: (string | number)[] }[] = [
+        ...data.impacts.map(e => ({
+            time: e.time,
+            cells: [
+                e.soundId ? 'recognized' : 'impact',
+                e.bandId ?? 'all',
+                e.intensity.toFixed(3), '', '',
+                e.adaptiveGain.toFixed(3), e.reactiveGain.toFixed(3),
+                csvText(e.soundName ?? ''), e.confidence?.toFixed(3) ?? ''
+            ]
+        })),
+        ...data.scores.map(e => ({
+            time: e.time,
+            cells: ['score', '', '', e.score.toFixed(4), e.peak.toFixed(4), e.adaptiveGain.toFixed(3), '', '', '']
+        }))
+    ];
+    rows.sort((a, b) => a.time - b.time);
+
+    const header = 'type,time,bandId,intensity,score,peak,adaptiveGain,reactiveGain,sound,confidence';
+    return [header, ...rows.map(r => [r.cells[0], new Date(r.time).toISOString(), ...r.cells.slice(1)].join(','))].join('\n') + '\n';
+}
@@ -0,0 +1,151 @@
+// ExposureMeter.ts
+// 出力レベルから推定した騒音ばく露量 (ドーズ) の積算
+// NIOSH基準: 85dB(A)で8時間 = 100%、3dB増えるごとに許容時間は半分
+// レベルは出力のRMS (A特性の補正なし) とユーザーが入れた最大音量時の音圧からの目安で、測定値ではない
+// (低域の多いノイズではdB(A)より大きめに出るため、安全側の見積もりになる)
+// 日付ではなく直近24時間で数える (夜をまたぐ睡眠中の再生が途中でリセットされないように)
+
+const REFERENCE_DB = 85;
+const REFERENCE_SECONDS = 8 * 60 * 60;
+const EXCHANGE_RATE_DB = 3;
+
+// この値未満はばく露として数えない
+const MIN_COUNTED_DB = 60;
+
+export const EXPOSURE_WARNING_PERCENT = 80;
+
+// 1分ごとに積算し、直近24時間分を合計する
+const BUCKET_MS = 60 * 1000;
+const WINDOW_BUCKETS = 24 * 60;
+
+const STORAGE_KEY = 'soundmasking_exposure_v1';
+
+export type ExposureLevel = 'safe' | 'warning' | 'exceeded';
+
+export interface ExposureStatus {
+    levelDb: number;          // 推定音圧 dB (A特性の補正なしの目安)
+    dosePercent: number;      // 直近24時間の累積ドーズ %
+    remainingMinutes: number; // 現在のレベルで100%に達するまでの時間 (分)
+    level: ExposureLevel;
+}
+
+// 指定レベルでの許容時間 (秒)
+function allowedSeconds(levelDb: number): number {
+    return REFERENCE_SECONDS / Math.pow(2, (levelDb - REFERENCE_DB) / EXCHANGE_RATE_DB);
+}
+
+// 旧形式の保存データの日付 (YYYY-MM-DD)
+function localDate(time: number): string {
+    const d = new Date(time);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export class ExposureMeter {
+    // デジタルのフルスケール(0dBFS RMS)が耳元で何dBになるかの推定値
+    // 端末・ヘッドホン・OS音量に依存するため、ユーザーが調整する
+    public fullScaleDbSpl = 100;
+
+    // 分 (エポックからの通し番号) -> その1分間のドーズ (1.0 = 100%)
+    private buckets: Map<number, number> = new Map();
+    // 保存していない積算があるか (保存は1分の区切りとページを離れるときだけ)
+    private unsaved = false;
+    private lastBucket: number | null = null;
+
+    private now: () => number;
+
+    constructor(now: () => number = () => Date.now()) {
+        this.now = now;
+        this.load();
+    }
+
+    /**
+     * 出力RMSを一定時間分積算する
+     * @param rms 0dBFS = 1.0 の実効値
+     * @param seconds 前回からの経過時間
+     */
+    add(rms: number, seconds: number): ExposureStatus {
+        this.prune();
+
+        const bucket = this.currentBucket();
+        // 1分が終わったら、それまでの分を保存する (毎秒は書き込まない)
+        if (bucket !== this.lastBucket) {
+            this.lastBucket = bucket;
+            this.flush();
+        }
+
+        const levelDb = rms > 0 ? this.fullScaleDbSpl + 20 * Math.log10(rms) : -Infinity;
+        if (levelDb >= MIN_COUNTED_DB) {
+            this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + seconds / allowedSeconds(levelDb));
+            this.unsaved = true;
+        }
+        return this.status(levelDb);
+    }
+
+    reset() {
+        this.buckets.clear();
+        this.save();
+    }
+
+    // 保存していない積算を保存する (ページを離れる・隠れるときに呼ぶ)
+    flush() {
+        if (this.unsaved) this.save();
+    }
+
+    status(levelDb: number): ExposureStatus {
+        this.prune();
+        const dose = this.getDose();
+        const dosePercent = dose * 100;
+        const remainingMinutes = levelDb >= MIN_COUNTED_DB
+            ? Math.max(0, (1 - dose) * allowedSeconds(levelDb) / 60)
+            : Infinity;
+
+        let level: ExposureLevel = 'safe';
+        if (dosePercent >= 100) level = 'exceeded';
+        else if (dosePercent >= EXPOSURE_WARNING_PERCENT) level = 'warning';
+
+        return { levelDb, dosePercent, remainingMinutes, level };
+    }
+
+    // 直近24時間のドーズ (1.0 = 100%)
+    private getDose(): number {
+        let dose = 0;
+        this.buckets.forEach(value => { dose += value; });
+        return dose;
+    }
+
+    private currentBucket(): number {
+        return Math.floor(this.now() / BUCKET_MS);
+    }
+
+    // 24時間より前の分を捨てる
+    private prune() {
+        const oldest = this.currentBucket() - WINDOW_BUCKETS;
+        this.buckets.forEach((_, bucket) => {
+            if (bucket <= oldest) this.buckets.delete(bucket);
+        });
+    }
+
+    private load() {
+        try {
+            const data = localStorage.getItem(STORAGE_KEY);
+            if (!data) return;
+            const saved = JSON.parse(data) as { buckets?: [number, number][]; date?: string; dose?: number };
+            if (Array.isArray(saved.buckets)) {
+                saved.buckets.forEach(([bucket, dose]) => {
+                    if (Number.isFinite(bucket) && Number.isFinite(dose) && dose > 0) this.buckets.set(bucket, dose);
+                });
+            } else if (saved.date === localDate(this.now()) && typeof saved.dose === 'number' && saved.dose > 0) {
+                // 旧形式 (当日の合計): 時刻が分からないため読み込んだ時点の分として数える
+                this.buckets.set(this.currentBucket(), saved.dose);
+            }
+            this.prune();
+        } catch (e) {
+            console.error('Failed to load exposure data', e);
+        }
+    }
+
+    private save() {
+        this.unsaved = false;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ buckets: Array.from(this.buckets.entries()) }));
+    }
+}
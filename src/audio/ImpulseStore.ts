@@ -0,0 +1,56 @@
+// ImpulseStore.ts
+// ユーザーが読み込んだIRファイルをIndexedDBに保存する
+// (スロットはlocalStorageのため、数MBになるIR本体はここに置きIDだけを参照する)
+
+const DB_NAME = 'soundmasking_impulses';
+const STORE_NAME = 'impulses';
+const DB_VERSION = 1;
+
+// 大きすぎるファイルはlocalStorageと同様に拒否
+export const MAX_IMPULSE_FILE_BYTES = 10 * 1024 * 1024;
+
+interface StoredImpulse {
+    id: string;
+    name: string;
+    data: ArrayBuffer; // 元ファイルのまま保存し、読み込み時にdecodeAudioDataでリサンプリング
+    savedAt: string;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+export async function saveImpulseFile(name: string, data: ArrayBuffer): Promise<string> {
+    if (data.byteLength > MAX_IMPULSE_FILE_BYTES) {
+        throw new Error(`Impulse file is too large (${data.byteLength} bytes)`);
+    }
+    const id = `ir-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const entry: StoredImpulse = { id, name, data, savedAt: new Date().toISOString() };
+    await withStore('readwrite', store => store.put(entry));
+    return id;
+}
+
+export async function loadImpulseFile(id: string): Promise<{ name: string; data: ArrayBuffer } | null> {
+    const entry = await withStore<StoredImpulse | undefined>('readonly', store => store.get(id));
+    return entry ? { name: entry.name, data: entry.data } : null;
+}
@@ -0,0 +1,158 @@
+// MicCalibration.ts
+// マイク校正: 静かな部屋の騒音と基準音 (手拍子・ノック) の測定から
+// プリアンプゲイン・バンド別ベースライン・推奨感度を決める
+// マイク感度は端末ごとに大きく違うため、入力デバイスごとに保存する
+
+const STORAGE_KEY = 'soundmasking_mic_calibration_v1';
+
+// 未校正時の値 (従来の固定値)
+export const DEFAULT_PREAMP_GAIN = 5.0;
+export const DEFAULT_METER_SCALE = 3.0;
+
+const MIN_PREAMP_GAIN = 0.5;
+const MAX_PREAMP_GAIN = 100;
+
+// 基準音のピークをプリアンプ後にこのRMSへ合わせる (-12dBFS: クリップしない余裕を残す)
+const TARGET_REFERENCE_RMS = 0.25;
+// 入力メーターで基準音がこの位置に来るようにする
+const REFERENCE_METER_LEVEL = 0.8;
+// 基準音が静かな部屋よりこれ以上大きくないと校正できない (dB)
+export const MIN_REFERENCE_MARGIN_DB = 10;
+// 基準音の1/4の強さ (バンドエネルギーの上昇量) で反応する感度を推奨する
+// 上階の足音などは室内で鳴らした手拍子よりかなり小さいため
+const RECOMMENDED_TRIGGER_RATIO = 0.25;
+
+// AnalyserNode・検知プロセッサーのバイト変換と同じ範囲
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+// 判定閾値 = IMPACT_THRESHOLD_RANGE * (1 - sensitivity) + IMPACT_THRESHOLD_MIN (検知プロセッサーと一致させる)
+const IMPACT_THRESHOLD_RANGE = 0.3;
+const IMPACT_THRESHOLD_MIN = 0.05;
+
+// 'all' = 全帯域 (バンド未選択時) のベースライン
+const ALL_BAND: CalibrationBand = { id: 'all', minFreq: 20, maxFreq: 20000 };
+
+export interface CalibrationBand {
+    id: string;
+    minFreq: number;
+    maxFreq: number;
+}
+
+// プリアンプ前のマイク入力の測定結果
+export interface InputMeasurement {
+    rms: number;              // 測定区間の平均RMS
+    peakRms: number;          // 測定区間の最大RMS
+    spectrumDb: Float32Array; // ビンごとのdB (静かな部屋: 平均 / 基準音: 最大)
+    sampleRate: number;
+}
+
+export interface MicCalibration {
+    deviceId: string;
+    deviceLabel: string;
+    preampGain: number;
+    meterScale: number;               // 入力メーター表示の倍率
+    baselines: Record<string, number>; // バンドID -> 静かな部屋のバンドエネルギー (0.0 - 1.0)
+    sensitivity: number;              // 推奨感度
+    noiseFloorDb: number;             // 静かな部屋のRMS (dBFS、プリアンプ前)
+    referenceDb: number;              // 基準音のピークRMS (dBFS、プリアンプ前)
+    calibratedAt: string;
+}
+
+function toDb(rms: number): number {
+    return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+// 静かな部屋に対する基準音の大きさ (dB)
+export function referenceMarginDb(quiet: InputMeasurement, reference: InputMeasurement): number {
+    return toDb(reference.peakRms) - toDb(quiet.rms);
+}
+
+/**
+ * プリアンプゲインを掛けたときの検知プロセッサー上のバンドエネルギー (0.0 - 1.0)
+ * 検知プロセッサーのgetBandEnergyと同じビン範囲・バイト変換
+ */
+function bandEnergy(measurement: InputMeasurement, band: CalibrationBand, gainDb: number): number {
+    const spectrum = measurement.spectrumDb;
+    const nyquist = measurement.sampleRate / 2;
+    const toBin = (freq: number) => Math.round((freq / nyquist) * spectrum.length);
+    const minBin = Math.max(0, toBin(band.minFreq));
+    const maxBin = Math.min(spectrum.length - 1, toBin(band.maxFreq));
+    if (minBin >= maxBin) return 0;
+
+    const scale = 255 / (MAX_DECIBELS - MIN_DECIBELS);
+    let sum = 0;
+    for (let i = minBin; i <= maxBin; i++) {
+        const byte = Math.floor(scale * (spectrum[i] + gainDb - MIN_DECIBELS));
+        sum += Math.max(0, Math.min(byte, 255));
+    }
+    return sum / (maxBin - minBin + 1) / 255;
+}
+
+/**
+ * 測定結果から校正値を計算する
+ * @param bands ベースラインを記録するバンド (組み込み + ユーザー定義)
+ */
+export function computeMicCalibration(
+    quiet: InputMeasurement,
+    reference: InputMeasurement,
+    bands: CalibrationBand[],
+    device: { id: string; label: string }
+): MicCalibration {
+    if (!(referenceMarginDb(quiet, reference) >= MIN_REFERENCE_MARGIN_DB)) {
+        throw new Error('Reference sound is too quiet for calibration');
+    }
+
+    const preampGain = Math.max(MIN_PREAMP_GAIN, Math.min(TARGET_REFERENCE_RMS / reference.peakRms, MAX_PREAMP_GAIN));
+    const gainDb = toDb(preampGain);
+
+    // 基準音で最も上昇したバンドを基準に、その一部の上昇で閾値を超える感度にする
+    const baselines: Record<string, number> = {};
+    let maxRise = 0;
+    for (const band of [ALL_BAND, ...bands]) {
+        const floor = bandEnergy(quiet, band, gainDb);
+        baselines[band.id] = floor;
+        maxRise = Math.max(maxRise, bandEnergy(reference, band, gainDb) - floor);
+    }
+    const threshold = maxRise * RECOMMENDED_TRIGGER_RATIO;
+    const sensitivity = 1 - (threshold - IMPACT_THRESHOLD_MIN) / IMPACT_THRESHOLD_RANGE;
+
+    return {
+        deviceId: device.id,
+        deviceLabel: device.label,
+        preampGain,
+        meterScale: REFERENCE_METER_LEVEL / (reference.peakRms * preampGain),
+        baselines,
+        // 感度スライダーの刻み (0.1) に合わせる
+        sensitivity: Math.round(Math.max(0, Math.min(sensitivity, 1)) * 10) / 10,
+        noiseFloorDb: toDb(quiet.rms),
+        referenceDb: toDb(reference.peakRms),
+        calibratedAt: new Date().toISOString()
+    };
+}
+
+function loadAll(): Record<string, MicCalibration> {
+    try {
+        const data = localStorage.getItem(STORAGE_KEY);
+        return data ? JSON.parse(data) as Record<string, MicCalibration> : {};
+    } catch (e) {
+        console.error('Failed to load mic calibration', e);
+        return {};
+    }
+}
+
+export function loadMicCalibration(deviceId: string): MicCalibration | null {
+    return loadAll()[deviceId] ?? null;
+}
+
+export function saveMicCalibration(calibration: MicCalibration) {
+    const all = loadAll();
+    all[calibration.deviceId] = calibration;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+export function removeMicCalibration(deviceId: string) {
+    const all = loadAll();
+    delete all[deviceId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
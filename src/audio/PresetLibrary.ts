@@ -0,0 +1,251 @@
+// PresetLibrary.ts
+// プリセットライブラリ: 組み込みプリセットとユーザーが保存したプリセット (個数制限なし)
+// ユーザープリセットは名前・タグ・メモ・お気に入りを持ち、設定本体はSlotSchemaの形式で保存する
+
+import type { ToneLayerSettings } from './AudioEngine';
+import { getSlotBackup, loadSlots, parseSlotData, type CustomSlotData } from './SlotSchema';
+
+const STORAGE_KEY = 'soundmasking_presets_v1';
+// 読めなかった元データの退避先
+const BACKUP_KEY = 'soundmasking_presets_backup_v1';
+
+export const PRESET_NAME_MAX_LENGTH = 40;
+
+// 組み込みプリセット (リサーチ資料に基づく最適設定)
+// ノイズ・EQ・音量・Density・Tone Layerだけを変更し、Auto Maskingなどはそのまま
+export interface BuiltInPreset {
+    id: string;
+    name: string;
+    icon: string;
+    tags: string[];
+    note: string;
+    mix: { w: number; p: number; b: number; d: number; s?: number; r?: number; sf?: number; rf?: number; rs?: number; sl?: number; sd?: number; g?: number }; // White, Pink, Brown, Dark, Sub, Rumble, SubFreq, RumbleFreq, RumbleSpeed, Slope, SlopeDb, Grey
+    eq: number[];      // 5バンドEQ値 [60Hz, 250Hz, 1kHz, 4kHz, 12kHz]
+    volume: number;
+    density?: number; // 0.0 - 1.0 (Dry/Wet)
+    tone?: ToneLayerSettings; // 未指定はTone Layerオフ
+}
+
+export const BUILT_IN_PRESETS: BuiltInPreset[] = [
+    {
+        id: 'footsteps_child', name: '足音 (子供)', icon: '🧸', tags: ['足音'],
+        note: '子供の走り回り (LH): 63Hz以下。Deep Brown主体 + 60Hzを最大まで持ち上げる',
+        mix: { w: 0, p: 0, b: 0.8, d: 0.8 }, eq: [12, 6, 0, -4, -8], volume: 0.20, density: 0.0
+    },
+    {
+        id: 'footsteps_adult', name: '足音 (大人)', icon: '👞', tags: ['足音'],
+        note: '大人の歩行 (LH): 63-250Hz。Brown/Pink + 250Hzを持ち上げる',
+        mix: { w: 0, p: 0.2, b: 0.6, d: 0.4 }, eq: [4, 8, 2, 0, -4], volume: 0.18, density: 0.0
+    },
+    {
+        id: 'impact_mid', name: '落下音', icon: '💥', tags: ['衝撃'],
+        note: '落下音 (LL): 100-500Hz。Pink主体で中域を持ち上げる',
+        mix: { w: 0, p: 0.7, b: 0.3, d: 0.2 }, eq: [2, 6, 4, 0, -4], volume: 0.15, density: 0.0
+    },
+    {
+        id: 'voices', name: '話し声', icon: '🗣️', tags: ['話し声'],
+        note: '話し声・テレビ: 100-3kHz。Pink/White',
+        mix: { w: 0.2, p: 0.6, b: 0.2, d: 0 }, eq: [-4, 4, 8, 4, -2], volume: 0.12, density: 0.1
+    },
+    {
+        id: 'sleep', name: '睡眠用', icon: '😴', tags: ['睡眠', 'バイノーラル'],
+        note: '高域を抑えてDensity高め。バイノーラル 10Hz(α) → 4Hz(θ) を30分かけて下げる',
+        mix: { w: 0, p: 0, b: 1.0, d: 0.1 }, eq: [6, 4, 0, -6, -10], volume: 0.08, density: 0.6,
+        tone: { mode: 'binaural', carrier: 200, beat: 10, beatEnd: 4, rampMinutes: 30, level: 0.3 }
+    },
+    {
+        id: 'focus', name: '集中', icon: '🎯', tags: ['集中', 'アイソクロニック'],
+        note: 'Pink/Brown + アイソクロニック 14Hz(β)。スピーカーでも効く',
+        mix: { w: 0, p: 0.6, b: 0.4, d: 0 }, eq: [2, 2, 0, 0, -2], volume: 0.1, density: 0.0,
+        tone: { mode: 'isochronic', carrier: 250, beat: 14, beatEnd: 14, rampMinutes: 0, level: 0.2 }
+    },
+    {
+        id: 'tinnitus', name: '耳鳴り/高音', icon: '👂', tags: ['耳鳴り'],
+        note: '耳鳴り/高音対策: 4kHz以上。White + 高域を持ち上げる',
+        mix: { w: 0.4, p: 0.1, b: 0, d: 0 }, eq: [-12, -6, 0, 6, 12], volume: 0.05, density: 0.2
+    },
+    {
+        id: 'cafe', name: 'カフェ', icon: '☕', tags: ['環境音'],
+        note: 'White/Pink/Brownを均等に。Density中程度',
+        mix: { w: 0.1, p: 0.4, b: 0.4, d: 0.1 }, eq: [2, 2, 2, 2, 0], volume: 0.12, density: 0.3
+    },
+    {
+        id: 'deep_focus', name: '瞑想', icon: '🧘', tags: ['瞑想'],
+        note: 'Deep Brown + Sub。Density高め',
+        mix: { w: 0, p: 0, b: 0.5, d: 0.5, s: 0.3 }, eq: [4, 0, 0, -5, -10], volume: 0.15, density: 0.5
+    },
+    {
+        id: 'flat', name: 'フラット', icon: '➖', tags: ['カラーノイズ'],
+        note: 'White Noiseのみ、EQなし',
+        mix: { w: 0.5, p: 0, b: 0, d: 0 }, eq: [0, 0, 0, 0, 0], volume: 0.1, density: 0.0
+    },
+    {
+        id: 'grey', name: 'グレー', icon: '🌫️', tags: ['カラーノイズ'],
+        note: '等ラウドネス補正で全帯域が同じ大きさに聴こえる',
+        mix: { w: 0, p: 0, b: 0, d: 0, g: 0.8 }, eq: [0, 0, 0, 0, 0], volume: 0.1, density: 0.0
+    },
+    {
+        id: 'blue', name: 'ブルー', icon: '🔹', tags: ['カラーノイズ'],
+        note: 'ブルー (+3dB/oct): 高域寄りのマスキング',
+        mix: { w: 0, p: 0, b: 0, d: 0, sl: 0.6, sd: 3 }, eq: [-6, -2, 0, 2, 0], volume: 0.05, density: 0.1
+    }
+];
+
+// どこで作られたか (一覧の表示用)
+// slot: 旧カスタムスロットからの移行 / meister: Meisterの結果 / import: ファイル・共有リンク
+export type PresetSource = 'user' | 'slot' | 'meister' | 'import';
+
+export interface UserPreset {
+    id: string;
+    name: string;
+    tags: string[];
+    note: string;
+    favorite: boolean;
+    source: PresetSource;
+    createdAt: string;
+    updatedAt: string;
+    settings: CustomSlotData;
+}
+
+export interface PresetLibrary {
+    presets: UserPreset[];
+    favoriteBuiltIns: string[]; // お気に入りにした組み込みプリセットのID
+}
+
+// 旧カスタムスロットから移行したプリセットのID
+export function slotPresetId(slotId: string): string {
+    return `slot-${slotId}`;
+}
+
+export function createPresetId(): string {
+    return `preset-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function findBuiltInPreset(id: string): BuiltInPreset | undefined {
+    return BUILT_IN_PRESETS.find(p => p.id === id);
+}
+
+// 「足音, 夜」「足音、夜」のどちらでも区切る
+export function parsePresetTags(text: string): string[] {
+    const tags = text.split(/[,、]/).map(t => t.trim()).filter(t => t.length > 0);
+    return [...new Set(tags)];
+}
+
+// 名前・タグ・メモのどれかに含まれるか (大文字小文字を区別しない)
+export function matchesPresetQuery(preset: { name: string; tags: string[]; note: string }, query: string): boolean {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    return [preset.name, preset.note, ...preset.tags].some(text => text.toLowerCase().includes(q));
+}
+
+/**
+ * ユーザープリセットを作る
+ */
+export function createUserPreset(name: string, settings: CustomSlotData, source: PresetSource = 'user', id: string = createPresetId()): UserPreset {
+    const now = new Date().toISOString();
+    return {
+        id,
+        name: name.trim().slice(0, PRESET_NAME_MAX_LENGTH),
+        tags: [],
+        note: '',
+        favorite: false,
+        source,
+        createdAt: now,
+        updatedAt: now,
+        settings
+    };
+}
+
+// 同じ名前があれば (2), (3)... を付ける
+export function uniquePresetName(name: string, presets: UserPreset[]): string {
+    const names = new Set(presets.map(p => p.name));
+    if (!names.has(name)) return name;
+    let n = 2;
+    while (names.has(`${name} (${n})`)) n++;
+    return `${name} (${n})`;
+}
+
+/**
+ * 保存されたユーザープリセットを読む (設定本体は現在のスキーマへ移行される)
+ * @returns 読めない場合はnull
+ */
+export function parseUserPreset(value: unknown): UserPreset | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const p = value as Partial<UserPreset>;
+    const settings = parseSlotData(p.settings);
+    if (!settings || typeof p.id !== 'string' || typeof p.name !== 'string') return null;
+    const sources: PresetSource[] = ['user', 'slot', 'meister', 'import'];
+    return {
+        id: p.id,
+        name: p.name,
+        tags: Array.isArray(p.tags) ? p.tags.filter((t): t is string => typeof t === 'string') : [],
+        note: typeof p.note === 'string' ? p.note : '',
+        favorite: p.favorite === true,
+        source: sources.includes(p.source as PresetSource) ? p.source as PresetSource : 'user',
+        createdAt: typeof p.createdAt === 'string' ? p.createdAt : settings.savedAt,
+        updatedAt: typeof p.updatedAt === 'string' ? p.updatedAt : settings.savedAt,
+        settings
+    };
+}
+
+export interface PresetLibraryLoad {
+    library: PresetLibrary;
+    // 読めなかった元データ (退避済み)。なければnull
+    backup: string | null;
+}
+
+// 初回は旧カスタムスロット (Slot 1 - 3) をプリセットとして取り込む
+function migrateSlots(): PresetLibraryLoad {
+    const { slots, dropped } = loadSlots();
+    const presets = Object.entries(slots)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([slotId, settings]) => ({
+            ...createUserPreset(`Slot ${slotId}`, settings, 'slot', slotPresetId(slotId)),
+            createdAt: settings.savedAt,
+            updatedAt: settings.savedAt
+        }));
+    return { library: { presets, favoriteBuiltIns: [] }, backup: dropped.length > 0 ? getSlotBackup() : null };
+}
+
+/**
+ * プリセットライブラリを読み込む
+ * 読めないプリセットがあった場合は元データを退避し、読めた分だけで保存し直す
+ */
+export function loadPresetLibrary(): PresetLibraryLoad {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) {
+        const migrated = migrateSlots();
+        if (migrated.library.presets.length > 0) savePresetLibrary(migrated.library);
+        return migrated;
+    }
+
+    let saved: Partial<PresetLibrary> | null = null;
+    try {
+        saved = JSON.parse(data) as Partial<PresetLibrary>;
+    } catch (e) {
+        console.error('Failed to load preset library', e);
+    }
+    if (typeof saved !== 'object' || saved === null) {
+        // 次の保存で消えないよう元データを退避する
+        localStorage.setItem(BACKUP_KEY, data);
+        return { library: { presets: [], favoriteBuiltIns: [] }, backup: data };
+    }
+
+    const stored = Array.isArray(saved.presets) ? saved.presets : [];
+    const presets = stored.map(parseUserPreset).filter((p): p is UserPreset => p !== null);
+    const favoriteBuiltIns = Array.isArray(saved.favoriteBuiltIns)
+        ? saved.favoriteBuiltIns.filter(id => typeof id === 'string' && findBuiltInPreset(id))
+        : [];
+    const library = { presets, favoriteBuiltIns };
+    if (presets.length < stored.length) {
+        console.error(`Dropped ${stored.length - presets.length} unreadable presets`);
+        localStorage.setItem(BACKUP_KEY, data);
+        savePresetLibrary(library);
+        return { library, backup: data };
+    }
+    return { library, backup: null };
+}
+
+export function savePresetLibrary(library: PresetLibrary) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+}
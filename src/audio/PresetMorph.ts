@@ -0,0 +1,159 @@
+// PresetMorph.ts
+// プリセット間のモーフィング (連続的なパラメータの補間)
+// ミックス・EQ・Sub/Rumble・音量・Density・Stereo Width・Soundscape音量を補間する
+// Tone Layer・Room・Auto Maskingなどの切り替え型の設定は補間しない (呼び出し側で最後に適用する)
+
+import { realtimeClock, type EngineClock } from './EngineClock';
+import { LEGACY_EQ_FREQS, getLayoutFreqs, resampleEqGains } from './EqBands';
+import type { BuiltInPreset } from './PresetLibrary';
+import type { SettingsState } from './SettingsStore';
+import { DEFAULT_MIX, type SlotMix } from './SlotSchema';
+
+export interface MorphParams {
+    mix: SlotMix;
+    eq: number[];
+    eqFreqs: number[]; // eqの各値の中心周波数
+    volume: number;
+    noiseVolume: number;
+    soundVolume: number;
+    density: number;
+    stereoWidth: number;
+    soundscapes: Record<string, number>; // Sound ID -> volume (ないものは0)
+}
+
+// 周波数は対数で補間する (聴感上の変化を一定にする)
+const LOG_MIX_KEYS: (keyof SlotMix)[] = ['sf', 'rf'];
+
+// 途中経過の更新間隔
+const MORPH_TICK_MS = 50;
+
+function lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * t;
+}
+
+function lerpLog(a: number, b: number, t: number): number {
+    return a > 0 && b > 0 ? a * Math.pow(b / a, t) : lerp(a, b, t);
+}
+
+export function morphParamsFromSettings(settings: SettingsState): MorphParams {
+    return {
+        mix: { ...settings.mix },
+        eq: [...settings.eq],
+        eqFreqs: getLayoutFreqs(settings.eqBandCount),
+        volume: settings.volume,
+        noiseVolume: settings.noiseVolume,
+        soundVolume: settings.soundVolume,
+        density: settings.density,
+        stereoWidth: settings.stereoWidth,
+        soundscapes: { ...settings.soundscapes }
+    };
+}
+
+/**
+ * 組み込みプリセットの補間先
+ * 組み込みプリセットが変更しない項目 (Soundscapeなど) は現在の値のまま
+ */
+export function morphParamsFromBuiltIn(preset: BuiltInPreset, current: MorphParams): MorphParams {
+    return {
+        ...current,
+        mix: { ...DEFAULT_MIX, ...preset.mix },
+        eq: [...preset.eq],
+        eqFreqs: LEGACY_EQ_FREQS,
+        volume: preset.volume,
+        density: preset.density ?? current.density,
+        soundscapes: { ...current.soundscapes }
+    };
+}
+
+/**
+ * 2つの設定の間を補間する
+ * @param t 0 = from, 1 = to
+ * @param eqFreqs 補間後のEQの周波数 (省略時はtoの構成)
+ */
+export function interpolateMorph(from: MorphParams, to: MorphParams, t: number, eqFreqs: number[] = to.eqFreqs): MorphParams {
+    const x = Math.max(0, Math.min(1, t));
+
+    const mix = { ...to.mix };
+    (Object.keys(mix) as (keyof SlotMix)[]).forEach(key => {
+        mix[key] = LOG_MIX_KEYS.includes(key) ? lerpLog(from.mix[key], to.mix[key], x) : lerp(from.mix[key], to.mix[key], x);
+    });
+
+    const fromEq = resampleEqGains(from.eq, from.eqFreqs, eqFreqs);
+    const toEq = resampleEqGains(to.eq, to.eqFreqs, eqFreqs);
+
+    // 片方にしかないSoundscapeは0から/0へ補間する
+    const soundscapes: Record<string, number> = {};
+    new Set([...Object.keys(from.soundscapes), ...Object.keys(to.soundscapes)]).forEach(id => {
+        soundscapes[id] = lerp(from.soundscapes[id] ?? 0, to.soundscapes[id] ?? 0, x);
+    });
+
+    return {
+        mix,
+        eq: toEq.map((gain, i) => lerp(fromEq[i], gain, x)),
+        eqFreqs: [...eqFreqs],
+        volume: lerp(from.volume, to.volume, x),
+        noiseVolume: lerp(from.noiseVolume, to.noiseVolume, x),
+        soundVolume: lerp(from.soundVolume, to.soundVolume, x),
+        density: lerp(from.density, to.density, x),
+        stereoWidth: lerp(from.stereoWidth, to.stereoWidth, x),
+        soundscapes
+    };
+}
+
+// 始めと終わりをなだらかにする (smoothstep)
+export function easeMorph(progress: number): number {
+    const x = Math.max(0, Math.min(1, progress));
+    return x * x * (3 - 2 * x);
+}
+
+/**
+ * 時間をかけてfrom → toへ切り替える
+ * バックグラウンドのタブでも止まらないよう、フレームではなくタイマーで進める
+ */
+export class MorphTransition {
+    private clock: EngineClock;
+    private timer: number | null = null;
+
+    constructor(clock: EngineClock = realtimeClock) {
+        this.clock = clock;
+    }
+
+    /**
+     * @param onFrame 途中経過 (progress: 0 - 1) ごとに呼ばれる
+     * @param onComplete 最後まで進んだら呼ばれる (cancel()した場合は呼ばれない)
+     */
+    start(
+        from: MorphParams,
+        to: MorphParams,
+        durationMs: number,
+        onFrame: (params: MorphParams, progress: number) => void,
+        onComplete: () => void,
+        eqFreqs: number[] = to.eqFreqs
+    ) {
+        this.cancel();
+        const startTime = this.clock.now();
+        const tick = () => {
+            const elapsed = (this.clock.now() - startTime) * 1000;
+            const progress = durationMs > 0 ? Math.min(elapsed / durationMs, 1) : 1;
+            onFrame(interpolateMorph(from, to, easeMorph(progress), eqFreqs), progress);
+            if (progress >= 1) {
+                this.timer = null;
+                onComplete();
+                return;
+            }
+            this.timer = this.clock.setTimeout(tick, MORPH_TICK_MS);
+        };
+        tick();
+    }
+
+    cancel() {
+        if (this.timer !== null) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    isRunning(): boolean {
+        return this.timer !== null;
+    }
+}
@@ -0,0 +1,142 @@
+// PresetTransfer.ts
+// プリセットのファイル書き出し・読み込みと共有リンク (URLフラグメント)
+// 読み込んだ設定はSlotSchemaで現在のスキーマへ移行・検証する
+
+import { createUserPreset, parseUserPreset, type UserPreset } from './PresetLibrary';
+import { SLOT_SCHEMA_VERSION, parseSlotData, type CustomSlotData } from './SlotSchema';
+
+const EXPORT_FORMAT = 'soundmasking-presets';
+// 旧カスタムスロットの書き出し形式
+const LEGACY_SLOT_FORMAT = 'soundmasking-slots';
+
+// 共有リンク: #slot=<形式><base64url>
+// z = deflate圧縮 / j = 非圧縮 (CompressionStream非対応のブラウザ)
+const SHARE_PARAM = 'slot';
+
+export interface PresetExportFile {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    presets: UserPreset[];
+}
+
+export interface PresetImport {
+    presets: UserPreset[];
+    skipped: number; // 読めなかった件数
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function createPresetExport(presets: UserPreset[]): string {
+    const file: PresetExportFile = {
+        format: EXPORT_FORMAT,
+        version: SLOT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        presets
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 書き出したファイルを読む
+ * 旧カスタムスロットの書き出し・localStorageの保存形式そのまま (読み込めなかった時の退避データ) も受け付ける
+ */
+export function parsePresetExport(text: string): PresetImport {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a JSON file');
+    }
+    if (!isRecord(data)) throw new Error('Unknown preset file format');
+
+    const result: PresetImport = { presets: [], skipped: 0 };
+    if (data.format === EXPORT_FORMAT && Array.isArray(data.presets)) {
+        for (const value of data.presets) {
+            const preset = parseUserPreset(value);
+            if (preset) result.presets.push({ ...preset, source: 'import' });
+            else result.skipped++;
+        }
+    } else {
+        // スロットID -> 設定
+        const slots = data.format === LEGACY_SLOT_FORMAT && isRecord(data.slots) ? data.slots : data;
+        for (const [id, value] of Object.entries(slots)) {
+            const settings = parseSlotData(value);
+            if (settings) result.presets.push({ ...createUserPreset(`Slot ${id}`, settings, 'import'), createdAt: settings.savedAt });
+            else result.skipped++;
+        }
+    }
+    if (result.presets.length === 0) throw new Error('No preset data found');
+    return result;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * 共有リンクで渡さない項目を外す
+ * Auto Masking (マイク入力) は開いた人が自分で有効にする。ユーザーIRは送った側のブラウザにしかないため従来IRにする
+ */
+function withoutLocalSettings(slot: CustomSlotData): CustomSlotData {
+    const { userIrId: _userIrId, userIrName: _userIrName, ...room } = slot.room;
+    return { ...slot, autoMode: false, room: room.type === 'user' ? { ...room, type: 'classic' } : room };
+}
+
+/**
+ * 共有リンクのフラグメントに入れる文字列を作る
+ * 保存日時・Auto Masking・ユーザーIRは含めない (保存日時は開いた側で付け直す)
+ */
+export async function encodeSlotShare(slot: CustomSlotData): Promise<string> {
+    const { savedAt: _savedAt, autoMode: _autoMode, ...settings } = withoutLocalSettings(slot);
+    const bytes = new TextEncoder().encode(JSON.stringify(settings));
+    if (typeof CompressionStream === 'undefined') return `j${toBase64Url(bytes)}`;
+    return `z${toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')))}`;
+}
+
+/**
+ * 古いリンクや手で書き換えたリンクに含まれていても、Auto Masking・ユーザーIRは読まない
+ * @returns 読めない場合はnull
+ */
+export async function decodeSlotShare(value: string): Promise<CustomSlotData | null> {
+    try {
+        let bytes = fromBase64Url(value.slice(1));
+        if (value[0] === 'z') {
+            bytes = await transform(bytes, new DecompressionStream('deflate-raw'));
+        } else if (value[0] !== 'j') {
+            return null;
+        }
+        const data: unknown = JSON.parse(new TextDecoder().decode(bytes));
+        const slot = parseSlotData(isRecord(data) ? { ...data, savedAt: new Date().toISOString() } : data);
+        return slot && withoutLocalSettings(slot);
+    } catch (e) {
+        console.error('Failed to decode shared slot', e);
+        return null;
+    }
+}
+
+export function createSlotShareUrl(baseUrl: string, encoded: string): string {
+    return `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${encoded}`;
+}
+
+// location.hashから共有リンクの値を取り出す (なければnull)
+export function readSlotShareFragment(hash: string): string | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.get(SHARE_PARAM);
+}
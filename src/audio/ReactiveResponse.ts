@@ -0,0 +1,73 @@
+// ReactiveResponse.ts
+// 検知バンドごとのReactiveブーストの掛け方
+// 全体の音量を上げる代わりに、検知した音に対応する帯域だけを一時的に持ち上げる
+
+import type { DetectionBand } from './ImpactDetector';
+
+// full: 出力全体 (従来のブースト) / match: 検知バンドと同じ帯域 / low・mid・high: 固定の帯域
+export type ReactiveResponseTarget = 'full' | 'match' | 'low' | 'mid' | 'high';
+
+export interface ReactiveResponseOption {
+    id: ReactiveResponseTarget;
+    nameJa: string;
+}
+
+export const REACTIVE_RESPONSE_OPTIONS: ReactiveResponseOption[] = [
+    { id: 'full', nameJa: '全体' },
+    { id: 'match', nameJa: '検知帯域' },
+    { id: 'low', nameJa: '低域 (20-250Hz)' },
+    { id: 'mid', nameJa: '中域 (250-2kHz)' },
+    { id: 'high', nameJa: '高域 (2k-8kHz)' }
+];
+
+const FIXED_REGIONS: Record<'low' | 'mid' | 'high', ReactiveLiftRange> = {
+    low: { minFreq: 20, maxFreq: 250 },
+    mid: { minFreq: 250, maxFreq: 2000 },
+    high: { minFreq: 2000, maxFreq: 8000 }
+};
+
+// 検知バンドID -> 掛け方 ('all' = 全帯域検知・学習した音の認識)
+export type ReactiveResponseMap = Record<string, ReactiveResponseTarget>;
+
+// 足音・衝撃は検知帯域、話し声は中域を持ち上げる
+// 定義にないバンド (ユーザー定義) は検知帯域
+export const DEFAULT_REACTIVE_RESPONSES: ReactiveResponseMap = {
+    all: 'full',
+    ultra_low: 'match',
+    footsteps: 'match',
+    light_impact: 'match',
+    hard_impact: 'match',
+    low_freq: 'match',
+    voice_male: 'mid',
+    voice_female: 'mid',
+    high_freq: 'match'
+};
+
+export interface ReactiveLiftRange {
+    minFreq: number;
+    maxFreq: number;
+}
+
+export function isReactiveResponseTarget(value: unknown): value is ReactiveResponseTarget {
+    return REACTIVE_RESPONSE_OPTIONS.some(option => option.id === value);
+}
+
+/**
+ * 検知バンドに対して持ち上げる帯域を返す (null = 出力全体)
+ * @param bandId 検知したバンド (省略時は全帯域)
+ * @param bands 組み込み + ユーザー定義のバンド
+ */
+export function resolveReactiveLift(
+    bandId: string | undefined,
+    responses: ReactiveResponseMap,
+    bands: DetectionBand[]
+): ReactiveLiftRange | null {
+    const id = bandId ?? 'all';
+    const target = responses[id] ?? DEFAULT_REACTIVE_RESPONSES[id] ?? 'match';
+
+    if (target === 'full') return null;
+    if (target !== 'match') return FIXED_REGIONS[target];
+
+    const band = bands.find(b => b.id === id);
+    return band ? { minFreq: band.minFreq, maxFreq: band.maxFreq } : null;
+}
@@ -0,0 +1,113 @@
+// RoomImpulse.ts
+// Density用のパラメトリックなルームIR生成
+
+export type RoomType = 'classic' | 'small' | 'bedroom' | 'studio' | 'hall' | 'cathedral' | 'custom' | 'user';
+
+export interface RoomSettings {
+    type: RoomType;
+    size: number;      // 0.0 - 1.0 (残響時間 0.3s - 4s)
+    damping: number;   // 0.0 - 1.0 (高域の減衰の速さ)
+    predelay: number;  // ms (0 - 100)
+    early: number;     // 初期反射の量 0.0 - 1.0
+    spread: number;    // L/Rの無相関度 0.0 - 1.0
+    // type === 'user' の場合に読み込んだIRファイル
+    userIrId?: string;
+    userIrName?: string;
+}
+
+type RoomShape = Omit<RoomSettings, 'type' | 'userIrId' | 'userIrName'>;
+
+// 部屋タイプごとの既定値 (classic / custom / user はスライダー値をそのまま保持)
+export const ROOM_TYPES: Partial<Record<RoomType, RoomShape>> = {
+    small: { size: 0.15, damping: 0.6, predelay: 2, early: 0.7, spread: 0.6 },
+    bedroom: { size: 0.3, damping: 0.75, predelay: 5, early: 0.5, spread: 0.7 },
+    studio: { size: 0.35, damping: 0.5, predelay: 8, early: 0.3, spread: 0.9 },
+    hall: { size: 0.7, damping: 0.4, predelay: 25, early: 0.4, spread: 1.0 },
+    cathedral: { size: 0.95, damping: 0.3, predelay: 45, early: 0.3, spread: 1.0 }
+};
+
+// 従来のIR (generateImpulseResponse(ctx, 2.5, 2.0)) と同じ設定値を既定にする
+export const DEFAULT_ROOM: RoomSettings = { type: 'classic', size: 0.5, damping: 0.5, predelay: 0, early: 0, spread: 1.0 };
+
+// 従来IRの総エネルギー (1秒・1サンプルレートあたり)
+// normalize=false のため、IRを差し替えてもDensityの音量感が変わらないよう揃える
+const LEGACY_ENERGY_PER_SAMPLE_RATE = 2.5 * 0.05 * 0.05 / 9 / 5;
+
+const EARLY_REFLECTIONS = 10;
+
+export function roomDecaySeconds(size: number): number {
+    return 0.3 * Math.pow(4.0 / 0.3, Math.max(0, Math.min(size, 1)));
+}
+
+/**
+ * パラメトリックなルームIRを生成する
+ * 指数減衰ノイズの残響に、時間とともにカットオフが下がる1次ローパス(damping)と
+ * 部屋の大きさに比例した初期反射を加える
+ */
+export function generateRoomImpulse(ctx: BaseAudioContext, settings: RoomShape): AudioBuffer {
+    const sampleRate = ctx.sampleRate;
+    const rt60 = roomDecaySeconds(settings.size);
+    const predelay = Math.max(0, Math.min(settings.predelay, 100)) / 1000;
+    const spread = Math.max(0, Math.min(settings.spread, 1));
+    const damping = Math.max(0, Math.min(settings.damping, 1));
+
+    const tailLength = Math.ceil(rt60 * sampleRate);
+    const offset = Math.floor(predelay * sampleRate);
+    const length = offset + tailLength;
+    const impulse = ctx.createBuffer(2, length, sampleRate);
+    const channels = [impulse.getChannelData(0), impulse.getChannelData(1)];
+
+    // 60dB減衰 = 振幅1/1000
+    const decayRate = Math.log(1000) / rt60;
+    // 時間とともに閉じていくローパス: 開始時は約12kHz、dampingが強いほど早く閉じる
+    const startCoef = 1 - Math.exp(-2 * Math.PI * 12000 / sampleRate);
+    const closeRate = damping * 8 / rt60;
+
+    const commonAmount = Math.sqrt(1 - spread);
+    const independentAmount = Math.sqrt(spread);
+    const lowpass = [0, 0];
+
+    for (let i = 0; i < tailLength; i++) {
+        const t = i / sampleRate;
+        const envelope = Math.exp(-decayRate * t);
+        const coef = startCoef * Math.exp(-closeRate * t) + 0.01;
+        const common = Math.random() * 2 - 1;
+
+        for (let c = 0; c < 2; c++) {
+            const raw = common * commonAmount + (Math.random() * 2 - 1) * independentAmount;
+            lowpass[c] += coef * (raw - lowpass[c]);
+            channels[c][offset + i] = lowpass[c] * envelope;
+        }
+    }
+
+    // 初期反射: 部屋が大きいほど間隔が広い (5ms - 80ms)
+    const early = Math.max(0, Math.min(settings.early, 1));
+    if (early > 0) {
+        const window = (0.005 + settings.size * 0.075) * sampleRate;
+        for (let k = 0; k < EARLY_REFLECTIONS; k++) {
+            const amplitude = early * 0.8 * Math.pow(0.8, k) * (Math.random() < 0.5 ? -1 : 1);
+            for (let c = 0; c < 2; c++) {
+                // spreadが大きいほど左右で到達時間がずれる
+                const jitter = (Math.random() - 0.5) * spread * 0.3;
+                const pos = offset + Math.floor(window * ((k + 1) / EARLY_REFLECTIONS + jitter / EARLY_REFLECTIONS));
+                if (pos >= 0 && pos < length) channels[c][pos] += amplitude;
+            }
+        }
+    }
+
+    normalizeImpulse(impulse);
+    return impulse;
+}
+
+// 総エネルギーを従来IRに合わせる
+export function normalizeImpulse(impulse: AudioBuffer) {
+    const target = LEGACY_ENERGY_PER_SAMPLE_RATE * impulse.sampleRate;
+    for (let c = 0; c < impulse.numberOfChannels; c++) {
+        const data = impulse.getChannelData(c);
+        let energy = 0;
+        for (let i = 0; i < data.length; i++) energy += data[i] * data[i];
+        if (energy === 0) continue;
+        const scale = Math.sqrt(target / energy);
+        for (let i = 0; i < data.length; i++) data[i] *= scale;
+    }
+}
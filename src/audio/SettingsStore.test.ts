@@ -0,0 +1,134 @@
+// SettingsStore.test.ts
+// 取り消し・やり直し、スライダー操作のまとめ方、設定値の比較を確かめる
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SettingsStore, isSameValue, pickSettingsState } from './SettingsStore';
+import { createDefaultSlotData } from './SlotSchema';
+
+describe('SettingsStore', () => {
+    let time: number;
+    let store: SettingsStore;
+
+    beforeEach(() => {
+        time = 0;
+        store = new SettingsStore(pickSettingsState(createDefaultSlotData()), () => time);
+    });
+
+    it('notifies only the changed keys', () => {
+        const listener = vi.fn();
+        store.subscribe(listener);
+
+        store.update({ volume: 0.5, density: store.get().density });
+        store.update({ volume: 0.5 });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][1]).toEqual(['volume']);
+        expect(listener.mock.calls[0][2].volume).toBe(0.1);
+    });
+
+    it('undoes and redoes each change', () => {
+        store.update({ volume: 0.2 });
+        store.update({ volume: 0.3 });
+
+        expect(store.undo()).toBe(true);
+        expect(store.get().volume).toBe(0.2);
+        expect(store.undo()).toBe(true);
+        expect(store.get().volume).toBe(0.1);
+        expect(store.undo()).toBe(false);
+
+        expect(store.redo()).toBe(true);
+        expect(store.get().volume).toBe(0.2);
+        expect(store.redo()).toBe(true);
+        expect(store.get().volume).toBe(0.3);
+        expect(store.redo()).toBe(false);
+    });
+
+    it('clears redo after a new change', () => {
+        store.update({ volume: 0.2 });
+        store.undo();
+        store.update({ density: 0.5 });
+
+        expect(store.canRedo()).toBe(false);
+    });
+
+    it('merges changes of the same group within the merge interval', () => {
+        store.update({ volume: 0.2 }, { group: 'volume' });
+        time = 500;
+        store.update({ volume: 0.3 }, { group: 'volume' });
+        time = 1400;
+        store.update({ volume: 0.4 }, { group: 'volume' });
+
+        store.undo();
+        expect(store.get().volume).toBe(0.1);
+        expect(store.canUndo()).toBe(false);
+    });
+
+    it('does not merge changes after a pause or from another group', () => {
+        store.update({ volume: 0.2 }, { group: 'volume' });
+        time = 1000;
+        store.update({ volume: 0.3 }, { group: 'volume' });
+        time = 1100;
+        store.update({ density: 0.5 }, { group: 'density' });
+
+        store.undo();
+        expect(store.get()).toMatchObject({ volume: 0.3, density: 0 });
+        store.undo();
+        expect(store.get().volume).toBe(0.2);
+        store.undo();
+        expect(store.get().volume).toBe(0.1);
+    });
+
+    it('does not record changes without history', () => {
+        store.update({ volume: 0.2 }, { history: 'none' });
+
+        expect(store.canUndo()).toBe(false);
+        expect(store.get().volume).toBe(0.2);
+    });
+
+    it('clears redo after a change without history', () => {
+        store.update({ volume: 0.2 });
+        store.undo();
+        store.update({ density: 0.5 }, { history: 'none' });
+
+        // やり直すと記録しなかった変更より前の状態 (density: 0) に戻ってしまう
+        expect(store.redo()).toBe(false);
+        expect(store.get()).toMatchObject({ volume: 0.1, density: 0.5 });
+    });
+
+    it('undoes gradual changes after a checkpoint in one step', () => {
+        store.checkpoint();
+        store.update({ volume: 0.2 }, { history: 'none' });
+        store.update({ volume: 0.3 }, { history: 'none' });
+
+        store.undo();
+        expect(store.get().volume).toBe(0.1);
+    });
+
+    it('tracks changes from the baseline', () => {
+        expect(store.isDirty()).toBe(false);
+        store.setBaseline();
+        store.update({ volume: 0.2, eq: store.get().eq.map(() => 3) });
+
+        expect(store.getChangedFromBaseline()).toEqual(['eq', 'volume']);
+        store.update({ volume: 0.1, eq: store.get().eq.map(() => 0) });
+        expect(store.isDirty()).toBe(false);
+    });
+});
+
+describe('isSameValue', () => {
+    it('compares objects regardless of key order', () => {
+        expect(isSameValue({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 })).toBe(true);
+        expect(isSameValue({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [2, 1] } })).toBe(false);
+    });
+
+    it('treats undefined values as missing keys', () => {
+        expect(isSameValue({ type: 'user', userIrId: undefined }, { type: 'user' })).toBe(true);
+        expect(isSameValue({ type: 'user', userIrId: 'ir' }, { type: 'user' })).toBe(false);
+    });
+
+    it('does not treat arrays and objects as equal', () => {
+        expect(isSameValue([], {})).toBe(false);
+        expect(isSameValue([1], [1, 2])).toBe(false);
+        expect(isSameValue(null, {})).toBe(false);
+    });
+});
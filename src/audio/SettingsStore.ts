@@ -0,0 +1,194 @@
+// SettingsStore.ts
+// マスキング設定の一元管理
+// UIの操作はストアを更新し、エンジンとUIはストアの変更を購読して反映する
+// ユーザー操作の取り消し・やり直しと、読み込んだプリセットからの変更の有無もここで扱う
+
+import type { CustomSlotData } from './SlotSchema';
+
+// ストアで管理する項目
+// Auto MaskingのON/OFF・検出モード・ユーザー定義バンドはマイクやエンジン側の状態と結びつくため含めない
+export const SETTINGS_KEYS = [
+    'mix', 'eq', 'eqBandCount',
+    'volume', 'noiseVolume', 'soundVolume', 'soundscapes',
+    'density', 'stereoWidth', 'fluctuationEnabled', 'fluctuationStrength',
+    'tinnitusNotch', 'toneLayer', 'room',
+    'sensitivity', 'adaptiveSpeed', 'adaptiveDecay', 'reactiveEnabled', 'reactiveStrength', 'reactiveDuration'
+] as const;
+
+export type SettingsKey = typeof SETTINGS_KEYS[number];
+export type SettingsState = Pick<CustomSlotData, SettingsKey>;
+
+/**
+ * @param changed 値が変わった項目
+ * @param previous 変更前の状態
+ */
+export type SettingsListener = (state: Readonly<SettingsState>, changed: readonly SettingsKey[], previous: Readonly<SettingsState>) => void;
+
+export interface SettingsUpdateOptions {
+    // push: 取り消せる変更として記録する (既定) / none: 記録しない (補間の途中経過など。やり直しの履歴は消える)
+    history?: 'push' | 'none';
+    // 同じgroupの変更が続く間は1回の操作にまとめる (スライダーのドラッグなど)
+    group?: string;
+}
+
+// 取り消せる操作の数
+const HISTORY_LIMIT = 100;
+// この間隔以内に続いた同じgroupの変更はまとめる
+const GROUP_MERGE_MS = 1000;
+
+/**
+ * 保存データなどからストアの項目だけを取り出す (コピーを返す)
+ */
+export function pickSettingsState(data: SettingsState): SettingsState {
+    const state: Partial<Record<SettingsKey, unknown>> = {};
+    SETTINGS_KEYS.forEach(key => {
+        state[key] = structuredClone(data[key]);
+    });
+    return state as SettingsState;
+}
+
+/**
+ * 設定値の構造の比較 (オブジェクトのキーの順序は問わず、値がundefinedのキーはないものとみなす)
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+    if (Array.isArray(a) || Array.isArray(b)) {
+        if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+        return a.every((value, i) => isSameValue(value, b[i]));
+    }
+
+    const recordA = a as Record<string, unknown>;
+    const recordB = b as Record<string, unknown>;
+    const keysA = Object.keys(recordA).filter(key => recordA[key] !== undefined);
+    const keysB = Object.keys(recordB).filter(key => recordB[key] !== undefined);
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every(key => isSameValue(recordA[key], recordB[key]));
+}
+
+function diffSettings(a: SettingsState, b: SettingsState): SettingsKey[] {
+    return SETTINGS_KEYS.filter(key => !isSameValue(a[key], b[key]));
+}
+
+export class SettingsStore {
+    // 状態は変更のたびに作り直す (履歴に積んだ状態は書き換えない)
+    private state: SettingsState;
+    private listeners: Set<SettingsListener> = new Set();
+
+    private undoStack: SettingsState[] = [];
+    private redoStack: SettingsState[] = [];
+    private lastGroup: string | null = null;
+    private lastGroupTime = 0;
+
+    // 読み込んだ (保存した) プリセットの状態
+    private baseline: SettingsState | null = null;
+
+    private now: () => number;
+
+    constructor(initial: SettingsState, now: () => number = () => Date.now()) {
+        this.state = pickSettingsState(initial);
+        this.now = now;
+    }
+
+    get(): Readonly<SettingsState> {
+        return this.state;
+    }
+
+    /**
+     * 変更を購読する
+     * @returns 購読をやめる関数
+     */
+    subscribe(listener: SettingsListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * 一部の項目を更新する (値が変わらなければ何もしない)
+     */
+    update(patch: Partial<SettingsState>, options: SettingsUpdateOptions = {}) {
+        const next: SettingsState = { ...this.state, ...structuredClone(patch) };
+        const changed = diffSettings(this.state, next);
+        if (changed.length === 0) return;
+
+        if ((options.history ?? 'push') === 'push') {
+            this.record(options.group);
+        } else {
+            // 記録しない変更の後にやり直すと、その変更より前の状態に飛んでしまうため捨てる
+            this.redoStack = [];
+        }
+        this.commit(next, changed);
+    }
+
+    /**
+     * 現在の状態を取り消しの単位として記録する
+     * 記録せずに少しずつ変えていく前 (プリセットの切り替えなど) に呼ぶ
+     */
+    checkpoint() {
+        this.record();
+    }
+
+    undo(): boolean {
+        const state = this.undoStack.pop();
+        if (!state) return false;
+        this.redoStack.push(this.state);
+        this.lastGroup = null;
+        this.commit(state, diffSettings(this.state, state));
+        return true;
+    }
+
+    redo(): boolean {
+        const state = this.redoStack.pop();
+        if (!state) return false;
+        this.undoStack.push(this.state);
+        this.lastGroup = null;
+        this.commit(state, diffSettings(this.state, state));
+        return true;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * 変更の有無の比較元を決める (プリセットを読み込んだ・保存したとき)
+     * nullで比較元なし (常に変更なし扱い)
+     */
+    setBaseline(state: SettingsState | null = this.state) {
+        this.baseline = state ? pickSettingsState(state) : null;
+    }
+
+    // 比較元のプリセットから変わった項目
+    getChangedFromBaseline(): SettingsKey[] {
+        return this.baseline ? diffSettings(this.baseline, this.state) : [];
+    }
+
+    isDirty(): boolean {
+        return this.getChangedFromBaseline().length > 0;
+    }
+
+    private record(group?: string) {
+        const time = this.now();
+        const merge = group !== undefined && group === this.lastGroup && time - this.lastGroupTime < GROUP_MERGE_MS;
+        this.lastGroup = group ?? null;
+        this.lastGroupTime = time;
+        if (merge) return;
+
+        this.undoStack.push(this.state);
+        if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    private commit(next: SettingsState, changed: SettingsKey[]) {
+        const previous = this.state;
+        this.state = next;
+        this.listeners.forEach(listener => listener(next, changed, previous));
+    }
+}
@@ -0,0 +1,203 @@
+// SlotSchema.test.ts
+// バージョン欄のない旧形式 (V1 - V14) の移行、範囲外の値の補正、壊れた保存データの退避を確かめる
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MIX, SLOT_SCHEMA_VERSION, createDefaultSlotData, getSlotBackup, loadSlots, parseSlotData } from './SlotSchema';
+
+const STORAGE_KEY = 'soundmasking_custom_slots_v2';
+
+// 各バージョンで保存されていた項目 (V1 -> V14 の順に追加されていく)
+const LEGACY_FIELDS: ((slot: Record<string, unknown>) => Record<string, unknown>)[] = [
+    // V1: 単一のノイズ種類
+    () => ({ noiseType: 1, eq: [1, 2, 3, 4, 5], volume: 0.4 }),
+    // V2: ミキサー
+    ({ noiseType: _noiseType, ...slot }) => ({ ...slot, mix: { w: 0.2, p: 0.3, b: 0.4, d: 0.1 } }),
+    // V3: ノイズ / Soundscape音量
+    (slot) => ({ ...slot, noiseVolume: 0.8, soundVolume: 0.6, soundscapes: { rain_window: 0.5 } }),
+    // V4: Auto Masking
+    (slot) => ({ ...slot, autoMode: true, detectionMode: 'detailed', simpleModeId: 'footsteps', detailedBands: ['footsteps'], adaptiveSpeed: 0.7, adaptiveDecay: 0.3, reactiveEnabled: false, sensitivity: 0.6, reactiveStrength: 0.2, reactiveDuration: 15 }),
+    // V5: 1/f Fluctuation
+    (slot) => ({ ...slot, fluctuationEnabled: true, fluctuationStrength: 0.7 }),
+    // V6: Density
+    (slot) => ({ ...slot, density: 0.4 }),
+    // V7: Stereo Width
+    (slot) => ({ ...slot, stereoWidth: 0.5 }),
+    // V8: Slope / Grey
+    (slot) => ({ ...slot, mix: { ...(slot.mix as object), s: 0.1, sf: 60, r: 0.2, rf: 80, rs: 2, sl: 0.3, sd: -6, g: 0.1 } }),
+    // V9: EQバンド構成
+    (slot) => ({ ...slot, eqBandCount: 10, eq: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] }),
+    // V10: Tinnitus Notch
+    (slot) => ({ ...slot, tinnitusNotch: { enabled: true, frequency: 6000, depth: 20, width: 1.5 } }),
+    // V11: Tone Layer
+    (slot) => ({ ...slot, toneLayer: { mode: 'isochronic', carrier: 300, beat: 6, beatEnd: 4, rampMinutes: 30, level: 0.2 } }),
+    // V12: Room
+    (slot) => ({ ...slot, room: { type: 'hall', size: 0.8, damping: 0.3, predelay: 20, early: 0.5, spread: 0.7 } }),
+    // V13: ユーザー定義の検知バンド・モード
+    (slot) => ({ ...slot, customDetection: { bands: [{ id: 'user_band_1', name: 'Thud', nameJa: 'ドン', minFreq: 40, maxFreq: 70 }], modes: [] } }),
+    // V14: Reactiveブーストの掛け方
+    (slot) => ({ ...slot, reactiveResponses: { footsteps: 'low' } })
+];
+
+function legacySlot(version: number): Record<string, unknown> {
+    return LEGACY_FIELDS.slice(0, version).reduce<Record<string, unknown>>((slot, add) => add(slot), {});
+}
+
+// localStorageの代わり
+class MemoryStorage {
+    private items = new Map<string, string>();
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+    setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+    removeItem(key: string) {
+        this.items.delete(key);
+    }
+}
+
+describe('parseSlotData', () => {
+    it.each(LEGACY_FIELDS.map((_, i) => i + 1))('migrates the V%i shape to the current schema', (version) => {
+        const slot = parseSlotData(legacySlot(version));
+
+        expect(slot).not.toBeNull();
+        expect(slot!.version).toBe(SLOT_SCHEMA_VERSION);
+        expect(slot!.volume).toBe(0.4);
+        expect(slot!.eq).toHaveLength(slot!.eqBandCount);
+        // V1のnoiseTypeはミキサーに置き換わる
+        expect(slot).not.toHaveProperty('noiseType');
+    });
+
+    it('converts the V1 noise type into a mixer setting', () => {
+        const slot = parseSlotData(legacySlot(1))!;
+
+        expect(slot.mix).toEqual({ ...DEFAULT_MIX, w: 0, p: 1, b: 0 });
+        expect(slot.eqBandCount).toBe(5);
+        expect(slot.eq).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('fills items added after the saved version with defaults', () => {
+        const slot = parseSlotData(legacySlot(3))!;
+        const defaults = createDefaultSlotData();
+
+        expect(slot.soundscapes).toEqual({ rain_window: 0.5 });
+        expect(slot.autoMode).toBe(false);
+        expect(slot.room).toEqual(defaults.room);
+        expect(slot.tinnitusNotch).toEqual(defaults.tinnitusNotch);
+        expect(slot.reactiveResponses).toEqual(defaults.reactiveResponses);
+    });
+
+    it('keeps every item of the V14 shape', () => {
+        const slot = parseSlotData(legacySlot(14))!;
+
+        expect(slot.mix).toEqual({ w: 0.2, p: 0.3, b: 0.4, d: 0.1, s: 0.1, sf: 60, r: 0.2, rf: 80, rs: 2, sl: 0.3, sd: -6, g: 0.1 });
+        expect(slot.eqBandCount).toBe(10);
+        expect(slot.autoMode).toBe(true);
+        expect(slot.detectionMode).toBe('detailed');
+        expect(slot.stereoWidth).toBe(0.5);
+        expect(slot.toneLayer.mode).toBe('isochronic');
+        expect(slot.room.type).toBe('hall');
+        expect(slot.customDetection.bands.map(b => b.id)).toEqual(['user_band_1']);
+        expect(slot.reactiveResponses.footsteps).toBe('low');
+    });
+
+    it('rejects data without any volume settings', () => {
+        expect(parseSlotData(null)).toBeNull();
+        expect(parseSlotData([])).toBeNull();
+        expect(parseSlotData({ volume: 0.5 })).toBeNull();
+    });
+
+    it('clamps out-of-range values to the slider ranges', () => {
+        const slot = parseSlotData({
+            version: SLOT_SCHEMA_VERSION,
+            mix: { w: 50, p: -1, b: 1, d: 0, s: 2, sf: 10, r: 0, rf: 1000, rs: 0, sl: 0, sd: -20, g: 0 },
+            eqBandCount: 5,
+            eq: [200, -200, 3, 'loud', 0],
+            volume: 5,
+            reactiveDuration: 100,
+            tinnitusNotch: { enabled: true, frequency: 50000, depth: 100, width: 0 },
+            toneLayer: { mode: 'binaural', carrier: 5, beat: 100, beatEnd: 0, rampMinutes: -10, level: 3 },
+            room: { type: 'hall', size: 5, damping: -1, predelay: 1000, early: 2, spread: -2 }
+        })!;
+
+        expect(slot.mix).toMatchObject({ w: 1, p: 0, s: 1, sf: 40, rf: 250, rs: 0.1, sd: -9 });
+        expect(slot.eq).toEqual([12, -12, 3, 0, 0]);
+        expect(slot.volume).toBe(1);
+        expect(slot.reactiveDuration).toBe(30);
+        expect(slot.tinnitusNotch).toEqual({ enabled: true, frequency: 16000, depth: 40, width: 0.5 });
+        expect(slot.toneLayer).toMatchObject({ carrier: 100, beat: 40, beatEnd: 0.5, rampMinutes: 0, level: 1 });
+        expect(slot.room).toMatchObject({ size: 1, damping: 0, predelay: 100, early: 1, spread: 0 });
+    });
+
+    it('clamps user band frequencies and drops bands left without a range', () => {
+        const band = { name: 'Band', nameJa: 'バンド' };
+        const slot = parseSlotData({
+            version: SLOT_SCHEMA_VERSION,
+            mix: {},
+            customDetection: {
+                bands: [
+                    { ...band, id: 'below', minFreq: -50, maxFreq: 70 },
+                    { ...band, id: 'above', minFreq: 8000, maxFreq: 1e9 },
+                    { ...band, id: 'outside', minFreq: 30000, maxFreq: 40000 },
+                    { ...band, id: 'reversed', minFreq: 500, maxFreq: 100 },
+                    { ...band, id: 'infinite', minFreq: 100, maxFreq: Infinity }
+                ],
+                modes: []
+            }
+        })!;
+
+        expect(slot.customDetection.bands.map(b => [b.id, b.minFreq, b.maxFreq])).toEqual([
+            ['below', 20, 70],
+            ['above', 8000, 20000]
+        ]);
+    });
+});
+
+describe('loadSlots', () => {
+    let storage: MemoryStorage;
+
+    beforeEach(() => {
+        storage = new MemoryStorage();
+        vi.stubGlobal('localStorage', storage);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it('backs up corrupt JSON and starts empty', () => {
+        const raw = '{"1": {"mix": ';
+        storage.setItem(STORAGE_KEY, raw);
+
+        const result = loadSlots();
+
+        expect(result).toEqual({ slots: {}, dropped: ['*'] });
+        expect(getSlotBackup()).toBe(raw);
+        expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('keeps the readable slots and backs up the original data', () => {
+        const raw = JSON.stringify({ 1: legacySlot(14), 2: 'broken' });
+        storage.setItem(STORAGE_KEY, raw);
+
+        const result = loadSlots();
+
+        expect(Object.keys(result.slots)).toEqual(['1']);
+        expect(result.dropped).toEqual(['2']);
+        expect(getSlotBackup()).toBe(raw);
+        // 読めた分だけで保存し直す
+        expect(Object.keys(JSON.parse(storage.getItem(STORAGE_KEY)!))).toEqual(['1']);
+    });
+
+    it('does not back up data that loads cleanly', () => {
+        storage.setItem(STORAGE_KEY, JSON.stringify({ 1: legacySlot(5) }));
+
+        const result = loadSlots();
+
+        expect(result.dropped).toEqual([]);
+        expect(result.slots['1'].version).toBe(SLOT_SCHEMA_VERSION);
+        expect(getSlotBackup()).toBeNull();
+    });
+});
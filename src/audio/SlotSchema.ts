@@ -0,0 +1,405 @@
+// SlotSchema.ts
+// カスタムスロットの保存形式
+// スロットごとにスキーマのバージョンを持ち、読み込み時に順に移行 (migration) してから
+// 型・範囲を検証して既定値で補う。壊れたデータは退避してから読める分だけ復旧する
+
+import { DEFAULT_TINNITUS_NOTCH, DEFAULT_TONE_LAYER, type TinnitusNotchSettings, type ToneLayerSettings } from './AudioEngine';
+import { isEqBandCount, type EqBandCount } from './EqBands';
+import { USER_BAND_MAX_FREQ, USER_BAND_MIN_FREQ, type CustomDetection, type DetectionBand, type SimpleMode } from './ImpactDetector';
+import { DEFAULT_REACTIVE_RESPONSES, isReactiveResponseTarget, type ReactiveResponseMap } from './ReactiveResponse';
+import { DEFAULT_ROOM, type RoomSettings, type RoomType } from './RoomImpulse';
+
+// 旧カスタムスロット (プリセットライブラリへの初回移行でのみ読む)
+const STORAGE_KEY = 'soundmasking_custom_slots_v2';
+// 読めなかった元データの退避先 (最後に見つかったもの)
+const BACKUP_KEY = 'soundmasking_custom_slots_backup_v1';
+
+// 現在のスキーマ
+// 1 - 14 はバージョン欄がなかった頃の形式 (V3 - V14の追加項目から推定する)
+export const SLOT_SCHEMA_VERSION = 15;
+
+export interface SlotMix {
+    w: number; p: number; b: number; d: number;
+    s: number;  // Sub Bass
+    sf: number; // Sub Bass周波数
+    r: number;  // Rumble
+    rf: number; // Rumble周波数
+    rs: number; // Rumble速度
+    sl: number; // Slope (V8)
+    sd: number; // Slope dB/oct (V8)
+    g: number;  // Grey (V8)
+}
+
+export type DetectionModeKind = 'simple' | 'detailed';
+
+export interface CustomSlotData {
+    version: number;
+    mix: SlotMix;
+    eq: number[];
+    eqBandCount: EqBandCount; // V9 (それ以前は5バンド)
+    volume: number;
+    noiseVolume: number; // V3
+    soundVolume: number; // V3
+    soundscapes: Record<string, number>; // V3: Sound ID -> volume
+
+    // V4: Auto Masking (タイマーは含めない)
+    autoMode: boolean;
+    detectionMode: DetectionModeKind;
+    simpleModeId: string;
+    detailedBands: string[];
+    adaptiveSpeed: number;
+    adaptiveDecay: number;
+    reactiveEnabled: boolean;
+    sensitivity: number;
+    reactiveStrength: number;
+    reactiveDuration: number;
+
+    fluctuationEnabled: boolean;  // V5
+    fluctuationStrength: number;  // V5
+    density: number;              // V6
+    stereoWidth: number;          // V7
+    tinnitusNotch: TinnitusNotchSettings; // V10
+    toneLayer: ToneLayerSettings;         // V11
+    room: RoomSettings;                   // V12 (IRファイル本体はIndexedDB)
+    customDetection: CustomDetection;     // V13
+    reactiveResponses: ReactiveResponseMap; // V14
+
+    savedAt: string;
+}
+
+export interface SlotLoadResult {
+    slots: Record<string, CustomSlotData>;
+    // 読めずに捨てたスロットID ('*' = 全体が読めなかった)
+    dropped: string[];
+}
+
+type RawSlot = Record<string, unknown>;
+
+// UIの初期値と同じ
+export const DEFAULT_MIX: SlotMix = { w: 0, p: 0, b: 1.0, d: 0, s: 0, sf: 55, r: 0, rf: 55, rs: 1.0, sl: 0, sd: -3, g: 0 };
+const LEGACY_EQ_BAND_COUNT: EqBandCount = 5;
+// EQスライダーの範囲 (dB)
+const EQ_GAIN_MIN = -12;
+const EQ_GAIN_MAX = 12;
+const ROOM_TYPE_IDS: RoomType[] = ['classic', 'small', 'bedroom', 'studio', 'hall', 'cathedral', 'custom', 'user'];
+
+function isRecord(value: unknown): value is RawSlot {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ==========================================
+// 移行: MIGRATIONS[n] でバージョン n -> n + 1
+// 欠けている項目だけを補う (推定したバージョンがずれていても壊さない)
+// ==========================================
+
+const MIGRATIONS: Record<number, (slot: RawSlot) => RawSlot> = {
+    // V1: noiseType (0: White / 1: Pink / 2: Brown) -> ミキサー
+    1: (slot) => {
+        if (isRecord(slot.mix) || typeof slot.noiseType !== 'number') return slot;
+        const { noiseType, ...rest } = slot;
+        return {
+            ...rest,
+            mix: { ...DEFAULT_MIX, w: noiseType === 0 ? 1 : 0, p: noiseType === 1 ? 1 : 0, b: noiseType === 0 || noiseType === 1 ? 0 : 1 }
+        };
+    },
+    // V3: ノイズ / Soundscape音量
+    2: (slot) => ({ noiseVolume: 1.0, soundVolume: 1.0, soundscapes: {}, ...slot }),
+    // V4: Auto Masking (以前のスロットは未使用として保存)
+    3: (slot) => ({
+        autoMode: false,
+        detectionMode: 'simple',
+        simpleModeId: 'all',
+        detailedBands: [],
+        adaptiveSpeed: 0.5,
+        adaptiveDecay: 0.5,
+        reactiveEnabled: true,
+        sensitivity: 0.5,
+        reactiveStrength: 0.3,
+        reactiveDuration: 10,
+        ...slot
+    }),
+    // V5: 1/f Fluctuation
+    4: (slot) => ({ fluctuationEnabled: false, fluctuationStrength: 0.5, ...slot }),
+    // V6: Density
+    5: (slot) => ({ density: 0, ...slot }),
+    // V7: Stereo Width
+    6: (slot) => ({ stereoWidth: 1.0, ...slot }),
+    // V8: Slope / Grey (Sub / Rumbleの各項目もここで補う)
+    7: (slot) => ({ ...slot, mix: { ...DEFAULT_MIX, ...(isRecord(slot.mix) ? slot.mix : {}) } }),
+    // V9: EQバンド構成 (以前は5バンド固定)
+    8: (slot) => ({ eqBandCount: LEGACY_EQ_BAND_COUNT, ...slot }),
+    // V10: Tinnitus Notch
+    9: (slot) => ({ tinnitusNotch: { ...DEFAULT_TINNITUS_NOTCH }, ...slot }),
+    // V11: Tone Layer
+    10: (slot) => ({ toneLayer: { ...DEFAULT_TONE_LAYER }, ...slot }),
+    // V12: Density Room (以前は従来IR)
+    11: (slot) => ({ room: { ...DEFAULT_ROOM }, ...slot }),
+    // V13: ユーザー定義の検知バンド・モード
+    12: (slot) => ({ customDetection: { bands: [], modes: [] }, ...slot }),
+    // V14: Reactiveブーストの掛け方
+    13: (slot) => ({ reactiveResponses: { ...DEFAULT_REACTIVE_RESPONSES }, ...slot }),
+    // V15: バージョン欄
+    14: (slot) => slot
+};
+
+// バージョン欄のないデータは、含まれている項目から保存時のバージョンを推定する
+function detectLegacyVersion(slot: RawSlot): number {
+    const mix = isRecord(slot.mix) ? slot.mix : {};
+    if (slot.reactiveResponses !== undefined) return 14;
+    if (slot.customDetection !== undefined) return 13;
+    if (slot.room !== undefined) return 12;
+    if (slot.toneLayer !== undefined) return 11;
+    if (slot.tinnitusNotch !== undefined) return 10;
+    if (slot.eqBandCount !== undefined) return 9;
+    if (mix.sl !== undefined) return 8;
+    if (slot.stereoWidth !== undefined) return 7;
+    if (slot.density !== undefined) return 6;
+    if (slot.fluctuationEnabled !== undefined) return 5;
+    if (slot.autoMode !== undefined) return 4;
+    if (slot.soundscapes !== undefined) return 3;
+    if (slot.mix !== undefined) return 2;
+    return 1;
+}
+
+function migrateSlot(slot: RawSlot): RawSlot {
+    let version = typeof slot.version === 'number' ? Math.max(1, Math.floor(slot.version)) : detectLegacyVersion(slot);
+    let data = slot;
+    while (version < SLOT_SCHEMA_VERSION) {
+        data = MIGRATIONS[version](data);
+        version++;
+    }
+    return data;
+}
+
+// ==========================================
+// 検証: 型が違う・範囲外の値は既定値・範囲内に直す
+// ==========================================
+
+function num(value: unknown, fallback: number, min = -Infinity, max = Infinity): number {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(value, max)) : fallback;
+}
+
+function bool(value: unknown, fallback: boolean): boolean {
+    return typeof value === 'boolean' ? value : fallback;
+}
+
+function str(value: unknown, fallback: string): string {
+    return typeof value === 'string' ? value : fallback;
+}
+
+// 既定値と同じ型の項目だけを取り込む
+function withDefaults<T extends object>(defaults: T, value: unknown): T {
+    const result = { ...defaults };
+    if (!isRecord(value)) return result;
+    for (const key of Object.keys(defaults) as (keyof T)[]) {
+        const v = value[key as string];
+        const d = defaults[key];
+        if (typeof v === typeof d && (typeof v !== 'number' || Number.isFinite(v))) {
+            result[key] = v as T[keyof T];
+        }
+    }
+    return result;
+}
+
+// ファイル・共有リンクから読み込む値は、UIのスライダーの範囲に収める
+function validateMix(value: unknown): SlotMix {
+    const mix = withDefaults(DEFAULT_MIX, value);
+    const level = (key: 'w' | 'p' | 'b' | 'd' | 's' | 'r' | 'sl' | 'g') => num(mix[key], DEFAULT_MIX[key], 0, 1);
+    return {
+        w: level('w'),
+        p: level('p'),
+        b: level('b'),
+        d: level('d'),
+        s: level('s'),
+        sf: num(mix.sf, DEFAULT_MIX.sf, 40, 200),
+        r: level('r'),
+        rf: num(mix.rf, DEFAULT_MIX.rf, 40, 250),
+        rs: num(mix.rs, DEFAULT_MIX.rs, 0.1, 5),
+        sl: level('sl'),
+        sd: num(mix.sd, DEFAULT_MIX.sd, -9, 6),
+        g: level('g')
+    };
+}
+
+function validateNotch(value: unknown): TinnitusNotchSettings {
+    const notch = withDefaults(DEFAULT_TINNITUS_NOTCH, value);
+    return {
+        enabled: notch.enabled,
+        frequency: num(notch.frequency, DEFAULT_TINNITUS_NOTCH.frequency, 100, 16000),
+        depth: num(notch.depth, DEFAULT_TINNITUS_NOTCH.depth, 6, 40),
+        width: num(notch.width, DEFAULT_TINNITUS_NOTCH.width, 0.5, 2)
+    };
+}
+
+function validateToneLayer(value: unknown): ToneLayerSettings {
+    const tone = withDefaults(DEFAULT_TONE_LAYER, value);
+    return {
+        mode: tone.mode === 'binaural' || tone.mode === 'isochronic' ? tone.mode : DEFAULT_TONE_LAYER.mode,
+        carrier: num(tone.carrier, DEFAULT_TONE_LAYER.carrier, 100, 1000),
+        beat: num(tone.beat, DEFAULT_TONE_LAYER.beat, 0.5, 40),
+        beatEnd: num(tone.beatEnd, DEFAULT_TONE_LAYER.beatEnd, 0.5, 40),
+        rampMinutes: num(tone.rampMinutes, DEFAULT_TONE_LAYER.rampMinutes, 0, 90),
+        level: num(tone.level, DEFAULT_TONE_LAYER.level, 0, 1)
+    };
+}
+
+function validateRoom(value: unknown): RoomSettings {
+    const room = withDefaults(DEFAULT_ROOM, value);
+    if (!ROOM_TYPE_IDS.includes(room.type)) room.type = DEFAULT_ROOM.type;
+    room.size = num(room.size, DEFAULT_ROOM.size, 0, 1);
+    room.damping = num(room.damping, DEFAULT_ROOM.damping, 0, 1);
+    room.predelay = num(room.predelay, DEFAULT_ROOM.predelay, 0, 100);
+    room.early = num(room.early, DEFAULT_ROOM.early, 0, 1);
+    room.spread = num(room.spread, DEFAULT_ROOM.spread, 0, 1);
+    if (isRecord(value) && typeof value.userIrId === 'string') {
+        room.userIrId = value.userIrId;
+        room.userIrName = str(value.userIrName, '');
+    }
+    return room;
+}
+
+function validateCustomDetection(value: unknown): CustomDetection {
+    const custom = isRecord(value) ? value : {};
+    // 周波数はバンド編集画面と同じ範囲に収め、有限の数でない・範囲外で幅がなくなったバンドは捨てる
+    const bands = (Array.isArray(custom.bands) ? custom.bands : []).filter((b): b is DetectionBand =>
+        isRecord(b) && typeof b.id === 'string' && typeof b.name === 'string' && typeof b.nameJa === 'string' &&
+        typeof b.minFreq === 'number' && typeof b.maxFreq === 'number'
+    ).map(b => ({
+        ...b,
+        minFreq: num(b.minFreq, NaN, USER_BAND_MIN_FREQ, USER_BAND_MAX_FREQ),
+        maxFreq: num(b.maxFreq, NaN, USER_BAND_MIN_FREQ, USER_BAND_MAX_FREQ),
+        description: str(b.description, '')
+    })).filter(b => b.minFreq < b.maxFreq);
+    const modes = (Array.isArray(custom.modes) ? custom.modes : []).filter((m): m is SimpleMode =>
+        isRecord(m) && typeof m.id === 'string' && typeof m.name === 'string' && typeof m.nameJa === 'string' &&
+        Array.isArray(m.bandIds) && m.bandIds.every(id => typeof id === 'string')
+    );
+    return { bands, modes };
+}
+
+function validateSlot(slot: RawSlot): CustomSlotData {
+    const eqBandCount = isEqBandCount(slot.eqBandCount) ? slot.eqBandCount : LEGACY_EQ_BAND_COUNT;
+    const rawEq = Array.isArray(slot.eq) ? slot.eq : [];
+    const eq = Array.from({ length: eqBandCount }, (_, i) => num(rawEq[i], 0, EQ_GAIN_MIN, EQ_GAIN_MAX));
+
+    const soundscapes: Record<string, number> = {};
+    if (isRecord(slot.soundscapes)) {
+        for (const [id, volume] of Object.entries(slot.soundscapes)) {
+            if (typeof volume === 'number' && Number.isFinite(volume)) soundscapes[id] = Math.max(0, Math.min(volume, 1));
+        }
+    }
+
+    const reactiveResponses: ReactiveResponseMap = { ...DEFAULT_REACTIVE_RESPONSES };
+    if (isRecord(slot.reactiveResponses)) {
+        for (const [id, target] of Object.entries(slot.reactiveResponses)) {
+            if (isReactiveResponseTarget(target)) reactiveResponses[id] = target;
+        }
+    }
+
+    return {
+        version: SLOT_SCHEMA_VERSION,
+        mix: validateMix(slot.mix),
+        eq,
+        eqBandCount,
+        volume: num(slot.volume, 0.1, 0, 1),
+        noiseVolume: num(slot.noiseVolume, 1.0, 0, 1),
+        soundVolume: num(slot.soundVolume, 1.0, 0, 1),
+        soundscapes,
+        autoMode: bool(slot.autoMode, false),
+        detectionMode: slot.detectionMode === 'detailed' ? 'detailed' : 'simple',
+        simpleModeId: str(slot.simpleModeId, 'all'),
+        detailedBands: Array.isArray(slot.detailedBands) ? slot.detailedBands.filter((id): id is string => typeof id === 'string') : [],
+        adaptiveSpeed: num(slot.adaptiveSpeed, 0.5, 0, 1),
+        adaptiveDecay: num(slot.adaptiveDecay, 0.5, 0, 1),
+        reactiveEnabled: bool(slot.reactiveEnabled, true),
+        sensitivity: num(slot.sensitivity, 0.5, 0, 1),
+        reactiveStrength: num(slot.reactiveStrength, 0.3, 0, 0.5),
+        reactiveDuration: Math.round(num(slot.reactiveDuration, 10, 5, 30)),
+        fluctuationEnabled: bool(slot.fluctuationEnabled, false),
+        fluctuationStrength: num(slot.fluctuationStrength, 0.5, 0, 1),
+        density: num(slot.density, 0, 0, 1),
+        stereoWidth: num(slot.stereoWidth, 1.0, 0, 1),
+        tinnitusNotch: validateNotch(slot.tinnitusNotch),
+        toneLayer: validateToneLayer(slot.toneLayer),
+        room: validateRoom(slot.room),
+        customDetection: validateCustomDetection(slot.customDetection),
+        reactiveResponses,
+        savedAt: str(slot.savedAt, new Date(0).toISOString())
+    };
+}
+
+// 全項目が初期値の設定 (UIの初期値と同じ)
+export function createDefaultSlotData(): CustomSlotData {
+    return validateSlot({});
+}
+
+/**
+ * 1スロット分の保存データを現在のスキーマに揃える
+ * 新しいバージョンのアプリで保存されたデータも、分かる項目だけ読む
+ * @returns 読めないデータの場合はnull
+ */
+export function parseSlotData(value: unknown): CustomSlotData | null {
+    if (!isRecord(value)) return null;
+    // 必須: 何らかの音量設定
+    if (!isRecord(value.mix) && typeof value.noiseType !== 'number') return null;
+    if (typeof value.version === 'number' && value.version > SLOT_SCHEMA_VERSION) {
+        console.warn(`Slot data version ${value.version} is newer than ${SLOT_SCHEMA_VERSION}`);
+    }
+    return validateSlot(migrateSlot(value));
+}
+
+function backupRaw(raw: string) {
+    try {
+        localStorage.setItem(BACKUP_KEY, raw);
+    } catch (e) {
+        console.error('Failed to back up slot data', e);
+    }
+}
+
+/**
+ * 全スロットを読み込む
+ * 読めないスロットがあった場合は元データを退避し、読めた分だけで保存し直す
+ */
+export function loadSlots(): SlotLoadResult {
+    const result: SlotLoadResult = { slots: {}, dropped: [] };
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return result;
+
+    let stored: unknown;
+    try {
+        stored = JSON.parse(raw);
+    } catch (e) {
+        console.error('Failed to parse slot data', e);
+    }
+    if (!isRecord(stored)) {
+        backupRaw(raw);
+        localStorage.removeItem(STORAGE_KEY);
+        result.dropped.push('*');
+        return result;
+    }
+
+    for (const [id, value] of Object.entries(stored)) {
+        const slot = parseSlotData(value);
+        if (slot) {
+            result.slots[id] = slot;
+        } else {
+            console.error(`Dropped unreadable slot data: ${id}`);
+            result.dropped.push(id);
+        }
+    }
+
+    if (result.dropped.length > 0) {
+        backupRaw(raw);
+        saveSlots(result.slots);
+    }
+    return result;
+}
+
+export function saveSlots(slots: Record<string, CustomSlotData>) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(slots));
+}
+
+// 退避した元データ (なければnull)
+export function getSlotBackup(): string | null {
+    return localStorage.getItem(BACKUP_KEY);
+}
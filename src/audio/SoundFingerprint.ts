@@ -0,0 +1,135 @@
+// SoundFingerprint.ts
+// 繰り返し聞こえる特定の音 (上階のドア・足音など) のスペクトル-時間パターンを学習して照合する
+// 検知プロセッサーが立ち上がりの前後を切り出したスナップショットを送ってくる
+
+// スナップショットの形状 (impact-detector-processor と一致させる)
+export const FINGERPRINT_BANDS = 24;         // 40Hz - 12kHz の対数間隔
+export const FINGERPRINT_PRE_FRAMES = 4;     // 立ち上がり前 (背景の推定に使う)
+export const FINGERPRINT_POST_FRAMES = 28;   // 立ち上がりから約0.45秒
+export const FINGERPRINT_FRAMES = FINGERPRINT_PRE_FRAMES + FINGERPRINT_POST_FRAMES;
+
+// 学習に使う例の数
+export const FINGERPRINT_EXAMPLES = 3;
+// これ以上の類似度で「一致」とする
+export const DEFAULT_MATCH_THRESHOLD = 0.75;
+// 立ち上がり検出のずれを吸収する時間シフト (フレーム)
+const MAX_SHIFT = 2;
+
+export interface SoundFingerprint {
+    id: string;
+    name: string;
+    // 正規化済みパターン (FINGERPRINT_POST_FRAMES x FINGERPRINT_BANDS)
+    pattern: number[];
+    examples: number;
+    threshold: number;
+    // 認識時にReactiveブーストを掛ける
+    mask: boolean;
+    createdAt: string;
+}
+
+export interface FingerprintMatch {
+    fingerprint: SoundFingerprint;
+    confidence: number; // 0.0 - 1.0
+}
+
+/**
+ * スナップショットを照合用のパターンに変換する
+ * 立ち上がり前の平均を背景として差し引き、平均0・ノルム1に正規化する (類似度 = 相関係数)
+ * @param shift 立ち上がり位置のずらし量 (フレーム)
+ */
+function normalizeSnapshot(snapshot: ArrayLike<number>, shift: number = 0): number[] | null {
+    const background = new Array(FINGERPRINT_BANDS).fill(0);
+    for (let t = 0; t < FINGERPRINT_PRE_FRAMES; t++) {
+        for (let b = 0; b < FINGERPRINT_BANDS; b++) {
+            background[b] += snapshot[t * FINGERPRINT_BANDS + b] / FINGERPRINT_PRE_FRAMES;
+        }
+    }
+
+    const pattern: number[] = [];
+    for (let t = 0; t < FINGERPRINT_POST_FRAMES; t++) {
+        // 範囲外は端のフレームで埋める
+        const frame = Math.max(0, Math.min(FINGERPRINT_PRE_FRAMES + t + shift, FINGERPRINT_FRAMES - 1));
+        for (let b = 0; b < FINGERPRINT_BANDS; b++) {
+            pattern.push(Math.max(0, snapshot[frame * FINGERPRINT_BANDS + b] - background[b]));
+        }
+    }
+
+    const mean = pattern.reduce((sum, v) => sum + v, 0) / pattern.length;
+    let norm = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        pattern[i] -= mean;
+        norm += pattern[i] * pattern[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm < 1e-6) return null;
+    return pattern.map(v => v / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+/**
+ * 複数の例からフィンガープリントを作る
+ * 1つ目の例に時間位置を揃えてから平均する
+ */
+export function createFingerprint(name: string, snapshots: ArrayLike<number>[]): SoundFingerprint | null {
+    const reference = snapshots.length > 0 ? normalizeSnapshot(snapshots[0]) : null;
+    if (!reference) return null;
+
+    const sum = new Array(reference.length).fill(0);
+    let count = 0;
+    for (const snapshot of snapshots) {
+        let best: number[] | null = null;
+        let bestScore = -Infinity;
+        for (let shift = -MAX_SHIFT; shift <= MAX_SHIFT; shift++) {
+            const pattern = normalizeSnapshot(snapshot, shift);
+            if (!pattern) continue;
+            const score = dot(pattern, reference);
+            if (score > bestScore) {
+                bestScore = score;
+                best = pattern;
+            }
+        }
+        if (!best) continue;
+        best.forEach((v, i) => sum[i] += v);
+        count++;
+    }
+
+    const norm = Math.sqrt(dot(sum, sum));
+    if (count === 0 || norm < 1e-6) return null;
+
+    return {
+        id: `fp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name,
+        pattern: sum.map(v => v / norm),
+        examples: count,
+        threshold: DEFAULT_MATCH_THRESHOLD,
+        mask: true,
+        createdAt: new Date().toISOString()
+    };
+}
+
+// 最も類似度の高いフィンガープリントを返す (閾値未満ならnull)
+export function matchFingerprint(snapshot: ArrayLike<number>, fingerprints: SoundFingerprint[]): FingerprintMatch | null {
+    if (fingerprints.length === 0) return null;
+
+    const patterns: number[][] = [];
+    for (let shift = -MAX_SHIFT; shift <= MAX_SHIFT; shift++) {
+        const pattern = normalizeSnapshot(snapshot, shift);
+        if (pattern) patterns.push(pattern);
+    }
+    if (patterns.length === 0) return null;
+
+    let best: FingerprintMatch | null = null;
+    for (const fingerprint of fingerprints) {
+        if (fingerprint.pattern.length !== patterns[0].length) continue;
+        const confidence = Math.max(0, ...patterns.map(p => dot(p, fingerprint.pattern)));
+        if (confidence >= fingerprint.threshold && (!best || confidence > best.confidence)) {
+            best = { fingerprint, confidence };
+        }
+    }
+    return best;
+}
@@ -0,0 +1,475 @@
+// impact-detector-processor.ts
+// ImpactDetectorの検知処理をオーディオスレッドで実行する
+// requestAnimationFrameは画面オフ・タブ非表示で止まるため、マイク入力の処理ごとに解析する
+// (ImpactDetector.tsの埋め込みコードと同じ内容)
+
+// AnalyserNode (fftSize=2048, smoothingTimeConstant=0.5) と同じ解析条件
+const FFT_SIZE = 2048;
+const SMOOTHING = 0.5;
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+// rAF (約60fps) 相当の間隔で解析し、フレーム単位のパラメータを従来どおりに保つ
+const FRAME_RATE = 60;
+const RENDER_QUANTUM = 128;
+
+// 出力参照 (2番目の入力) によるスピーカー音の除去
+// 伝達特性は「下がるのは速く・上がるのは遅く」学習し、外部騒音で過大評価しないようにする
+const TRANSFER_SMOOTHING = 0.9;   // 学習用スペクトルの平滑化
+const TRANSFER_DOWN_RATE = 0.05;
+const TRANSFER_UP_RATE = 0.0005;  // 約30秒
+const TRANSFER_WARMUP_FRAMES = 90; // 約1.5秒は学習のみ (スコア・衝撃を出さない)
+const TRANSFER_WARMUP_RATE = 0.2;
+const OUTPUT_HOLD_FRAMES = 15;    // スピーカー→マイクの遅延とブーストの立ち上がりを覆う (約250ms)
+const OVER_SUBTRACTION = 2.0;     // 推定の揺らぎ分の余裕 (+3dB)
+const MIN_OUTPUT_POWER = 1e-12;   // これ未満の出力ビンは学習しない (-120dB)
+
+// フィンガープリント用スナップショット (SoundFingerprint.ts と一致させる)
+// 立ち上がりを検出したら前後のバンドエネルギーを切り出して送る
+const FP_BANDS = 24;
+const FP_MIN_FREQ = 40;
+const FP_MAX_FREQ = 12000;
+const FP_PRE_FRAMES = 4;
+const FP_POST_FRAMES = 28;
+const FP_FRAMES = FP_PRE_FRAMES + FP_POST_FRAMES;
+
+const BASELINE_SMOOTHING = 0.98;
+const MAX_IMPACT_COOLDOWN = 20; // 約0.3秒
+const SCORE_SMOOTHING = 0.92;
+
+interface BandRange {
+  id: string;
+  minFreq: number;
+  maxFreq: number;
+}
+
+type DetectorMessage =
+  | { type: 'config'; bands: BandRange[]; reset: boolean }
+  | { type: 'params'; sensitivity: number; reactiveEnabled: boolean }
+  | { type: 'noiseGain'; value: number }
+  | { type: 'fingerprint'; enabled: boolean }
+  | { type: 'baselines'; values: Record<string, number> }
+  | { type: 'tuning'; baselineSmoothing?: number; impactCooldown?: number }
+  | { type: 'start' }
+  | { type: 'stop' };
+
+function downmix(channels: Float32Array[], i: number): number {
+  let sum = 0;
+  for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+  return sum / channels.length;
+}
+
+class ImpactDetectorProcessor extends AudioWorkletProcessor {
+  private sampleRate: number = (globalThis as any).sampleRate || 44100;
+  private hopSize = Math.max(1, Math.round(this.sampleRate / FRAME_RATE / RENDER_QUANTUM)) * RENDER_QUANTUM;
+
+  // 入力のリングバッファ (マイク / 出力参照)
+  private buffer = new Float32Array(FFT_SIZE);
+  private referenceBuffer = new Float32Array(FFT_SIZE);
+  private writeIndex = 0;
+  private hasReference = false;
+  private samplesSinceFrame = 0;
+
+  // FFT作業領域
+  private window = new Float32Array(FFT_SIZE);
+  private real = new Float64Array(FFT_SIZE);
+  private imag = new Float64Array(FFT_SIZE);
+  private bitReverse = new Uint32Array(FFT_SIZE);
+  // 回転因子 exp(-2πik/N) (k < N/2)
+  private twiddleReal = new Float64Array(FFT_SIZE / 2);
+  private twiddleImag = new Float64Array(FFT_SIZE / 2);
+  private power = new Float64Array(FFT_SIZE / 2);
+  private micPower = new Float64Array(FFT_SIZE / 2);
+  private smoothedMagnitude = new Float64Array(FFT_SIZE / 2);
+  private frequencyData = new Uint8Array(FFT_SIZE / 2);
+
+  // 出力参照のスペクトルとスピーカー→マイク伝達特性 (パワー比)
+  private referenceMagnitude = new Float64Array(FFT_SIZE / 2);
+  private referenceHistory: Float64Array[] = [];
+  private heldReference = new Float64Array(FFT_SIZE / 2);
+  private slowMic = new Float64Array(FFT_SIZE / 2);
+  private slowReference = new Float64Array(FFT_SIZE / 2);
+  private transfer = new Float64Array(FFT_SIZE / 2);
+  private transferFrames = 0;
+
+  private isRunning = false;
+  private bands: BandRange[] = [];
+  private sensitivity = 0.5;
+  private reactiveEnabled = true;
+  private currentNoiseGain = 0;
+
+  // 調整用 (再生ハーネスから変更する。通常は既定値)
+  private baselineSmoothing = BASELINE_SMOOTHING;
+  private impactCooldown = MAX_IMPACT_COOLDOWN;
+
+  private baselineEnergies: Map<string, number> = new Map();
+  // マイク校正で測った静かな部屋のベースライン (リセット時の初期値)
+  private calibratedBaselines: Map<string, number> = new Map();
+  private impactCooldownFrames = 0;
+  private noiseScore = 0;
+
+  // フィンガープリント
+  private fingerprintEnabled = false;
+  private fpBins = new Int32Array(FP_BANDS * 2); // [最小ビン, 最大ビン] x バンド
+  private fpEnergies = new Float64Array(FP_BANDS);
+  private fpHistory = new Float32Array(FP_FRAMES * FP_BANDS); // リングバッファ
+  private fpBaseline = new Float64Array(FP_BANDS);
+  private fpFrame = 0;
+  private fpCapture = 0; // 残りの切り出しフレーム数
+  private fpPeak = 0;
+  private fpCooldown = 0;
+
+  constructor() {
+    super();
+
+    // Blackman窓 (AnalyserNodeと同じ)
+    const alpha = 0.16;
+    const a0 = 0.5 * (1 - alpha);
+    const a2 = 0.5 * alpha;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const x = i / FFT_SIZE;
+      this.window[i] = a0 - 0.5 * Math.cos(2 * Math.PI * x) + a2 * Math.cos(4 * Math.PI * x);
+    }
+
+    const bits = Math.log2(FFT_SIZE);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+      this.bitReverse[i] = r;
+    }
+    for (let k = 0; k < FFT_SIZE / 2; k++) {
+      this.twiddleReal[k] = Math.cos(-2 * Math.PI * k / FFT_SIZE);
+      this.twiddleImag[k] = Math.sin(-2 * Math.PI * k / FFT_SIZE);
+    }
+
+    // フィンガープリント用の対数間隔バンド
+    const binCount = FFT_SIZE / 2;
+    for (let b = 0; b < FP_BANDS; b++) {
+      const low = FP_MIN_FREQ * Math.pow(FP_MAX_FREQ / FP_MIN_FREQ, b / FP_BANDS);
+      const high = FP_MIN_FREQ * Math.pow(FP_MAX_FREQ / FP_MIN_FREQ, (b + 1) / FP_BANDS);
+      const lowBin = Math.round(low / (this.sampleRate / 2) * binCount);
+      this.fpBins[b * 2] = lowBin;
+      this.fpBins[b * 2 + 1] = Math.max(lowBin, Math.round(high / (this.sampleRate / 2) * binCount) - 1);
+    }
+
+    this.port.onmessage = (e: MessageEvent<DetectorMessage>) => this.handleMessage(e.data);
+  }
+
+  private handleMessage(msg: DetectorMessage) {
+    switch (msg.type) {
+      case 'config':
+        this.bands = msg.bands;
+        if (msg.reset) this.resetBaselines();
+        break;
+      case 'params':
+        this.sensitivity = msg.sensitivity;
+        this.reactiveEnabled = msg.reactiveEnabled;
+        break;
+      case 'noiseGain':
+        this.currentNoiseGain = msg.value;
+        break;
+      case 'fingerprint':
+        this.fingerprintEnabled = msg.enabled;
+        this.fpFrame = 0;
+        this.fpCapture = 0;
+        break;
+      case 'baselines':
+        this.calibratedBaselines = new Map(Object.entries(msg.values));
+        this.resetBaselines();
+        break;
+      case 'tuning':
+        if (msg.baselineSmoothing !== undefined) this.baselineSmoothing = msg.baselineSmoothing;
+        if (msg.impactCooldown !== undefined) this.impactCooldown = msg.impactCooldown;
+        break;
+      case 'start':
+        this.isRunning = true;
+        this.resetBaselines();
+        this.noiseScore = 0;
+        this.fpFrame = 0;
+        this.fpCapture = 0;
+        break;
+      case 'stop':
+        this.isRunning = false;
+        break;
+    }
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!this.isRunning || !input || input.length === 0) return true;
+
+    // 出力参照は未接続なら空配列になる
+    const reference = inputs[1];
+    this.hasReference = !!reference && reference.length > 0;
+
+    // モノラルにダウンミックスして蓄積
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.writeIndex] = downmix(input, i);
+      this.referenceBuffer[this.writeIndex] = this.hasReference ? downmix(reference, i) : 0;
+      this.writeIndex = (this.writeIndex + 1) % FFT_SIZE;
+    }
+
+    this.samplesSinceFrame += length;
+    if (this.samplesSinceFrame >= this.hopSize) {
+      this.samplesSinceFrame -= this.hopSize;
+      this.analyze();
+    }
+    return true;
+  }
+
+  // 窓掛けFFTのパワースペクトル (|X|/N)^2 を this.power に求める
+  private computePower(source: Float32Array) {
+    const real = this.real;
+    const imag = this.imag;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const sample = source[(this.writeIndex + i) % FFT_SIZE];
+      real[this.bitReverse[i]] = sample * this.window[i];
+      imag[i] = 0;
+    }
+
+    // 基数2 FFT
+    for (let size = 2; size <= FFT_SIZE; size <<= 1) {
+      const half = size >> 1;
+      const stride = FFT_SIZE / size;
+      for (let start = 0; start < FFT_SIZE; start += size) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.twiddleReal[k * stride];
+          const wi = this.twiddleImag[k * stride];
+          const a = start + k;
+          const b = a + half;
+          const tr = real[b] * wr - imag[b] * wi;
+          const ti = real[b] * wi + imag[b] * wr;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+
+    for (let i = 0; i < FFT_SIZE / 2; i++) {
+      this.power[i] = (real[i] * real[i] + imag[i] * imag[i]) / (FFT_SIZE * FFT_SIZE);
+    }
+  }
+
+  // 出力参照のスペクトルを更新し、伝達特性を学習する
+  private updateReference() {
+    const bins = FFT_SIZE / 2;
+    const micPower = this.micPower;
+    micPower.set(this.power);
+    this.computePower(this.referenceBuffer);
+
+    // マイクと同じ平滑化をした出力スペクトルを一定フレーム保持し、最大値を使う
+    const current = this.referenceHistory.length >= OUTPUT_HOLD_FRAMES
+      ? this.referenceHistory.shift()!
+      : new Float64Array(bins);
+    for (let i = 0; i < bins; i++) {
+      const magnitude = Math.sqrt(this.power[i]);
+      this.referenceMagnitude[i] = SMOOTHING * this.referenceMagnitude[i] + (1 - SMOOTHING) * magnitude;
+      current[i] = this.referenceMagnitude[i] * this.referenceMagnitude[i];
+    }
+    this.referenceHistory.push(current);
+
+    this.heldReference.fill(0);
+    for (const frame of this.referenceHistory) {
+      for (let i = 0; i < bins; i++) {
+        if (frame[i] > this.heldReference[i]) this.heldReference[i] = frame[i];
+      }
+    }
+
+    const warmup = this.transferFrames < TRANSFER_WARMUP_FRAMES;
+    for (let i = 0; i < bins; i++) {
+      this.slowMic[i] = TRANSFER_SMOOTHING * this.slowMic[i] + (1 - TRANSFER_SMOOTHING) * micPower[i];
+      this.slowReference[i] = TRANSFER_SMOOTHING * this.slowReference[i] + (1 - TRANSFER_SMOOTHING) * this.power[i];
+      if (this.slowReference[i] < MIN_OUTPUT_POWER) continue;
+
+      const ratio = this.slowMic[i] / this.slowReference[i];
+      const rate = warmup ? TRANSFER_WARMUP_RATE : ratio < this.transfer[i] ? TRANSFER_DOWN_RATE : TRANSFER_UP_RATE;
+      this.transfer[i] += (ratio - this.transfer[i]) * rate;
+    }
+    this.transferFrames++;
+
+    this.power.set(micPower);
+  }
+
+  // AnalyserNode.getByteFrequencyData 相当
+  // 出力参照がある場合は、スピーカーから回り込んだ推定成分を差し引く
+  private computeFrequencyData() {
+    this.computePower(this.buffer);
+    if (this.hasReference) this.updateReference();
+
+    const range = MAX_DECIBELS - MIN_DECIBELS;
+    for (let i = 0; i < FFT_SIZE / 2; i++) {
+      const magnitude = Math.sqrt(this.power[i]);
+      const smoothed = SMOOTHING * this.smoothedMagnitude[i] + (1 - SMOOTHING) * magnitude;
+      this.smoothedMagnitude[i] = smoothed;
+
+      let external = smoothed;
+      if (this.hasReference) {
+        const own = OVER_SUBTRACTION * this.transfer[i] * this.heldReference[i];
+        external = Math.sqrt(Math.max(0, smoothed * smoothed - own));
+      }
+
+      const db = external > 0 ? 20 * Math.log10(external) : -Infinity;
+      const scaled = Math.floor(255 / range * (db - MIN_DECIBELS));
+      this.frequencyData[i] = Math.max(0, Math.min(scaled, 255));
+    }
+  }
+
+  // 校正値がないバンドは最初のフレームのエネルギーから始める
+  private resetBaselines() {
+    this.baselineEnergies = new Map(this.calibratedBaselines);
+  }
+
+  private freqToBin(freq: number): number {
+    const nyquist = this.sampleRate / 2;
+    return Math.round((freq / nyquist) * this.frequencyData.length);
+  }
+
+  private getBandEnergy(minFreq: number, maxFreq: number): number {
+    const minBin = Math.max(0, this.freqToBin(minFreq));
+    const maxBin = Math.min(this.frequencyData.length - 1, this.freqToBin(maxFreq));
+
+    if (minBin >= maxBin) return 0;
+
+    let sum = 0;
+    for (let i = minBin; i <= maxBin; i++) {
+      sum += this.frequencyData[i];
+    }
+    return sum / (maxBin - minBin + 1) / 255;
+  }
+
+  private updateBaseline(bandId: string, currentEnergy: number) {
+    const prevBaseline = this.baselineEnergies.get(bandId) || currentEnergy;
+    // 出力参照がない場合のみ、自分の再生音の分だけベースラインを底上げする
+    const noiseContribution = this.hasReference ? 0 : this.currentNoiseGain * 0.3;
+
+    let newBaseline;
+    if (currentEnergy < prevBaseline) {
+      newBaseline = prevBaseline * this.baselineSmoothing + currentEnergy * (1 - this.baselineSmoothing);
+    } else {
+      newBaseline = prevBaseline * 0.95 + currentEnergy * 0.05;
+    }
+
+    this.baselineEnergies.set(bandId, Math.max(newBaseline, noiseContribution));
+  }
+
+  private analyze() {
+    this.computeFrequencyData();
+
+    // 伝達特性の学習中は判定しない
+    if (this.hasReference && this.transferFrames <= TRANSFER_WARMUP_FRAMES) return;
+
+    // Impactクールダウン処理
+    if (this.impactCooldownFrames > 0) {
+      this.impactCooldownFrames--;
+    }
+
+    // 全バンドまたは選択バンドの騒音成分を計算
+    let totalDeviation = 0;
+    let maxDeviation = 0;
+    let maxDeviationBandId: string | undefined;
+
+    if (this.bands.length === 0) {
+      // 全帯域
+      const energy = this.getBandEnergy(20, 20000);
+      const baseline = this.baselineEnergies.get('all') || energy;
+      const deviation = Math.max(0, energy - baseline);
+      totalDeviation = deviation;
+      maxDeviation = deviation;
+      this.updateBaseline('all', energy);
+    } else {
+      // バンド別
+      for (const band of this.bands) {
+        const energy = this.getBandEnergy(band.minFreq, band.maxFreq);
+        const baseline = this.baselineEnergies.get(band.id) || energy;
+        const deviation = Math.max(0, energy - baseline);
+
+        totalDeviation += deviation;
+        if (deviation > maxDeviation) {
+          maxDeviation = deviation;
+          maxDeviationBandId = band.id;
+        }
+        this.updateBaseline(band.id, energy);
+      }
+      // 平均化
+      totalDeviation = totalDeviation / this.bands.length;
+    }
+
+    // Adaptive: 騒音スコアを更新（移動平均）
+    this.noiseScore = this.noiseScore * SCORE_SMOOTHING + totalDeviation * (1 - SCORE_SMOOTHING);
+    this.port.postMessage({ type: 'score', score: this.noiseScore });
+
+    if (this.fingerprintEnabled) {
+      this.updateFingerprint();
+    }
+
+    // Reactive: 衝撃検知
+    if (this.reactiveEnabled && this.impactCooldownFrames === 0) {
+      const impactThreshold = 0.3 * (1.0 - this.sensitivity) + 0.05;
+
+      if (maxDeviation > impactThreshold) {
+        const intensity = Math.min(maxDeviation * 3, 1.0);
+        this.port.postMessage({ type: 'impact', intensity, bandId: maxDeviationBandId });
+        this.impactCooldownFrames = this.impactCooldown;
+      }
+    }
+  }
+
+  // 立ち上がりを検出し、前後のバンドエネルギーをスナップショットとして送る
+  private updateFingerprint() {
+    const energies = this.fpEnergies;
+    const slot = (this.fpFrame % FP_FRAMES) * FP_BANDS;
+    let maxDeviation = 0;
+
+    for (let b = 0; b < FP_BANDS; b++) {
+      const lowBin = this.fpBins[b * 2];
+      const highBin = Math.min(this.fpBins[b * 2 + 1], this.frequencyData.length - 1);
+      let sum = 0;
+      for (let i = lowBin; i <= highBin; i++) sum += this.frequencyData[i];
+      energies[b] = sum / Math.max(1, highBin - lowBin + 1) / 255;
+      this.fpHistory[slot + b] = energies[b];
+
+      // バンドごとの背景 (updateBaselineと同じ追従、底上げなし)
+      const baseline = this.fpFrame === 0 ? energies[b] : this.fpBaseline[b];
+      maxDeviation = Math.max(maxDeviation, energies[b] - baseline);
+      this.fpBaseline[b] = energies[b] < baseline
+        ? baseline * BASELINE_SMOOTHING + energies[b] * (1 - BASELINE_SMOOTHING)
+        : baseline * 0.95 + energies[b] * 0.05;
+    }
+
+    if (this.fpCapture > 0) {
+      this.fpPeak = Math.max(this.fpPeak, maxDeviation);
+      this.fpCapture--;
+      if (this.fpCapture === 0) this.postSnapshot();
+    } else if (this.fpCooldown > 0) {
+      this.fpCooldown--;
+    } else if (this.fpFrame >= FP_PRE_FRAMES) {
+      // 衝撃検知と同じ閾値
+      const threshold = 0.3 * (1.0 - this.sensitivity) + 0.05;
+      if (maxDeviation > threshold) {
+        this.fpPeak = maxDeviation;
+        this.fpCapture = FP_POST_FRAMES - 1;
+      }
+    }
+
+    this.fpFrame++;
+  }
+
+  private postSnapshot() {
+    // 最新フレームで終わるFP_FRAMES分を時間順に並べる
+    const frames = new Float32Array(FP_FRAMES * FP_BANDS);
+    const start = (this.fpFrame + 1) % FP_FRAMES;
+    for (let t = 0; t < FP_FRAMES; t++) {
+      const slot = ((start + t) % FP_FRAMES) * FP_BANDS;
+      frames.set(this.fpHistory.subarray(slot, slot + FP_BANDS), t * FP_BANDS);
+    }
+
+    const intensity = Math.min(this.fpPeak * 3, 1.0);
+    this.port.postMessage({ type: 'snapshot', frames, intensity }, [frames.buffer]);
+    this.fpCooldown = MAX_IMPACT_COOLDOWN;
+  }
+}
+
+registerProcessor('impact-detector-processor', ImpactDetectorProcessor);
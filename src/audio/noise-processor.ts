@@ -1,19 +1,174 @@
 // noise-processor.ts
 
-class NoiseProcessor extends AudioWorkletProcessor {
+// チャンネルごとのフィルター状態
+interface ChannelState {
   // ピンクノイズ用の状態変数
-  private b0 = 0;
-  private b1 = 0;
-  private b2 = 0;
-  private b3 = 0;
-  private b4 = 0;
-  private b5 = 0;
-  private b6 = 0;
-
+  b0: number;
+  b1: number;
+  b2: number;
+  b3: number;
+  b4: number;
+  b5: number;
+  b6: number;
   // ブラウンノイズ用の状態変数
-  private lastBrown = 0;
+  lastBrown: number;
   // Dark Brown用の状態変数
-  private lastDark = 0;
+  lastDark: number;
+  // Slope用: [x1, y1] x SLOPE_SECTIONS
+  slope: Float64Array;
+  // Grey用: [x1, x2, y1, y2] x ステージ数
+  grey: Float64Array;
+}
+
+// Slope: 1オクターブ間隔の1次ポール/ゼロ対をカスケードし、任意のdB/octを近似する
+const SLOPE_MIN_FREQ = 20;
+const SLOPE_SECTIONS = 11;
+
+type GreyStageType = 'lowshelf' | 'highshelf' | 'peaking';
+
+// Grey: 等ラウドネス曲線(約40phon)の逆特性を近似するバイクアッド
+const GREY_STAGES: { type: GreyStageType; freq: number; gain: number; q: number }[] = [
+  { type: 'lowshelf', freq: 200, gain: 12, q: 0.5 },
+  { type: 'peaking', freq: 3500, gain: -8, q: 0.9 },
+  { type: 'highshelf', freq: 9000, gain: 6, q: 0.7 }
+];
+
+// 整形ノイズの目標RMS (Pink/Brownと同程度)
+const SHAPED_TARGET_RMS = 0.2;
+// 一様分布[-1, 1]のパワー
+const WHITE_POWER = 1 / 3;
+
+interface SlopeFilter {
+  // [b0, b1, a1] x SLOPE_SECTIONS
+  coefs: Float64Array;
+  gain: number;
+}
+
+interface GreyFilter {
+  // [b0, b1, b2, a1, a2] (a0で正規化済み)
+  stages: number[][];
+  gain: number;
+}
+
+function createChannelState(): ChannelState {
+  return {
+    b0: 0, b1: 0, b2: 0, b3: 0, b4: 0, b5: 0, b6: 0, lastBrown: 0, lastDark: 0,
+    slope: new Float64Array(SLOPE_SECTIONS * 2),
+    grey: new Float64Array(GREY_STAGES.length * 4)
+  };
+}
+
+// 白色入力に対する平均パワー比 (対数グリッドで台形積分)
+function averagePowerGain(magnitudeAt: (f: number) => number, sampleRate: number): number {
+  const nyquist = sampleRate / 2;
+  const points = 256;
+  let sum = 0;
+  let prevF = 1;
+  let prevP = magnitudeAt(1) ** 2;
+  for (let i = 1; i < points; i++) {
+    const f = Math.pow(nyquist, i / (points - 1));
+    const p = magnitudeAt(f) ** 2;
+    sum += (p + prevP) * 0.5 * (f - prevF);
+    prevF = f;
+    prevP = p;
+  }
+  return sum / nyquist;
+}
+
+/**
+ * 任意傾き(dB/oct)のフィルター設計
+ * ゼロをポールから 2^(-slope/6.02) 倍ずらすと、各オクターブで slope dB ずつ変化する
+ */
+function designSlopeFilter(slopeDb: number, sampleRate: number): SlopeFilter {
+  const exponent = slopeDb / 6.02;
+  const limit = sampleRate * 0.45;
+  const K = 2 * sampleRate;
+  const coefs = new Float64Array(SLOPE_SECTIONS * 3);
+  const corners: number[] = [];
+
+  for (let k = 0; k < SLOPE_SECTIONS; k++) {
+    const fp = Math.min(SLOPE_MIN_FREQ * Math.pow(2, k), limit);
+    const fz = Math.min(fp * Math.pow(2, -exponent), limit);
+    // プリワープ付き双一次変換
+    const wp = K * Math.tan(Math.PI * fp / sampleRate);
+    const wz = K * Math.tan(Math.PI * fz / sampleRate);
+    const norm = 1 + K / wp;
+    coefs[k * 3] = (1 + K / wz) / norm;
+    coefs[k * 3 + 1] = (1 - K / wz) / norm;
+    coefs[k * 3 + 2] = (1 - K / wp) / norm;
+    corners.push(wz, wp);
+  }
+
+  const power = averagePowerGain((f) => {
+    // 双一次変換の周波数ワープを考慮してアナログ原型で評価
+    const w = K * Math.tan(Math.PI * Math.min(f, sampleRate * 0.499) / sampleRate);
+    let m = 1;
+    for (let k = 0; k < corners.length; k += 2) {
+      m *= Math.sqrt((1 + (w / corners[k]) ** 2) / (1 + (w / corners[k + 1]) ** 2));
+    }
+    return m;
+  }, sampleRate);
+
+  return { coefs, gain: SHAPED_TARGET_RMS / Math.sqrt(power * WHITE_POWER) };
+}
+
+// RBJ Audio EQ Cookbook
+function designBiquad(type: GreyStageType, freq: number, gainDb: number, q: number, sampleRate: number): number[] {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * freq / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const sqA = 2 * Math.sqrt(A) * alpha;
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+  if (type === 'lowshelf') {
+    b0 = A * ((A + 1) - (A - 1) * cos + sqA);
+    b1 = 2 * A * ((A - 1) - (A + 1) * cos);
+    b2 = A * ((A + 1) - (A - 1) * cos - sqA);
+    a0 = (A + 1) + (A - 1) * cos + sqA;
+    a1 = -2 * ((A - 1) + (A + 1) * cos);
+    a2 = (A + 1) + (A - 1) * cos - sqA;
+  } else if (type === 'highshelf') {
+    b0 = A * ((A + 1) + (A - 1) * cos + sqA);
+    b1 = -2 * A * ((A - 1) + (A + 1) * cos);
+    b2 = A * ((A + 1) + (A - 1) * cos - sqA);
+    a0 = (A + 1) - (A - 1) * cos + sqA;
+    a1 = 2 * ((A - 1) - (A + 1) * cos);
+    a2 = (A + 1) - (A - 1) * cos - sqA;
+  } else {
+    b0 = 1 + alpha * A;
+    b1 = -2 * cos;
+    b2 = 1 - alpha * A;
+    a0 = 1 + alpha / A;
+    a1 = -2 * cos;
+    a2 = 1 - alpha / A;
+  }
+  return [b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0];
+}
+
+function biquadMagnitude(c: number[], f: number, sampleRate: number): number {
+  const w = 2 * Math.PI * f / sampleRate;
+  const c1 = Math.cos(w), s1 = Math.sin(w);
+  const c2 = Math.cos(2 * w), s2 = Math.sin(2 * w);
+  const nr = c[0] + c[1] * c1 + c[2] * c2;
+  const ni = -(c[1] * s1 + c[2] * s2);
+  const dr = 1 + c[3] * c1 + c[4] * c2;
+  const di = -(c[3] * s1 + c[4] * s2);
+  return Math.sqrt((nr * nr + ni * ni) / (dr * dr + di * di));
+}
+
+function designGreyFilter(sampleRate: number): GreyFilter {
+  const stages = GREY_STAGES.map(st => designBiquad(st.type, st.freq, st.gain, st.q, sampleRate));
+  const power = averagePowerGain(
+    (f) => stages.reduce((m, c) => m * biquadMagnitude(c, f, sampleRate), 1),
+    sampleRate
+  );
+  return { stages, gain: SHAPED_TARGET_RMS / Math.sqrt(power * WHITE_POWER) };
+}
+
+class NoiseProcessor extends AudioWorkletProcessor {
+  // L/R独立のジェネレーター状態
+  private channelStates: ChannelState[] = [createChannelState(), createChannelState()];
 
   // Rumble用の状態変数 (Oscillators)
   private rumblePhase1 = 0;
@@ -21,7 +176,10 @@ class NoiseProcessor extends AudioWorkletProcessor {
   private rumblePhase3 = 0;
   private rumbleModPhase = 0; // AM変調用
 
-
+  // Slope / Grey のフィルター係数 (傾きが変わった時だけ再設計)
+  private slopeDb = -3;
+  private slopeFilter: SlopeFilter = designSlopeFilter(-3, (globalThis as any).sampleRate || 44100);
+  private greyFilter: GreyFilter = designGreyFilter((globalThis as any).sampleRate || 44100);
 
   static get parameterDescriptors() {
     return [
@@ -32,6 +190,10 @@ class NoiseProcessor extends AudioWorkletProcessor {
       { name: 'rumbleGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
       { name: 'rumbleFreq', defaultValue: 55, minValue: 20, maxValue: 300, automationRate: 'k-rate' }, // New
       { name: 'rumbleSpeed', defaultValue: 1, minValue: 0.1, maxValue: 10, automationRate: 'k-rate' }, // New
+      { name: 'stereoWidth', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'slopeGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'slopeDb', defaultValue: -3, minValue: -9, maxValue: 6, automationRate: 'k-rate' }, // dB/oct
+      { name: 'greyGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
       { name: 'masterGain', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'a-rate' }
     ];
   }
@@ -45,6 +207,10 @@ class NoiseProcessor extends AudioWorkletProcessor {
     const rumbleGainParam = parameters['rumbleGain'];
     const rumbleFreqParam = parameters['rumbleFreq']; // New
     const rumbleSpeedParam = parameters['rumbleSpeed']; // New
+    const stereoWidthParam = parameters['stereoWidth'];
+    const slopeGainParam = parameters['slopeGain'];
+    const slopeDbParam = parameters['slopeDb'];
+    const greyGainParam = parameters['greyGain'];
     const masterGainParam = parameters['masterGain'];
 
     // k-rateパラメータの取得（先頭値）
@@ -55,39 +221,93 @@ class NoiseProcessor extends AudioWorkletProcessor {
     const rGain = rumbleGainParam[0];
     const rFreq = rumbleFreqParam[0];
     const rSpeed = rumbleSpeedParam[0];
+    const width = stereoWidthParam[0];
+    const sGain = slopeGainParam[0];
+    const slopeDb = slopeDbParam[0];
+    const gGain = greyGainParam[0];
 
 
     // 全て0なら処理スキップ（最適化）
-    if (wGain === 0 && pGain === 0 && bGain === 0 && dGain === 0 && rGain === 0) {
+    if (wGain === 0 && pGain === 0 && bGain === 0 && dGain === 0 && rGain === 0 && sGain === 0 && gGain === 0) {
       output.forEach(channel => channel.fill(0));
 
       return true;
     }
 
-    // チャンネルごとに処理
+    const channelCount = output.length;
+    while (this.channelStates.length < channelCount) {
+      this.channelStates.push(createChannelState());
+    }
+
+    // Width 0: 全チャンネル同一 / Width 1: 完全に無相関
+    // 共通成分と独立成分をパワー一定で混ぜる (相関係数 = 1 - width)
+    const commonAmount = Math.sqrt(1 - width);
+    const independentAmount = Math.sqrt(width);
+
     const sampleRate = (globalThis as any).sampleRate || 44100;
+    const len = output[0].length;
+    const shouldUseArray = masterGainParam.length > 1;
+
+    if (sGain > 0 && slopeDb !== this.slopeDb) {
+      this.slopeDb = slopeDb;
+      this.slopeFilter = designSlopeFilter(slopeDb, sampleRate);
+    }
+    const slopeCoefs = this.slopeFilter.coefs;
+    const slopeOut = this.slopeFilter.gain * sGain;
+    const greyStages = this.greyFilter.stages;
+    const greyOut = this.greyFilter.gain * gGain;
 
-    output.forEach((channel) => {
-      const shouldUseArray = masterGainParam.length > 1;
+    // Phase increments for rumble
+    // Osc 1: Main (x1.0)
+    // Osc 2: Sub1 (x1.13)
+    // Osc 3: Sub2 (x1.31)
+    const inc1 = (2 * Math.PI * rFreq) / sampleRate;
+    const inc2 = (2 * Math.PI * rFreq * 1.13) / sampleRate;
+    const inc3 = (2 * Math.PI * rFreq * 1.31) / sampleRate;
 
-      // Phase increments for rumble (calculated once per channel block)
-      // Osc 1: Main (x1.0)
-      // Osc 2: Sub1 (x1.13)
-      // Osc 3: Sub2 (x1.31)
-      const inc1 = (2 * Math.PI * rFreq) / sampleRate;
-      const inc2 = (2 * Math.PI * rFreq * 1.13) / sampleRate;
-      const inc3 = (2 * Math.PI * rFreq * 1.31) / sampleRate;
+    // AM Modulation increment
+    const modInc = (2 * Math.PI * rSpeed) / sampleRate;
 
-      // AM Modulation increment
-      const modInc = (2 * Math.PI * rSpeed) / sampleRate;
+    for (let i = 0; i < len; i++) {
+      const mGain = shouldUseArray ? masterGainParam[i] : masterGainParam[0];
 
-      for (let i = 0; i < channel.length; i++) {
-        const mGain = shouldUseArray ? masterGainParam[i] : masterGainParam[0];
+      // 5. Rumble (Dynamic Sub-Bass)
+      // 低域のためモノラル: サンプルごとに1回だけ位相を進め、全チャンネル共通
+      let rumble = 0;
+      if (rGain > 0) {
+        this.rumblePhase1 += inc1;
+        this.rumblePhase2 += inc2;
+        this.rumblePhase3 += inc3;
 
-        // White Noise Source
-        const white = Math.random() * 2 - 1;
+        if (this.rumblePhase1 > 2 * Math.PI) this.rumblePhase1 -= 2 * Math.PI;
+        if (this.rumblePhase2 > 2 * Math.PI) this.rumblePhase2 -= 2 * Math.PI;
+        if (this.rumblePhase3 > 2 * Math.PI) this.rumblePhase3 -= 2 * Math.PI;
 
-        let mixedOutput = 0;
+        // AM Mod Phase update
+        this.rumbleModPhase += modInc;
+        if (this.rumbleModPhase > 2 * Math.PI) this.rumbleModPhase -= 2 * Math.PI;
+
+        rumble = Math.sin(this.rumblePhase1) * 0.5 +
+          Math.sin(this.rumblePhase2) * 0.3 +
+          Math.sin(this.rumblePhase3) * 0.2;
+
+        // Apply AM Modulation (0.7 ~ 1.3 depth)
+        const mod = 1.0 + Math.sin(this.rumbleModPhase) * 0.3;
+        rumble *= mod * rGain * 0.8;
+      }
+
+      // 全チャンネル共通のWhite成分
+      const common = Math.random() * 2 - 1;
+
+      for (let c = 0; c < channelCount; c++) {
+        const st = this.channelStates[c];
+
+        // White Noise Source (チャンネル別)
+        const white = independentAmount > 0
+          ? common * commonAmount + (Math.random() * 2 - 1) * independentAmount
+          : common;
+
+        let mixedOutput = rumble;
 
         // 1. White Noise
         if (wGain > 0) {
@@ -96,21 +316,21 @@ class NoiseProcessor extends AudioWorkletProcessor {
 
         // 2. Pink Noise (Paul Kellet's optimized method)
         if (pGain > 0) {
-          this.b0 = 0.99886 * this.b0 + white * 0.0555179;
-          this.b1 = 0.99332 * this.b1 + white * 0.0750759;
-          this.b2 = 0.96900 * this.b2 + white * 0.1538520;
-          this.b3 = 0.86650 * this.b3 + white * 0.3104856;
-          this.b4 = 0.55000 * this.b4 + white * 0.5329522;
-          this.b5 = -0.7616 * this.b5 - white * 0.0168980;
-          let pink = this.b0 + this.b1 + this.b2 + this.b3 + this.b4 + this.b5 + this.b6 + white * 0.5362;
-          this.b6 = white * 0.115926;
+          st.b0 = 0.99886 * st.b0 + white * 0.0555179;
+          st.b1 = 0.99332 * st.b1 + white * 0.0750759;
+          st.b2 = 0.96900 * st.b2 + white * 0.1538520;
+          st.b3 = 0.86650 * st.b3 + white * 0.3104856;
+          st.b4 = 0.55000 * st.b4 + white * 0.5329522;
+          st.b5 = -0.7616 * st.b5 - white * 0.0168980;
+          let pink = st.b0 + st.b1 + st.b2 + st.b3 + st.b4 + st.b5 + st.b6 + white * 0.5362;
+          st.b6 = white * 0.115926;
           mixedOutput += (pink * 0.11) * pGain;
         }
 
         // 3. Brown Noise (Standard -6dB/oct)
         // 係数 0.02 / 1.02 -> カットオフ高め
-        const brownUpdate = (this.lastBrown + (0.02 * white)) / 1.02;
-        this.lastBrown = brownUpdate;
+        const brownUpdate = (st.lastBrown + (0.02 * white)) / 1.02;
+        st.lastBrown = brownUpdate;
         if (bGain > 0) {
           mixedOutput += (brownUpdate * 3.5) * bGain;
         }
@@ -118,41 +338,46 @@ class NoiseProcessor extends AudioWorkletProcessor {
         // 4. Dark Brown (Ultra Low)
         // 係数を小さくしてカットオフを下げる (より「こもった」地響き系)
         // 0.005 / 1.005
-        const darkUpdate = (this.lastDark + (0.005 * white)) / 1.005;
-        this.lastDark = darkUpdate;
+        const darkUpdate = (st.lastDark + (0.005 * white)) / 1.005;
+        st.lastDark = darkUpdate;
         if (dGain > 0) {
           // エネルギーが低域に集中するため振幅が大きくなりやすいので補正
           mixedOutput += (darkUpdate * 4.0) * dGain;
         }
 
-        // 5. Rumble (Dynamic Sub-Bass)
-        if (rGain > 0) {
-          this.rumblePhase1 += inc1;
-          this.rumblePhase2 += inc2;
-          this.rumblePhase3 += inc3;
-
-          if (this.rumblePhase1 > 2 * Math.PI) this.rumblePhase1 -= 2 * Math.PI;
-          if (this.rumblePhase2 > 2 * Math.PI) this.rumblePhase2 -= 2 * Math.PI;
-          if (this.rumblePhase3 > 2 * Math.PI) this.rumblePhase3 -= 2 * Math.PI;
-
-          // AM Mod Phase update
-          this.rumbleModPhase += modInc;
-          if (this.rumbleModPhase > 2 * Math.PI) this.rumbleModPhase -= 2 * Math.PI;
-
-          let rumble = Math.sin(this.rumblePhase1) * 0.5 +
-            Math.sin(this.rumblePhase2) * 0.3 +
-            Math.sin(this.rumblePhase3) * 0.2;
-
-          // Apply AM Modulation (0.7 ~ 1.3 depth)
-          const mod = 1.0 + Math.sin(this.rumbleModPhase) * 0.3;
-          rumble *= mod;
+        // 6. Slope Noise (-9 ~ +6 dB/oct の連続可変)
+        if (sGain > 0) {
+          const z = st.slope;
+          let x = white;
+          for (let k = 0; k < SLOPE_SECTIONS; k++) {
+            const y = slopeCoefs[k * 3] * x + slopeCoefs[k * 3 + 1] * z[k * 2] - slopeCoefs[k * 3 + 2] * z[k * 2 + 1];
+            z[k * 2] = x;
+            z[k * 2 + 1] = y;
+            x = y;
+          }
+          mixedOutput += x * slopeOut;
+        }
 
-          mixedOutput += rumble * rGain * 0.8;
+        // 7. Grey Noise (聴感上フラット)
+        if (gGain > 0) {
+          const z = st.grey;
+          let x = white;
+          for (let k = 0; k < greyStages.length; k++) {
+            const co = greyStages[k];
+            const o = k * 4;
+            const y = co[0] * x + co[1] * z[o] + co[2] * z[o + 1] - co[3] * z[o + 2] - co[4] * z[o + 3];
+            z[o + 1] = z[o];
+            z[o] = x;
+            z[o + 3] = z[o + 2];
+            z[o + 2] = y;
+            x = y;
+          }
+          mixedOutput += x * greyOut;
         }
 
-        channel[i] = mixedOutput * mGain;
+        output[c][i] = mixedOutput * mGain;
       }
-    });
+    }
 
     return true;
   }
@@ -1,10 +1,34 @@
 import './style.css'
-import { AudioEngine } from './audio/AudioEngine';
+import { AudioEngine, type InputDeviceInfo, type InputState, DEFAULT_OUTPUT_CEILING_DB, DEFAULT_TINNITUS_NOTCH, DEFAULT_TONE_LAYER, type ShapedNoiseMix, type TinnitusNotchSettings, type ToneLayerSettings, type ToneMode } from './audio/AudioEngine';
 import { Visualizer } from './audio/Visualizer';
 import { MeisterWizard } from './ui/meister-wizard';
+import { CalibrationWizard } from './ui/calibration-wizard';
+import { encodeAudioBuffer, type ExportFormat } from './audio/AudioFileEncoder';
+import { ROOM_TYPES, type RoomSettings, type RoomType } from './audio/RoomImpulse';
+import { loadImpulseFile, saveImpulseFile } from './audio/ImpulseStore';
+import { ExposureMeter } from './audio/ExposureMeter';
+import { removeMicCalibration, saveMicCalibration } from './audio/MicCalibration';
+import { DEFAULT_MIX, SLOT_SCHEMA_VERSION, createDefaultSlotData, type CustomSlotData, type DetectionModeKind, type SlotMix } from './audio/SlotSchema';
+import { SETTINGS_KEYS, SettingsStore, isSameValue, pickSettingsState, type SettingsKey, type SettingsState, type SettingsUpdateOptions } from './audio/SettingsStore';
+import { BUILT_IN_PRESETS, PRESET_NAME_MAX_LENGTH, createPresetId, createUserPreset, findBuiltInPreset, loadPresetLibrary, matchesPresetQuery, parsePresetTags, savePresetLibrary, uniquePresetName, type BuiltInPreset, type PresetSource, type UserPreset } from './audio/PresetLibrary';
+import { ABComparison, AB_CROSSFADE_MS, AB_DIP_KEYS, AB_DIP_MS, measureLoudness, otherSide, type ABConfig, type ABSide } from './audio/ABCompare';
+import { MorphTransition, interpolateMorph, morphParamsFromBuiltIn, morphParamsFromSettings, type MorphParams } from './audio/PresetMorph';
+import { createPresetExport, createSlotShareUrl, decodeSlotShare, encodeSlotShare, parsePresetExport, readSlotShareFragment, type PresetImport } from './audio/PresetTransfer';
+import { REACTIVE_RESPONSE_OPTIONS, isReactiveResponseTarget, type ReactiveResponseMap } from './audio/ReactiveResponse';
+import { FINGERPRINT_EXAMPLES, createFingerprint, type SoundFingerprint } from './audio/SoundFingerprint';
+import { PATTERN_LEARNING_DAYS, findActiveWindow, findNextWindow, formatMinute, learnDisturbanceWindows, loadPreMaskState, mergeWindowSettings, savePreMaskState, type DisturbanceWindow, type PreMaskAction } from './audio/DisturbancePatterns';
+import { EVENT_LOG_RETENTION_DAYS, type ImpactLogEntry, clearEventLog, eventLogToCsv, eventLogToJson, pruneEventLog, queryEventLog, recordImpact, recordScoreSample } from './audio/EventLog';
+import { USER_BAND_MAX_FREQ, USER_BAND_MIN_FREQ, createUserDetectionId, getAllDetectionBands, getAllSimpleModes, isUserDetectionId, type CustomDetection, type DetectionBand, type SimpleMode } from './audio/ImpactDetector';
+import { AUTOTUNER_EQ_FREQS, EQ_LAYOUTS, LEGACY_EQ_FREQS, getLayoutFreqs, isEqBandCount, resampleEqGains, type EqBandCount } from './audio/EqBands';
 
 
 const engine = new AudioEngine();
+// マスキング設定 (UIの操作はここを更新し、UIとエンジンはここから反映する)
+// 初期ミックスはPink 50%
+const settingsStore = new SettingsStore({
+  ...pickSettingsState(createDefaultSlotData()),
+  mix: { ...DEFAULT_MIX, p: 0.5, b: 0 }
+});
 const visualizer = new Visualizer('visualizer');
 
 // ゲインインジケーター要素
@@ -72,9 +96,6 @@ const autoModeCheck = document.getElementById('auto-mode-check') as HTMLInputEle
 const sensSlider = document.getElementById('sens-slider') as HTMLInputElement;
 const sensValue = document.getElementById('sens-value') as HTMLSpanElement;
 
-// 初期設定
-volumeValue.textContent = parseFloat(volumeSlider.value).toFixed(2);
-
 // Media Session Setup
 function setupMediaSession() {
   if ('mediaSession' in navigator) {
@@ -130,8 +151,8 @@ startBtn.addEventListener('click', async () => {
     }
     await engine.resume();
 
-    // Soundscapesロード開始
-    initAndLoadSounds();
+    // Soundscapesロード開始 (読み込み前に上げていたレイヤーはロード後に鳴らす)
+    initAndLoadSounds().then(() => syncSettingsToEngine(settingsStore.get(), ['soundscapes'], null));
 
     // 現在選択されているノイズタイプを適用
     const selectedRadio = document.querySelector('input[name="noiseType"]:checked') as HTMLInputElement;
@@ -148,37 +169,18 @@ startBtn.addEventListener('click', async () => {
       navigator.mediaSession.playbackState = 'playing';
     }
 
-    // 現在の音量を適用
-    engine.setVolume(parseFloat(volumeSlider.value));
-    engine.setNoiseVolume(parseFloat(noiseSlider.value));
-    engine.setSoundscapeVolume(parseFloat(soundSlider.value));
-
-    // 他のパラメータもUIから念のため適用
-    // (SubBass, Rumbleなどはスロットロードで適用されるが、手動変更後停止->再開の場合に備える)
-
-
-
-    // 初期状態の設定
-    const slots = loadSlotData(); // Define slots here
-    if (Object.keys(slots).length > 0 && slots['slot-1']) {
+    // 停止中に変えた分も含めて、現在の設定をまとめてエンジンへ適用
+    syncSettingsToEngine(settingsStore.get(), SETTINGS_KEYS, null);
+    // ビートのランプはセッション開始から
+    engine.restartToneRamp();
 
-      // Load slot-1 if exists
-      loadFromSlot('slot-1');
-    } else {
-      // Default
-      applyMixerUI(0, 0.5, 0, 0, 0, 55, 0, 55, 1.0);
-      engine.setNoiseMix(0, 0.5, 0, 0);
-      engine.setSubBassVolume(0);
-      engine.setSubBassFrequency(55);
-      engine.setRumbleVolume(0);
-      engine.setRumbleFrequency(55);
-      engine.setRumbleSpeed(1.0);
+    // 共有リンクで開いた設定
+    if (pendingSharedSettings) {
+      applySharedSettings(pendingSharedSettings);
+      pendingSharedSettings = null;
+      presetTransferStatus.textContent = '共有リンクの設定を適用しました (Saveでプリセットに保存できます)';
     }
 
-    engine.setVolume(parseFloat(volumeSlider.value));
-    engine.setNoiseVolume(parseFloat(noiseSlider.value));
-    engine.setSoundscapeVolume(parseFloat(soundSlider.value));
-
     // ビジュアライザー開始
     const outputAnalyser = engine.getOutputAnalyser();
     if (outputAnalyser) {
@@ -221,27 +223,131 @@ stopBtn.addEventListener('click', () => {
 });
 
 volumeSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  volumeValue.textContent = val.toFixed(2);
-  engine.setVolume(val);
+  settingsStore.update({ volume: parseFloat((e.target as HTMLInputElement).value) }, { group: 'volume' });
 });
 
 noiseSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  noiseValue.textContent = val.toFixed(2);
-  engine.setNoiseVolume(val);
+  settingsStore.update({ noiseVolume: parseFloat((e.target as HTMLInputElement).value) }, { group: 'noiseVolume' });
 });
 
-soundSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  soundValue.textContent = val.toFixed(2);
-  engine.setSoundscapeVolume(val);
+// ==========================================
+// 出力リミッター & ばく露メーター
+// ==========================================
+
+// 安全設定はスロットに依存させず常に保持する
+const SAFETY_STORAGE_KEY = 'soundmasking_safety_v1';
+const EXPOSURE_INTERVAL_MS = 1000;
+// 1回の積算に数える最大時間 (バックグラウンドのタイマーは1分に1回まで間引かれることがある)
+// これより長く止まっていた分は今のレベルで数えない
+const EXPOSURE_MAX_GAP_MS = 2 * 60 * 1000;
+
+const ceilingSlider = document.getElementById('ceiling-slider') as HTMLInputElement;
+const ceilingValue = document.getElementById('ceiling-value') as HTMLSpanElement;
+const limiterReduction = document.getElementById('limiter-reduction') as HTMLSpanElement;
+const exposureMeterEl = document.getElementById('exposure-meter') as HTMLDivElement;
+const exposureDose = document.getElementById('exposure-dose') as HTMLSpanElement;
+const exposureBarFill = document.getElementById('exposure-bar-fill') as HTMLDivElement;
+const exposureDetail = document.getElementById('exposure-detail') as HTMLDivElement;
+const exposureCalibrationInput = document.getElementById('exposure-calibration') as HTMLInputElement;
+const exposureResetBtn = document.getElementById('exposure-reset-btn') as HTMLButtonElement;
+
+const exposureMeter = new ExposureMeter();
+
+function saveSafetySettings() {
+  localStorage.setItem(SAFETY_STORAGE_KEY, JSON.stringify({
+    ceilingDb: engine.getOutputCeiling(),
+    fullScaleDbSpl: exposureMeter.fullScaleDbSpl
+  }));
+}
+
+function applyCeilingUI(db: number) {
+  ceilingSlider.value = String(db);
+  ceilingValue.textContent = `${db}dB`;
+  engine.setOutputCeiling(db);
+}
+
+function formatMinutes(minutes: number): string {
+  if (!isFinite(minutes)) return '制限なし';
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}時間${Math.round(minutes % 60)}分`;
+  return `${Math.round(minutes)}分`;
+}
+
+function updateExposureUI(levelDb: number) {
+  const status = exposureMeter.status(levelDb);
+  exposureDose.textContent = `${status.dosePercent.toFixed(status.dosePercent < 10 ? 1 : 0)}%`;
+  exposureBarFill.style.width = `${Math.min(status.dosePercent, 100)}%`;
+  exposureMeterEl.classList.toggle('warning', status.level === 'warning');
+  exposureMeterEl.classList.toggle('exceeded', status.level === 'exceeded');
+
+  const levelText = isFinite(status.levelDb) ? `推定 約${Math.round(status.levelDb)}dB` : '無音';
+  if (status.level === 'exceeded') {
+    exposureDetail.textContent = `⚠️ 1日の目安を超えています (${levelText})。音量を下げてください`;
+  } else if (status.level === 'warning') {
+    exposureDetail.textContent = `⚠️ まもなく1日の目安に達します: 残り${formatMinutes(status.remainingMinutes)} (${levelText})`;
+  } else {
+    exposureDetail.textContent = `${levelText} / このレベルで上限まで ${formatMinutes(status.remainingMinutes)}`;
+  }
+}
+
+// 保存済みの安全設定を復元
+try {
+  const saved = JSON.parse(localStorage.getItem(SAFETY_STORAGE_KEY) || '{}') as { ceilingDb?: number; fullScaleDbSpl?: number };
+  applyCeilingUI(saved.ceilingDb ?? DEFAULT_OUTPUT_CEILING_DB);
+  if (saved.fullScaleDbSpl !== undefined) {
+    exposureMeter.fullScaleDbSpl = saved.fullScaleDbSpl;
+    exposureCalibrationInput.value = String(saved.fullScaleDbSpl);
+  }
+} catch (e) {
+  console.error('Failed to load safety settings', e);
+}
+updateExposureUI(-Infinity);
+
+ceilingSlider.addEventListener('input', () => {
+  applyCeilingUI(parseFloat(ceilingSlider.value));
+  saveSafetySettings();
 });
 
-// 初期表示更新
-volumeValue.textContent = parseFloat(volumeSlider.value).toFixed(2);
-noiseValue.textContent = parseFloat(noiseSlider.value).toFixed(2);
-soundValue.textContent = parseFloat(soundSlider.value).toFixed(2);
+exposureCalibrationInput.addEventListener('change', () => {
+  const value = parseFloat(exposureCalibrationInput.value);
+  if (isNaN(value)) return;
+  exposureMeter.fullScaleDbSpl = Math.max(60, Math.min(value, 130));
+  exposureCalibrationInput.value = String(exposureMeter.fullScaleDbSpl);
+  saveSafetySettings();
+});
+
+exposureResetBtn.addEventListener('click', () => {
+  if (!confirm('直近24時間のばく露量をリセットしますか？')) return;
+  exposureMeter.reset();
+  updateExposureUI(-Infinity);
+});
+
+// 積算は1分ごとに保存するため、ページを離れる・隠れるときに残りを保存する
+window.addEventListener('pagehide', () => exposureMeter.flush());
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'hidden') exposureMeter.flush();
+});
+
+// 前回積算した時刻 (performance.now)。停止中はnull
+let lastExposureTick: number | null = null;
+
+// 再生中は1秒ごとに出力レベルを積算 (タイマーが間引かれても実際の経過時間で数える)
+window.setInterval(() => {
+  if (!engine.isInitialized || stopBtn.disabled) {
+    lastExposureTick = null;
+    return;
+  }
+
+  const now = performance.now();
+  const elapsedMs = lastExposureTick === null ? EXPOSURE_INTERVAL_MS : Math.min(now - lastExposureTick, EXPOSURE_MAX_GAP_MS);
+  lastExposureTick = now;
+  const status = exposureMeter.add(engine.getOutputRms(), elapsedMs / 1000);
+  updateExposureUI(status.levelDb);
+  limiterReduction.textContent = engine.getLimiterReduction().toFixed(1);
+}, EXPOSURE_INTERVAL_MS);
+
+soundSlider.addEventListener('input', (e) => {
+  settingsStore.update({ soundVolume: parseFloat((e.target as HTMLInputElement).value) }, { group: 'soundVolume' });
+});
 
 // noiseRadiosリスナー削除（ミキサーに移行済み）
 
@@ -261,7 +367,10 @@ autoModeCheck.addEventListener('change', (e) => {
         if (inputAnalyser) {
           visualizer.setInputAnalyser(inputAnalyser);
         }
+        updateMicCalibrationStatus();
       }, 500);
+    } else {
+      updateMicCalibrationStatus();
     }
   } catch (e) {
     console.error(e);
@@ -271,9 +380,138 @@ autoModeCheck.addEventListener('change', (e) => {
 });
 
 sensSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  sensValue.textContent = val.toFixed(2);
-  engine.setSensitivity(val);
+  settingsStore.update({ sensitivity: parseFloat((e.target as HTMLInputElement).value) }, { group: 'sensitivity' });
+});
+
+// ==========================================
+// マイク選択 (抜き差しにはエンジンが追従する)
+// ==========================================
+
+const INPUT_DEVICE_STORAGE_KEY = 'soundmasking_input_device_v1';
+const micDeviceSelect = document.getElementById('mic-device-select') as HTMLSelectElement;
+const micDeviceStatus = document.getElementById('mic-device-status') as HTMLParagraphElement;
+
+// 選んだマイク (未接続でも選択肢に残すため名前も保存)
+let savedInputDevice: InputDeviceInfo | null = null;
+try {
+  savedInputDevice = JSON.parse(localStorage.getItem(INPUT_DEVICE_STORAGE_KEY) || 'null') as InputDeviceInfo | null;
+} catch (e) {
+  console.error('Failed to load input device', e);
+}
+if (savedInputDevice) engine.setInputDevice(savedInputDevice.id);
+
+async function renderMicDevices() {
+  let devices: InputDeviceInfo[] = [];
+  try {
+    devices = await engine.listInputDevices();
+  } catch (e) {
+    console.error('Failed to list input devices', e);
+  }
+
+  // 'default' / 'communications' は既定のマイクの別名 (Chrome)
+  const options = devices
+    .filter(d => d.id && d.id !== 'default' && d.id !== 'communications')
+    .map((d, i) => ({ id: d.id, label: d.label || `マイク ${i + 1}` }));
+  if (savedInputDevice && !options.some(d => d.id === savedInputDevice!.id)) {
+    options.push({ id: savedInputDevice.id, label: `${savedInputDevice.label || '選択したマイク'} (未接続)` });
+  }
+
+  micDeviceSelect.innerHTML = '<option value="">既定のマイク</option>' + options.map(d =>
+    `<option value="${escapeHtml(d.id)}">${escapeHtml(d.label)}</option>`
+  ).join('');
+  micDeviceSelect.value = savedInputDevice?.id ?? '';
+}
+
+function updateMicDeviceStatus(state: InputState) {
+  const label = engine.getInputDevice()?.label || '既定のマイク';
+  const messages: Record<InputState, string> = {
+    off: '',
+    active: `使用中: ${label}`,
+    fallback: `選択したマイクが見つかりません。${label}を使用中`,
+    lost: 'マイクが見つかりません。接続されると自動で再開します',
+    denied: 'マイクの使用が許可されていません'
+  };
+  micDeviceStatus.textContent = messages[state];
+  micDeviceStatus.classList.toggle('active', state === 'active');
+  micDeviceStatus.classList.toggle('warning', state === 'fallback' || state === 'lost');
+  micDeviceStatus.classList.toggle('error', state === 'denied');
+}
+
+engine.onInputStateChange = (state) => {
+  updateMicDeviceStatus(state);
+  updateMicCalibrationStatus();
+  if (state === 'active' || state === 'fallback') {
+    // つなぎ直すとAnalyserも作り直される
+    const inputAnalyser = engine.getInputAnalyser();
+    if (inputAnalyser) visualizer.setInputAnalyser(inputAnalyser);
+    // 許可後はデバイス名が取れる
+    renderMicDevices();
+  }
+};
+
+micDeviceSelect.addEventListener('change', async () => {
+  const id = micDeviceSelect.value;
+  // 未接続の選択肢は保存済みの名前のまま
+  const label = id === savedInputDevice?.id ? savedInputDevice.label : micDeviceSelect.selectedOptions[0]?.textContent ?? '';
+  savedInputDevice = id ? { id, label } : null;
+  localStorage.setItem(INPUT_DEVICE_STORAGE_KEY, JSON.stringify(savedInputDevice));
+  await engine.setInputDevice(id || null);
+});
+
+navigator.mediaDevices?.addEventListener('devicechange', () => renderMicDevices());
+renderMicDevices();
+
+// ==========================================
+// マイク校正 (入力デバイスごとに保存)
+// ==========================================
+
+const micCalibrateBtn = document.getElementById('mic-calibrate-btn') as HTMLButtonElement;
+const micCalibrationResetBtn = document.getElementById('mic-calibration-reset-btn') as HTMLButtonElement;
+const micCalibrationStatus = document.getElementById('mic-calibration-status') as HTMLSpanElement;
+
+// 校正値はマイク初期化時にデバイスIDで読み込まれるため、マイク使用中のみ表示できる
+function updateMicCalibrationStatus() {
+  const device = engine.getInputDevice();
+  const calibration = engine.getMicCalibration();
+  if (!device) {
+    micCalibrationStatus.textContent = '';
+  } else if (calibration) {
+    micCalibrationStatus.textContent = `校正済み (×${calibration.preampGain.toFixed(1)})`;
+  } else {
+    micCalibrationStatus.textContent = '未校正';
+  }
+  micCalibrationResetBtn.classList.toggle('hidden', !calibration);
+}
+
+micCalibrateBtn.addEventListener('click', () => {
+  // 測定はAudioContextが動いている間のみ可能
+  if (!engine.isInitialized || stopBtn.disabled) {
+    alert('Startしてから校正してください。');
+    return;
+  }
+
+  const wizard = new CalibrationWizard(
+    engine,
+    (calibration) => {
+      saveMicCalibration(calibration);
+      engine.applyMicCalibration(calibration);
+      settingsStore.update({ sensitivity: calibration.sensitivity });
+    },
+    () => {
+      // Auto Mode外で開いたマイクは閉じる
+      if (!autoModeCheck.checked) engine.releaseInput();
+      updateMicCalibrationStatus();
+    }
+  );
+  wizard.open();
+});
+
+micCalibrationResetBtn.addEventListener('click', () => {
+  const device = engine.getInputDevice();
+  if (!device || !confirm('このマイクの校正をリセットしますか？')) return;
+  removeMicCalibration(device.id);
+  engine.applyMicCalibration(null);
+  updateMicCalibrationStatus();
 });
 
 // ==========================================
@@ -303,38 +541,366 @@ detailedModeBtn.addEventListener('click', () => {
   applyDetailedModeFromCheckboxes();
 });
 
-// シンプルモードボタン
-document.querySelectorAll('.simple-mode-btn').forEach((btn) => {
-  btn.addEventListener('click', () => {
-    document.querySelectorAll('.simple-mode-btn').forEach(b => b.classList.remove('active'));
-    btn.classList.add('active');
+// ==========================================
+// 検知バンド・シンプルモード (組み込み + ユーザー定義)
+// ==========================================
 
-    const modeId = (btn as HTMLElement).dataset.mode;
-    if (modeId) {
-      engine.setDetectionSimpleMode(modeId);
-    }
+// 作業中のユーザー定義はスロットとは別に保持し、スロット保存時にコピーする
+const CUSTOM_DETECTION_STORAGE_KEY = 'soundmasking_detection_bands_v1';
+
+const simpleModeButtons = document.getElementById('simple-mode-buttons') as HTMLDivElement;
+const bandCheckboxes = document.getElementById('band-checkboxes') as HTMLDivElement;
+const createModeBtn = document.getElementById('create-mode-btn') as HTMLButtonElement;
+const bandEditorTitle = document.getElementById('band-editor-title') as HTMLHeadingElement;
+const bandNameInput = document.getElementById('band-name-input') as HTMLInputElement;
+const bandMinInput = document.getElementById('band-min-input') as HTMLInputElement;
+const bandMaxInput = document.getElementById('band-max-input') as HTMLInputElement;
+const bandDescInput = document.getElementById('band-desc-input') as HTMLInputElement;
+const bandSaveBtn = document.getElementById('band-save-btn') as HTMLButtonElement;
+const bandCancelBtn = document.getElementById('band-cancel-btn') as HTMLButtonElement;
+
+// 編集中のユーザー定義バンド (null = 新規追加)
+let editingBandId: string | null = null;
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  // 属性値にも使うため引用符もエスケープする
+  return div.innerHTML.replace(/"/g, '&quot;');
+}
+
+function formatBandRange(band: DetectionBand): string {
+  const format = (f: number) => f >= 1000 ? `${+(f / 1000).toFixed(1)}k` : `${f}`;
+  return `${format(band.minFreq)}-${format(band.maxFreq)}Hz`;
+}
+
+function getActiveSimpleModeId(): string {
+  const activeBtn = simpleModeButtons.querySelector('.simple-mode-btn.active') as HTMLElement | null;
+  return activeBtn?.dataset.mode || 'all';
+}
+
+function getCheckedBandIds(): string[] {
+  const bandIds: string[] = [];
+  bandCheckboxes.querySelectorAll('.band-check input[type="checkbox"]').forEach((checkbox) => {
+    const input = checkbox as HTMLInputElement;
+    if (input.checked && input.dataset.band) bandIds.push(input.dataset.band);
   });
+  return bandIds;
+}
+
+function renderSimpleModeButtons(activeModeId: string) {
+  const custom = engine.getCustomDetection();
+  const modes = getAllSimpleModes(custom);
+  if (!modes.some(m => m.id === activeModeId)) activeModeId = 'all';
+
+  simpleModeButtons.innerHTML = modes.map((mode) => {
+    const active = mode.id === activeModeId ? ' active' : '';
+    const button = `<button class="simple-mode-btn${active}" data-mode="${mode.id}">${escapeHtml(mode.nameJa)}</button>`;
+    if (!isUserDetectionId(mode.id)) return button;
+    return `<span class="simple-mode-item">${button}<button class="mode-delete-btn" data-mode="${mode.id}" title="削除">×</button></span>`;
+  }).join('');
+}
+
+function renderBandCheckboxes(checkedIds: string[]) {
+  const custom = engine.getCustomDetection();
+
+  bandCheckboxes.innerHTML = getAllDetectionBands(custom).map((band) => {
+    const checked = checkedIds.includes(band.id) ? ' checked' : '';
+    const userBand = isUserDetectionId(band.id);
+    const actions = userBand
+      ? `<button class="band-item-btn" data-action="edit" data-band="${band.id}" title="編集">✎</button>` +
+        `<button class="band-item-btn" data-action="delete" data-band="${band.id}" title="削除">×</button>`
+      : '';
+    return `<label class="band-check${userBand ? ' user-band' : ''}" title="${escapeHtml(band.description)}">` +
+      `<input type="checkbox" data-band="${band.id}"${checked} /> ` +
+      `<span class="band-label">${escapeHtml(band.nameJa)} (${formatBandRange(band)})</span>${actions}</label>`;
+  }).join('');
+}
+
+// ユーザー定義を反映し、UIを描き直す (選択状態は維持)
+function applyCustomDetection(custom: CustomDetection) {
+  const activeModeId = getActiveSimpleModeId();
+  const checkedIds = getCheckedBandIds();
+
+  engine.setCustomDetection(custom);
+  localStorage.setItem(CUSTOM_DETECTION_STORAGE_KEY, JSON.stringify(custom));
+
+  renderSimpleModeButtons(activeModeId);
+  renderBandCheckboxes(checkedIds);
+  renderReactiveResponses();
+}
+
+// シンプルモードボタン
+simpleModeButtons.addEventListener('click', (e) => {
+  const target = e.target as HTMLElement;
+
+  if (target.classList.contains('mode-delete-btn')) {
+    const modeId = target.dataset.mode;
+    const custom = engine.getCustomDetection();
+    const mode = custom.modes.find(m => m.id === modeId);
+    if (!mode || !confirm(`モード「${mode.nameJa}」を削除しますか？`)) return;
+
+    const wasActive = getActiveSimpleModeId() === modeId;
+    applyCustomDetection({ ...custom, modes: custom.modes.filter(m => m.id !== modeId) });
+    if (wasActive) engine.setDetectionSimpleMode('all');
+    return;
+  }
+
+  if (!target.classList.contains('simple-mode-btn')) return;
+  simpleModeButtons.querySelectorAll('.simple-mode-btn').forEach(b => b.classList.remove('active'));
+  target.classList.add('active');
+
+  const modeId = target.dataset.mode;
+  if (modeId) {
+    engine.setDetectionSimpleMode(modeId);
+  }
 });
 
 // 詳細モードチェックボックス
 function applyDetailedModeFromCheckboxes() {
-  const selectedBands: string[] = [];
-  document.querySelectorAll('.band-check input[type="checkbox"]').forEach((checkbox) => {
-    const input = checkbox as HTMLInputElement;
-    if (input.checked) {
-      const bandId = input.dataset.band;
-      if (bandId) selectedBands.push(bandId);
-    }
-  });
-  engine.setDetectionDetailedMode(selectedBands);
+  engine.setDetectionDetailedMode(getCheckedBandIds());
 }
 
-document.querySelectorAll('.band-check input[type="checkbox"]').forEach((checkbox) => {
-  checkbox.addEventListener('change', () => {
+bandCheckboxes.addEventListener('change', (e) => {
+  if ((e.target as HTMLElement).matches('input[type="checkbox"]')) {
     applyDetailedModeFromCheckboxes();
+  }
+});
+
+bandCheckboxes.addEventListener('click', (e) => {
+  const target = e.target as HTMLElement;
+  if (!target.classList.contains('band-item-btn')) return;
+  // label内のボタンのため、チェックボックスの切り替えを抑止
+  e.preventDefault();
+
+  const custom = engine.getCustomDetection();
+  const band = custom.bands.find(b => b.id === target.dataset.band);
+  if (!band) return;
+
+  if (target.dataset.action === 'edit') {
+    startBandEdit(band);
+  } else if (target.dataset.action === 'delete') {
+    if (!confirm(`バンド「${band.nameJa}」を削除しますか？`)) return;
+    if (editingBandId === band.id) resetBandEditor();
+
+    // このバンドを含むモードからも外し、空になったモードは削除
+    const modes = custom.modes
+      .map(m => ({ ...m, bandIds: m.bandIds.filter(id => id !== band.id) }))
+      .filter(m => m.bandIds.length > 0);
+    applyCustomDetection({ bands: custom.bands.filter(b => b.id !== band.id), modes });
+    applyDetailedModeFromCheckboxes();
+  }
+});
+
+function startBandEdit(band: DetectionBand) {
+  editingBandId = band.id;
+  bandEditorTitle.textContent = 'バンドを編集';
+  bandNameInput.value = band.nameJa;
+  bandMinInput.value = String(band.minFreq);
+  bandMaxInput.value = String(band.maxFreq);
+  bandDescInput.value = band.description;
+  bandSaveBtn.textContent = '更新';
+  bandCancelBtn.classList.remove('hidden');
+}
+
+function resetBandEditor() {
+  editingBandId = null;
+  bandEditorTitle.textContent = 'バンドを追加';
+  bandNameInput.value = '';
+  bandDescInput.value = '';
+  bandSaveBtn.textContent = '追加';
+  bandCancelBtn.classList.add('hidden');
+}
+
+bandSaveBtn.addEventListener('click', () => {
+  const name = bandNameInput.value.trim();
+  const minFreq = Math.round(parseFloat(bandMinInput.value));
+  const maxFreq = Math.round(parseFloat(bandMaxInput.value));
+
+  if (!name) {
+    alert('バンド名を入力してください');
+    return;
+  }
+  if (isNaN(minFreq) || isNaN(maxFreq) || minFreq < USER_BAND_MIN_FREQ || maxFreq > USER_BAND_MAX_FREQ || minFreq >= maxFreq) {
+    alert(`周波数は${USER_BAND_MIN_FREQ}-${USER_BAND_MAX_FREQ}Hzの範囲で、下限 < 上限にしてください`);
+    return;
+  }
+
+  const band: DetectionBand = {
+    id: editingBandId ?? createUserDetectionId(),
+    name,
+    nameJa: name,
+    minFreq,
+    maxFreq,
+    description: bandDescInput.value.trim()
+  };
+
+  const custom = engine.getCustomDetection();
+  const bands = editingBandId
+    ? custom.bands.map(b => b.id === editingBandId ? band : b)
+    : [...custom.bands, band];
+  applyCustomDetection({ ...custom, bands });
+  resetBandEditor();
+  // 編集したバンドの周波数を判定に反映
+  applyDetailedModeFromCheckboxes();
+});
+
+bandCancelBtn.addEventListener('click', () => {
+  resetBandEditor();
+});
+
+// 詳細モードで選択中のバンドをシンプルモードとして登録 (同名のユーザーモードは上書き)
+createModeBtn.addEventListener('click', () => {
+  const bandIds = getCheckedBandIds();
+  if (bandIds.length === 0) {
+    alert('モードに含めるバンドを選択してください');
+    return;
+  }
+
+  const name = prompt('モード名を入力してください')?.trim();
+  if (!name) return;
+
+  const custom = engine.getCustomDetection();
+  const existing = custom.modes.find(m => m.nameJa === name);
+  if (existing && !confirm(`モード「${name}」を上書きしますか？`)) return;
+
+  const mode: SimpleMode = { id: existing?.id ?? createUserDetectionId(), name, nameJa: name, bandIds };
+  const modes = existing
+    ? custom.modes.map(m => m.id === existing.id ? mode : m)
+    : [...custom.modes, mode];
+  applyCustomDetection({ ...custom, modes });
+});
+
+// 保存済みのユーザー定義を復元
+try {
+  const saved = JSON.parse(localStorage.getItem(CUSTOM_DETECTION_STORAGE_KEY) || 'null') as CustomDetection | null;
+  engine.setCustomDetection({ bands: saved?.bands ?? [], modes: saved?.modes ?? [] });
+} catch (e) {
+  console.error('Failed to load custom detection bands', e);
+}
+renderSimpleModeButtons('all');
+renderBandCheckboxes([]);
+
+// ==========================================
+// 音の学習 (フィンガープリント)
+// ==========================================
+
+const FINGERPRINT_STORAGE_KEY = 'soundmasking_fingerprints_v1';
+
+const fingerprintList = document.getElementById('fingerprint-list') as HTMLUListElement;
+const fingerprintNameInput = document.getElementById('fingerprint-name-input') as HTMLInputElement;
+const fingerprintTeachBtn = document.getElementById('fingerprint-teach-btn') as HTMLButtonElement;
+const fingerprintCancelBtn = document.getElementById('fingerprint-cancel-btn') as HTMLButtonElement;
+const fingerprintStatus = document.getElementById('fingerprint-status') as HTMLParagraphElement;
+const recognitionOnlyCheck = document.getElementById('recognition-only-check') as HTMLInputElement;
+
+let soundFingerprints: SoundFingerprint[] = [];
+
+function saveFingerprints() {
+  localStorage.setItem(FINGERPRINT_STORAGE_KEY, JSON.stringify({
+    fingerprints: soundFingerprints,
+    recognitionOnly: recognitionOnlyCheck.checked
+  }));
+}
+
+function applyFingerprints(fingerprints: SoundFingerprint[]) {
+  soundFingerprints = fingerprints;
+  engine.setSoundFingerprints(fingerprints);
+  saveFingerprints();
+  renderFingerprintList();
+}
+
+function renderFingerprintList() {
+  fingerprintList.innerHTML = soundFingerprints.map(fp => `
+    <li class="fingerprint-item">
+      <span class="fingerprint-name">${escapeHtml(fp.name)}</span>
+      <span class="fingerprint-meta">${fp.examples}例</span>
+      <label><input type="checkbox" class="fingerprint-mask" data-id="${fp.id}"${fp.mask ? ' checked' : ''} /> ブースト</label>
+      <button class="band-item-btn fingerprint-delete" data-id="${fp.id}" title="削除">×</button>
+    </li>`).join('');
+}
+
+function showRecognizedSound(name: string, confidence: number) {
+  const date = new Date();
+  fingerprintStatus.textContent = `${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')} 認識: ${name} (${Math.round(confidence * 100)}%)`;
+}
+
+function endTeaching(message: string) {
+  engine.stopTeaching();
+  fingerprintTeachBtn.disabled = false;
+  fingerprintCancelBtn.classList.add('hidden');
+  fingerprintStatus.textContent = message;
+}
+
+fingerprintTeachBtn.addEventListener('click', () => {
+  const name = fingerprintNameInput.value.trim();
+  if (!name) {
+    alert('音の名前を入力してください');
+    return;
+  }
+  if (!engine.isInitialized || !autoModeCheck.checked) {
+    alert('Auto Maskingを有効にしてから学習してください');
+    return;
+  }
+
+  const examples: Float32Array[] = [];
+  fingerprintTeachBtn.disabled = true;
+  fingerprintCancelBtn.classList.remove('hidden');
+  fingerprintStatus.textContent = `「${name}」を鳴らしてください (0/${FINGERPRINT_EXAMPLES})`;
+
+  engine.startTeaching((frames) => {
+    examples.push(frames);
+    if (examples.length < FINGERPRINT_EXAMPLES) {
+      fingerprintStatus.textContent = `「${name}」を鳴らしてください (${examples.length}/${FINGERPRINT_EXAMPLES})`;
+      return;
+    }
+
+    const fingerprint = createFingerprint(name, examples);
+    if (!fingerprint) {
+      endTeaching('学習できませんでした。もう一度お試しください');
+      return;
+    }
+    applyFingerprints([...soundFingerprints, fingerprint]);
+    fingerprintNameInput.value = '';
+    endTeaching(`「${name}」を登録しました`);
   });
 });
 
+fingerprintCancelBtn.addEventListener('click', () => {
+  endTeaching('');
+});
+
+fingerprintList.addEventListener('change', (e) => {
+  const target = e.target as HTMLInputElement;
+  if (!target.classList.contains('fingerprint-mask')) return;
+  applyFingerprints(soundFingerprints.map(fp => fp.id === target.dataset.id ? { ...fp, mask: target.checked } : fp));
+});
+
+fingerprintList.addEventListener('click', (e) => {
+  const target = e.target as HTMLElement;
+  if (!target.classList.contains('fingerprint-delete')) return;
+  const fingerprint = soundFingerprints.find(fp => fp.id === target.dataset.id);
+  if (!fingerprint || !confirm(`「${fingerprint.name}」を削除しますか？`)) return;
+  applyFingerprints(soundFingerprints.filter(fp => fp.id !== fingerprint.id));
+});
+
+recognitionOnlyCheck.addEventListener('change', () => {
+  engine.setRecognitionOnly(recognitionOnlyCheck.checked);
+  saveFingerprints();
+});
+
+// 保存済みのフィンガープリントを復元
+try {
+  const saved = JSON.parse(localStorage.getItem(FINGERPRINT_STORAGE_KEY) || 'null') as { fingerprints?: SoundFingerprint[]; recognitionOnly?: boolean } | null;
+  soundFingerprints = saved?.fingerprints ?? [];
+  recognitionOnlyCheck.checked = saved?.recognitionOnly ?? false;
+  engine.setSoundFingerprints(soundFingerprints);
+  engine.setRecognitionOnly(recognitionOnlyCheck.checked);
+} catch (e) {
+  console.error('Failed to load sound fingerprints', e);
+}
+renderFingerprintList();
+
 // ==========================================
 // ゲイン調整設定（Adaptive + Reactive）
 // ==========================================
@@ -344,9 +910,7 @@ const adaptiveSpeedSlider = document.getElementById('adaptive-speed-slider') as
 const adaptiveSpeedValue = document.getElementById('adaptive-speed-value') as HTMLSpanElement;
 
 adaptiveSpeedSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  adaptiveSpeedValue.textContent = val.toFixed(1);
-  engine.setAdaptiveSpeed(val);
+  settingsStore.update({ adaptiveSpeed: parseFloat((e.target as HTMLInputElement).value) }, { group: 'adaptiveSpeed' });
 });
 
 // Adaptive減衰時間 (Decay)
@@ -354,9 +918,7 @@ const adaptiveDecaySlider = document.getElementById('adaptive-decay-slider') as
 const adaptiveDecayValue = document.getElementById('adaptive-decay-value') as HTMLSpanElement;
 
 adaptiveDecaySlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  adaptiveDecayValue.textContent = val.toFixed(1);
-  engine.setAdaptiveDecay(val);
+  settingsStore.update({ adaptiveDecay: parseFloat((e.target as HTMLInputElement).value) }, { group: 'adaptiveDecay' });
 });
 
 // Reactive有効/無効
@@ -365,10 +927,7 @@ const reactiveControls = document.getElementById('reactive-controls') as HTMLDiv
 const reactiveSensControls = document.getElementById('reactive-sens-controls') as HTMLDivElement;
 
 reactiveCheck.addEventListener('change', (e) => {
-  const checked = (e.target as HTMLInputElement).checked;
-  engine.setReactiveEnabled(checked);
-  reactiveControls.classList.toggle('disabled', !checked);
-  reactiveSensControls.classList.toggle('disabled', !checked);
+  settingsStore.update({ reactiveEnabled: (e.target as HTMLInputElement).checked });
 });
 
 // Reactiveブースト強度
@@ -376,9 +935,7 @@ const reactiveStrengthSlider = document.getElementById('reactive-strength-slider
 const reactiveStrengthValue = document.getElementById('reactive-strength-value') as HTMLSpanElement;
 
 reactiveStrengthSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  reactiveStrengthValue.textContent = val.toFixed(2);
-  engine.setReactiveBoostStrength(val);
+  settingsStore.update({ reactiveStrength: parseFloat((e.target as HTMLInputElement).value) }, { group: 'reactiveStrength' });
 });
 
 // Reactiveブースト持続時間
@@ -386,27 +943,124 @@ const reactiveDurationSlider = document.getElementById('reactive-duration-slider
 const reactiveDurationValue = document.getElementById('reactive-duration-value') as HTMLSpanElement;
 
 reactiveDurationSlider.addEventListener('input', (e) => {
-  const val = parseInt((e.target as HTMLInputElement).value);
-  reactiveDurationValue.textContent = String(val);
-  engine.setReactiveBoostDuration(val);
+  settingsStore.update({ reactiveDuration: parseInt((e.target as HTMLInputElement).value) }, { group: 'reactiveDuration' });
 });
 
+// Reactiveブーストの掛け方 (検知バンドごと)
+const REACTIVE_RESPONSES_STORAGE_KEY = 'soundmasking_reactive_responses_v1';
+const reactiveResponseList = document.getElementById('reactive-response-list') as HTMLDivElement;
+const reactiveResponseControls = document.getElementById('reactive-response-controls') as HTMLDivElement;
+
+function renderReactiveResponses() {
+  const responses = engine.getReactiveResponses();
+  const bands: { id: string; label: string }[] = [
+    { id: 'all', label: '全帯域・学習した音' },
+    ...getAllDetectionBands(engine.getCustomDetection()).map(band => ({
+      id: band.id,
+      label: `${band.nameJa} (${formatBandRange(band)})`
+    }))
+  ];
+
+  reactiveResponseList.innerHTML = bands.map(({ id, label }) => {
+    const current = responses[id] ?? 'match';
+    const options = REACTIVE_RESPONSE_OPTIONS
+      // 全帯域検知には対応する帯域がない
+      .filter(option => id !== 'all' || option.id !== 'match')
+      .map(option => `<option value="${option.id}"${option.id === current ? ' selected' : ''}>${option.nameJa}</option>`)
+      .join('');
+    return `<label class="reactive-response-row"><span>${escapeHtml(label)}</span>` +
+      `<select data-band="${id}">${options}</select></label>`;
+  }).join('');
+}
 
-// EQ Sliders
-const eqSliders = document.querySelectorAll('.eq-slider');
-eqSliders.forEach((slider) => {
-  slider.addEventListener('input', (e) => {
-    const target = e.target as HTMLInputElement;
-    const bandIndex = parseInt(target.dataset.band || '0');
-    const gainDb = parseFloat(target.value);
+function applyReactiveResponses(responses: ReactiveResponseMap) {
+  engine.setReactiveResponses(responses);
+  localStorage.setItem(REACTIVE_RESPONSES_STORAGE_KEY, JSON.stringify(engine.getReactiveResponses()));
+  renderReactiveResponses();
+}
 
-    const valueSpan = target.parentElement?.querySelector('.eq-value');
-    if (valueSpan) {
-      valueSpan.textContent = gainDb > 0 ? `+${gainDb}` : String(gainDb);
-    }
+reactiveResponseList.addEventListener('change', (e) => {
+  const select = e.target as HTMLSelectElement;
+  const bandId = select.dataset.band;
+  if (!bandId || !isReactiveResponseTarget(select.value)) return;
+  engine.setReactiveResponse(bandId, select.value);
+  localStorage.setItem(REACTIVE_RESPONSES_STORAGE_KEY, JSON.stringify(engine.getReactiveResponses()));
+});
+
+// 保存済みの設定を復元
+try {
+  const saved = JSON.parse(localStorage.getItem(REACTIVE_RESPONSES_STORAGE_KEY) || 'null') as ReactiveResponseMap | null;
+  if (saved) engine.setReactiveResponses(saved);
+} catch (e) {
+  console.error('Failed to load reactive responses', e);
+}
+renderReactiveResponses();
+
+
+// EQ Sliders (バンド構成に合わせて動的に生成)
+const eqContainer = document.getElementById('eq-container') as HTMLDivElement;
+const eqBandCountSelect = document.getElementById('eq-band-count') as HTMLSelectElement;
+
+function formatEqGain(gainDb: number): string {
+  return gainDb > 0 ? `+${gainDb}` : String(gainDb);
+}
+
+// バンド構成が変わったときだけ作り直す (ドラッグ中のスライダーは差し替えない)
+function renderEqSliders() {
+  const { eq: gains, eqBandCount } = settingsStore.get();
+  const bands = EQ_LAYOUTS[eqBandCount];
+
+  eqBandCountSelect.value = String(eqBandCount);
+  eqContainer.innerHTML = '';
+  eqContainer.classList.toggle('dense', bands.length > 5);
+
+  bands.forEach((band, index) => {
+    const bandEl = document.createElement('div');
+    bandEl.className = 'eq-band';
+    bandEl.innerHTML = `
+      <label>${band.label}Hz</label>
+      <input type="range" class="eq-slider" data-band="${index}" min="-12" max="12" step="0.5" value="${gains[index] ?? 0}" orient="vertical" />
+      <span class="eq-value">${formatEqGain(gains[index] ?? 0)}</span>
+    `;
+    eqContainer.appendChild(bandEl);
+  });
+}
+
+eqContainer.addEventListener('input', (e) => {
+  const target = e.target as HTMLInputElement;
+  if (!target.classList.contains('eq-slider')) return;
+
+  const bandIndex = parseInt(target.dataset.band || '0');
+  const eq = [...settingsStore.get().eq];
+  eq[bandIndex] = parseFloat(target.value);
+  settingsStore.update({ eq }, { group: `eq-${bandIndex}` });
+});
 
-    engine.setEQBand(bandIndex, gainDb);
+// 表示中のスライダーの値だけ更新する
+function updateEqSliders() {
+  const { eq } = settingsStore.get();
+  eqContainer.querySelectorAll<HTMLInputElement>('.eq-slider').forEach(slider => {
+    const gain = eq[parseInt(slider.dataset.band || '0')] ?? 0;
+    slider.value = String(gain);
+    const valueSpan = slider.parentElement?.querySelector('.eq-value');
+    if (valueSpan) valueSpan.textContent = formatEqGain(gain);
   });
+}
+
+// 別のバンド構成 (旧5バンド・AutoTunerの10バンドなど) のゲインを現在のEQへ変換
+function eqForCurrentLayout(gains: number[], fromFreqs: number[]): number[] {
+  return resampleEqGains(gains, fromFreqs, getLayoutFreqs(settingsStore.get().eqBandCount));
+}
+
+// バンド数を変えても今のカーブは新しいバンドへ補間して引き継ぐ
+function eqWithBandCount(count: EqBandCount): Pick<SettingsState, 'eq' | 'eqBandCount'> {
+  const { eq, eqBandCount } = settingsStore.get();
+  return { eqBandCount: count, eq: resampleEqGains(eq, getLayoutFreqs(eqBandCount), getLayoutFreqs(count)) };
+}
+
+eqBandCountSelect.addEventListener('change', () => {
+  const count = parseInt(eqBandCountSelect.value);
+  if (isEqBandCount(count)) settingsStore.update(eqWithBandCount(count));
 });
 
 // Noise Mixer Elements
@@ -430,50 +1084,76 @@ const rumbleFreqSlider = document.getElementById('rumble-freq') as HTMLInputElem
 const valRumbleFreq = document.getElementById('val-rumble-freq') as HTMLSpanElement; // New
 const rumbleSpeedSlider = document.getElementById('rumble-speed') as HTMLInputElement; // New
 const valRumbleSpeed = document.getElementById('val-rumble-speed') as HTMLSpanElement; // New
+// Slope / Grey
+const mixSlopeSlider = document.getElementById('mix-slope') as HTMLInputElement;
+const valSlope = document.getElementById('val-slope') as HTMLSpanElement;
+const slopeDbSlider = document.getElementById('slope-db') as HTMLInputElement;
+const valSlopeDb = document.getElementById('val-slope-db') as HTMLSpanElement;
+const mixGreySlider = document.getElementById('mix-grey') as HTMLInputElement;
+const valGrey = document.getElementById('val-grey') as HTMLSpanElement;
+// Stereo Width
+const mixWidthSlider = document.getElementById('mix-width') as HTMLInputElement;
+const valWidth = document.getElementById('val-width') as HTMLSpanElement;
 
 // Mixer Event Handlers
 function updateMixer() {
-  const w = parseFloat(mixWhiteSlider.value);
-  const p = parseFloat(mixPinkSlider.value);
-  const b = parseFloat(mixBrownSlider.value);
-  const d = parseFloat(mixDarkSlider.value);
-  const s = parseFloat(mixSubSlider.value);
-  const sf = parseFloat(subFreqSlider.value); // New
-  const r = parseFloat(mixRumbleSlider.value); // New
-
-  valWhite.textContent = Math.round(w * 100) + '%';
-  valPink.textContent = Math.round(p * 100) + '%';
-  valBrown.textContent = Math.round(b * 100) + '%';
-  valDark.textContent = Math.round(d * 100) + '%';
-  valSub.textContent = Math.round(s * 100) + '%';
-  valSubFreq.textContent = sf.toFixed(0) + 'Hz'; // New
-  valRumble.textContent = Math.round(r * 100) + '%'; // New
-
-  const rf = parseFloat(rumbleFreqSlider.value);
-  const rs = parseFloat(rumbleSpeedSlider.value);
-  valRumbleFreq.textContent = rf.toFixed(0) + 'Hz';
-  valRumbleSpeed.textContent = rs.toFixed(1) + 'Hz';
-  // Rumble (r) is handled separately by setRumbleVolume for smoothing
-  engine.setNoiseMix(w, p, b, d);
-  engine.setSubBassVolume(s);
-  engine.setSubBassFrequency(sf);
-  engine.setRumbleVolume(r);
-  engine.setRumbleFrequency(rf); // New
-  engine.setRumbleSpeed(rs); // New
-}
-
-// UI更新ヘルパー (プリセット適用時などに使う)
-function applyMixerUI(w: number, p: number, b: number, d: number, s: number, sf: number, r: number, rf: number, rs: number) {
-  mixWhiteSlider.value = String(w);
-  mixPinkSlider.value = String(p);
-  mixBrownSlider.value = String(b);
-  mixDarkSlider.value = String(d);
-  mixSubSlider.value = String(s);
-  subFreqSlider.value = String(sf);
-  mixRumbleSlider.value = String(r);
-  rumbleFreqSlider.value = String(rf);
-  rumbleSpeedSlider.value = String(rs);
-  updateMixer();
+  settingsStore.update({
+    mix: {
+      w: parseFloat(mixWhiteSlider.value),
+      p: parseFloat(mixPinkSlider.value),
+      b: parseFloat(mixBrownSlider.value),
+      d: parseFloat(mixDarkSlider.value),
+      s: parseFloat(mixSubSlider.value),
+      sf: parseFloat(subFreqSlider.value),
+      r: parseFloat(mixRumbleSlider.value),
+      rf: parseFloat(rumbleFreqSlider.value),
+      rs: parseFloat(rumbleSpeedSlider.value),
+      sl: parseFloat(mixSlopeSlider.value),
+      sd: parseFloat(slopeDbSlider.value),
+      g: parseFloat(mixGreySlider.value)
+    }
+  }, { group: 'mix' });
+}
+
+// Slope/Grey 未指定時 (旧データ・旧プリセット)
+const DEFAULT_SHAPED_MIX: ShapedNoiseMix = { slope: 0, slopeDb: -3, grey: 0 };
+
+// ミックス設定 (sl, sd, g) から整形ノイズ設定を取り出す
+function shapedFromMix(m: { sl?: number; sd?: number; g?: number }): ShapedNoiseMix {
+  return {
+    slope: m.sl ?? DEFAULT_SHAPED_MIX.slope,
+    slopeDb: m.sd ?? DEFAULT_SHAPED_MIX.slopeDb,
+    grey: m.g ?? DEFAULT_SHAPED_MIX.grey
+  };
+}
+
+// ミックス設定をスライダーと表示に反映
+function renderMixer(m: SlotMix) {
+  mixWhiteSlider.value = String(m.w);
+  mixPinkSlider.value = String(m.p);
+  mixBrownSlider.value = String(m.b);
+  mixDarkSlider.value = String(m.d);
+  mixSubSlider.value = String(m.s);
+  subFreqSlider.value = String(m.sf);
+  mixRumbleSlider.value = String(m.r);
+  rumbleFreqSlider.value = String(m.rf);
+  rumbleSpeedSlider.value = String(m.rs);
+  mixSlopeSlider.value = String(m.sl);
+  slopeDbSlider.value = String(m.sd);
+  mixGreySlider.value = String(m.g);
+
+  valWhite.textContent = Math.round(m.w * 100) + '%';
+  valPink.textContent = Math.round(m.p * 100) + '%';
+  valBrown.textContent = Math.round(m.b * 100) + '%';
+  valDark.textContent = Math.round(m.d * 100) + '%';
+  valSub.textContent = Math.round(m.s * 100) + '%';
+  valSubFreq.textContent = m.sf.toFixed(0) + 'Hz';
+  valRumble.textContent = Math.round(m.r * 100) + '%';
+  valRumbleFreq.textContent = m.rf.toFixed(0) + 'Hz';
+  valRumbleSpeed.textContent = m.rs.toFixed(1) + 'Hz';
+  valSlope.textContent = Math.round(m.sl * 100) + '%';
+  valSlopeDb.textContent = (m.sd > 0 ? '+' : '') + m.sd.toFixed(1);
+  valGrey.textContent = Math.round(m.g * 100) + '%';
 }
 
 [mixWhiteSlider, mixPinkSlider, mixBrownSlider, mixDarkSlider, mixSubSlider].forEach(slider => {
@@ -483,499 +1163,1258 @@ subFreqSlider.addEventListener('input', updateMixer); // New
 mixRumbleSlider.addEventListener('input', updateMixer); // New
 rumbleFreqSlider.addEventListener('input', updateMixer); // New
 rumbleSpeedSlider.addEventListener('input', updateMixer); // New
+[mixSlopeSlider, slopeDbSlider, mixGreySlider].forEach(slider => {
+  slider.addEventListener('input', updateMixer);
+});
 
-// プリセット定義（リサーチ資料に基づく最適設定）
-// プリセット定義（リサーチ資料に基づく最適設定）
-interface Preset {
-  mix: { w: number; p: number; b: number; d: number; s?: number; r?: number; sf?: number; rf?: number; rs?: number }; // White, Pink, Brown, Dark, Sub, Rumble, SubFreq, RumbleFreq, RumbleSpeed
-  eq: number[];      // 5バンドEQ値 [60Hz, 250Hz, 1kHz, 4kHz, 12kHz]
-  volume: number;
-  density?: number; // 0.0 - 1.0 (Dry/Wet)
+// Stereo Width (ミックスとは独立して適用)
+mixWidthSlider.addEventListener('input', (e) => {
+  settingsStore.update({ stereoWidth: parseFloat((e.target as HTMLInputElement).value) }, { group: 'stereoWidth' });
+});
+
+// 組み込みプリセットが変更する項目
+// ノイズ・EQ・Tone Layer・音量・Densityだけで、Soundscapeなどはそのまま
+function builtInPresetSettings(preset: BuiltInPreset): Partial<SettingsState> {
+  return {
+    mix: { ...DEFAULT_MIX, ...preset.mix },
+    // EQ設定 (プリセットは5バンド定義)
+    eq: eqForCurrentLayout(preset.eq, LEGACY_EQ_FREQS),
+    toneLayer: preset.tone ?? DEFAULT_TONE_LAYER,
+    volume: preset.volume,
+    ...(preset.density !== undefined ? { density: preset.density } : {})
+  };
 }
 
-const PRESETS: Record<string, Preset> = {
-  // 子供の走り回り (LH): < 63Hz, Deep Brown主体 + 60Hz Max Boost
-  footsteps_child: { mix: { w: 0, p: 0, b: 0.8, d: 0.8 }, eq: [12, 6, 0, -4, -8], volume: 0.20, density: 0.0 },
+// 組み込みプリセット適用関数
+function applyPreset(preset: BuiltInPreset, options?: SettingsUpdateOptions) {
+  presetMorph.cancel();
+  settingsStore.update(builtInPresetSettings(preset), options);
 
-  // 大人の歩行 (LH): 63-250Hz, Brown/Pink Mix + 250Hz Boost
-  footsteps_adult: { mix: { w: 0, p: 0.2, b: 0.6, d: 0.4 }, eq: [4, 8, 2, 0, -4], volume: 0.18, density: 0.0 },
+  setActivePreset(preset.id);
+}
+
+// ==========================================
+// プリセットの設定 (現在の設定の取得・反映)
+// ==========================================
+
+// 現在の設定を取得 (Auto Maskingの検出モードなどストア外の項目はUI・エンジンから)
+function getCurrentSettings(): CustomSlotData {
+  const detectionMode: DetectionModeKind = document.getElementById('simple-mode-panel')?.classList.contains('hidden') ? 'detailed' : 'simple';
+
+  return {
+    version: SLOT_SCHEMA_VERSION,
+    ...pickSettingsState(settingsStore.get()),
+
+    // Auto Masking
+    autoMode: autoModeCheck.checked,
+    detectionMode,
+    simpleModeId: getActiveSimpleModeId(),
+    detailedBands: getCheckedBandIds(),
+    customDetection: engine.getCustomDetection(),
+    reactiveResponses: engine.getReactiveResponses(),
+    savedAt: new Date().toISOString()
+  };
+}
+
+// 1/f Fluctuation Controls
+const fluctuationCheck = document.getElementById('fluctuation-check') as HTMLInputElement;
+const fluctuationStrengthSlider = document.getElementById('fluctuation-strength-slider') as HTMLInputElement;
+const fluctuationStrengthValue = document.getElementById('fluctuation-strength-value') as HTMLSpanElement;
+
+// Density Controls
+const densitySlider = document.getElementById('density-slider') as HTMLInputElement;
+const densityValue = document.getElementById('density-value') as HTMLSpanElement;
+
+// Density Event
+densitySlider.addEventListener('input', (e) => {
+  settingsStore.update({ density: parseFloat((e.target as HTMLInputElement).value) }, { group: 'density' });
+});
+
+// Tinnitus Notch Controls
+const notchCheck = document.getElementById('notch-check') as HTMLInputElement;
+const notchFreqInput = document.getElementById('notch-freq') as HTMLInputElement;
+const notchPreviewBtn = document.getElementById('notch-preview-btn') as HTMLButtonElement;
+const notchDepthSlider = document.getElementById('notch-depth-slider') as HTMLInputElement;
+const notchDepthValue = document.getElementById('notch-depth-value') as HTMLSpanElement;
+const notchWidthSlider = document.getElementById('notch-width-slider') as HTMLInputElement;
+const notchWidthValue = document.getElementById('notch-width-value') as HTMLSpanElement;
+
+function getNotchSettings(): TinnitusNotchSettings {
+  const frequency = parseFloat(notchFreqInput.value);
+  return {
+    enabled: notchCheck.checked,
+    frequency: isNaN(frequency) ? DEFAULT_TINNITUS_NOTCH.frequency : Math.max(100, Math.min(frequency, 16000)),
+    depth: parseFloat(notchDepthSlider.value),
+    width: parseFloat(notchWidthSlider.value)
+  };
+}
+
+function updateNotch() {
+  settingsStore.update({ tinnitusNotch: getNotchSettings() }, { group: 'tinnitusNotch' });
+}
+
+function renderNotch(notch: TinnitusNotchSettings) {
+  notchCheck.checked = notch.enabled;
+  notchFreqInput.value = String(notch.frequency);
+  notchDepthSlider.value = String(notch.depth);
+  notchWidthSlider.value = String(notch.width);
+  notchDepthValue.textContent = String(notch.depth);
+  notchWidthValue.textContent = notch.width.toFixed(2);
+}
+
+notchCheck.addEventListener('change', updateNotch);
+notchFreqInput.addEventListener('change', updateNotch);
+notchDepthSlider.addEventListener('input', updateNotch);
+notchWidthSlider.addEventListener('input', updateNotch);
+
+notchPreviewBtn.addEventListener('click', () => {
+  if (!engine.isInitialized) {
+    alert('先にStartを押してください');
+    return;
+  }
+  engine.previewTone(settingsStore.get().tinnitusNotch.frequency);
+});
+
+// Tone Layer Controls
+const toneModeSelect = document.getElementById('tone-mode') as HTMLSelectElement;
+const toneLevelSlider = document.getElementById('tone-level-slider') as HTMLInputElement;
+const toneLevelValue = document.getElementById('tone-level-value') as HTMLSpanElement;
+const toneCarrierSlider = document.getElementById('tone-carrier-slider') as HTMLInputElement;
+const toneCarrierValue = document.getElementById('tone-carrier-value') as HTMLSpanElement;
+const toneBeatSlider = document.getElementById('tone-beat-slider') as HTMLInputElement;
+const toneBeatValue = document.getElementById('tone-beat-value') as HTMLSpanElement;
+const toneBeatEndSlider = document.getElementById('tone-beat-end-slider') as HTMLInputElement;
+const toneBeatEndValue = document.getElementById('tone-beat-end-value') as HTMLSpanElement;
+const toneRampSlider = document.getElementById('tone-ramp-slider') as HTMLInputElement;
+const toneRampValue = document.getElementById('tone-ramp-value') as HTMLSpanElement;
+
+function getToneSettings(): ToneLayerSettings {
+  return {
+    mode: toneModeSelect.value as ToneMode,
+    carrier: parseFloat(toneCarrierSlider.value),
+    beat: parseFloat(toneBeatSlider.value),
+    beatEnd: parseFloat(toneBeatEndSlider.value),
+    rampMinutes: parseFloat(toneRampSlider.value),
+    level: parseFloat(toneLevelSlider.value)
+  };
+}
+
+function updateTone() {
+  settingsStore.update({ toneLayer: getToneSettings() }, { group: 'toneLayer' });
+}
+
+function renderTone(tone: ToneLayerSettings) {
+  toneModeSelect.value = tone.mode;
+  toneLevelSlider.value = String(tone.level);
+  toneCarrierSlider.value = String(tone.carrier);
+  toneBeatSlider.value = String(tone.beat);
+  toneBeatEndSlider.value = String(tone.beatEnd);
+  toneRampSlider.value = String(tone.rampMinutes);
+  toneLevelValue.textContent = Math.round(tone.level * 100) + '%';
+  toneCarrierValue.textContent = tone.carrier.toFixed(0);
+  toneBeatValue.textContent = tone.beat.toFixed(1);
+  toneBeatEndValue.textContent = tone.beatEnd.toFixed(1);
+  toneRampValue.textContent = tone.rampMinutes > 0 ? `${tone.rampMinutes}分` : 'なし';
+}
+
+toneModeSelect.addEventListener('change', updateTone);
+[toneLevelSlider, toneCarrierSlider, toneBeatSlider, toneBeatEndSlider, toneRampSlider].forEach(slider => {
+  slider.addEventListener('input', updateTone);
+});
+
+// Density Room Controls
+const roomTypeSelect = document.getElementById('room-type') as HTMLSelectElement;
+const roomSizeSlider = document.getElementById('room-size-slider') as HTMLInputElement;
+const roomDampingSlider = document.getElementById('room-damping-slider') as HTMLInputElement;
+const roomPredelaySlider = document.getElementById('room-predelay-slider') as HTMLInputElement;
+const roomEarlySlider = document.getElementById('room-early-slider') as HTMLInputElement;
+const roomSpreadSlider = document.getElementById('room-spread-slider') as HTMLInputElement;
+const roomIrFileInput = document.getElementById('room-ir-file') as HTMLInputElement;
+const roomIrName = document.getElementById('room-ir-name') as HTMLSpanElement;
+
+function getRoomSettings(): RoomSettings {
+  const current = settingsStore.get().room;
+  return {
+    type: roomTypeSelect.value as RoomType,
+    size: parseFloat(roomSizeSlider.value),
+    damping: parseFloat(roomDampingSlider.value),
+    predelay: parseFloat(roomPredelaySlider.value),
+    early: parseFloat(roomEarlySlider.value),
+    spread: parseFloat(roomSpreadSlider.value),
+    userIrId: current.userIrId,
+    userIrName: current.userIrName
+  };
+}
+
+function updateRoomLabels() {
+  (document.getElementById('room-size-value') as HTMLSpanElement).textContent = parseFloat(roomSizeSlider.value).toFixed(2);
+  (document.getElementById('room-damping-value') as HTMLSpanElement).textContent = parseFloat(roomDampingSlider.value).toFixed(2);
+  (document.getElementById('room-predelay-value') as HTMLSpanElement).textContent = roomPredelaySlider.value;
+  (document.getElementById('room-early-value') as HTMLSpanElement).textContent = parseFloat(roomEarlySlider.value).toFixed(2);
+  (document.getElementById('room-spread-value') as HTMLSpanElement).textContent = parseFloat(roomSpreadSlider.value).toFixed(2);
+}
+
+function setRoomSliders(room: RoomSettings) {
+  roomSizeSlider.value = String(room.size);
+  roomDampingSlider.value = String(room.damping);
+  roomPredelaySlider.value = String(room.predelay);
+  roomEarlySlider.value = String(room.early);
+  roomSpreadSlider.value = String(room.spread);
+  updateRoomLabels();
+}
+
+// IRファイルをIndexedDBから読み込んで適用 (見つからなければclassicに戻す)
+async function applyUserImpulse(room: RoomSettings) {
+  const stored = room.userIrId ? await loadImpulseFile(room.userIrId) : null;
+  if (!stored) {
+    console.warn('User IR not found:', room.userIrId);
+    settingsStore.update({ room: { ...room, type: 'classic' } }, { history: 'none' });
+    roomIrName.textContent = 'IRファイルが見つかりません';
+    return;
+  }
+  await engine.loadUserImpulse(stored.data, room);
+}
+
+function renderRoom(room: RoomSettings) {
+  roomTypeSelect.value = room.type;
+  setRoomSliders(room);
+  roomIrName.textContent = room.type === 'user' ? (room.userIrName ?? '') : '';
+}
+
+// 部屋の設定をエンジンへ (IRの作り直しは重いため、エンジンと同じ設定なら何もしない)
+function syncRoomToEngine(room: RoomSettings) {
+  if (isSameValue(room, engine.getRoom())) return;
+  if (room.type === 'user') {
+    if (!engine.isInitialized) return;
+    applyUserImpulse(room).catch(e => console.error('Failed to load user IR:', e));
+  } else {
+    engine.setRoom(room);
+  }
+}
+
+roomTypeSelect.addEventListener('change', () => {
+  const type = roomTypeSelect.value as RoomType;
+  if (type === 'user') {
+    if (settingsStore.get().room.userIrId && engine.isInitialized) {
+      settingsStore.update({ room: getRoomSettings() });
+    } else {
+      roomIrFileInput.click();
+    }
+    return;
+  }
+  settingsStore.update({ room: { ...getRoomSettings(), ...ROOM_TYPES[type] } });
+});
+
+// スライダーを動かしたらカスタム扱い (IR生成が重いためchangeで反映)
+document.querySelectorAll('.room-param').forEach(slider => {
+  slider.addEventListener('input', updateRoomLabels);
+  slider.addEventListener('change', () => {
+    settingsStore.update({ room: { ...getRoomSettings(), type: roomTypeSelect.value === 'user' ? 'user' : 'custom' } });
+  });
+});
+
+// ファイル選択をキャンセルしたら選択を元に戻す
+roomIrFileInput.addEventListener('cancel', () => {
+  roomTypeSelect.value = settingsStore.get().room.type;
+});
+
+roomIrFileInput.addEventListener('change', async () => {
+  const file = roomIrFileInput.files?.[0];
+  roomIrFileInput.value = '';
+  if (!file) return;
+
+  if (!engine.isInitialized) {
+    alert('先にStartを押してください');
+    return;
+  }
+
+  try {
+    const data = await file.arrayBuffer();
+    const id = await saveImpulseFile(file.name, data);
+    await engine.loadUserImpulse(data, { ...getRoomSettings(), type: 'user', userIrId: id, userIrName: file.name });
+    settingsStore.update({ room: engine.getRoom() });
+  } catch (e) {
+    console.error('Failed to load IR file:', e);
+    alert('IRファイルを読み込めませんでした');
+    roomTypeSelect.value = settingsStore.get().room.type;
+  }
+});
+
+// 1/f Fluctuation Events
+fluctuationCheck.addEventListener('change', (e) => {
+  settingsStore.update({ fluctuationEnabled: (e.target as HTMLInputElement).checked });
+});
+
+fluctuationStrengthSlider.addEventListener('input', (e) => {
+  settingsStore.update({ fluctuationStrength: parseFloat((e.target as HTMLInputElement).value) }, { group: 'fluctuationStrength' });
+});
+
+// ==========================================
+// 設定ストアの反映 (エンジン・UI)
+// ==========================================
+
+/**
+ * 変更された項目をエンジンへ反映する
+ * @param previous 変更前の状態 (nullなら鳴っているSoundscapeをすべて適用し直す)
+ */
+function syncSettingsToEngine(state: Readonly<SettingsState>, changed: readonly SettingsKey[], previous: Readonly<SettingsState> | null) {
+  const has = (key: SettingsKey) => changed.includes(key);
+
+  if (has('mix')) {
+    const m = state.mix;
+    // Rumble (r) is handled separately by setRumbleVolume for smoothing
+    engine.setNoiseMix(m.w, m.p, m.b, m.d, undefined, shapedFromMix(m));
+    engine.setSubBassVolume(m.s);
+    engine.setSubBassFrequency(m.sf);
+    engine.setRumbleVolume(m.r);
+    engine.setRumbleFrequency(m.rf);
+    engine.setRumbleSpeed(m.rs);
+  }
+
+  if (has('eqBandCount')) engine.setEQBandCount(state.eqBandCount);
+  if (has('eq') || has('eqBandCount')) {
+    const current = engine.getEQValues();
+    state.eq.forEach((gain, index) => {
+      if (current[index] !== gain) engine.setEQBand(index, gain);
+    });
+  }
+
+  if (has('volume')) engine.setVolume(state.volume);
+  if (has('noiseVolume')) engine.setNoiseVolume(state.noiseVolume);
+  if (has('soundVolume')) engine.setSoundscapeVolume(state.soundVolume);
+
+  if (has('soundscapes')) {
+    // 値が変わったレイヤーだけ更新する (再生中のレイヤーは止めずに音量だけ動かす)
+    const before = previous?.soundscapes ?? {};
+    new Set([...Object.keys(before), ...Object.keys(state.soundscapes)]).forEach(id => {
+      const vol = state.soundscapes[id] ?? 0;
+      if (!previous || vol !== (before[id] ?? 0)) engine.setSoundVolume(id, vol);
+    });
+  }
+
+  if (has('density')) engine.setDensity(state.density);
+  if (has('stereoWidth')) engine.setStereoWidth(state.stereoWidth);
+  if (has('fluctuationEnabled')) engine.setFluctuation(state.fluctuationEnabled);
+  if (has('fluctuationStrength')) engine.setFluctuationStrength(state.fluctuationStrength);
+  if (has('tinnitusNotch')) engine.setTinnitusNotch(state.tinnitusNotch);
+  if (has('toneLayer')) engine.setToneLayer(state.toneLayer);
+  if (has('room')) syncRoomToEngine(state.room);
+
+  if (has('sensitivity')) engine.setSensitivity(state.sensitivity);
+  if (has('adaptiveSpeed')) engine.setAdaptiveSpeed(state.adaptiveSpeed);
+  if (has('adaptiveDecay')) engine.setAdaptiveDecay(state.adaptiveDecay);
+  if (has('reactiveEnabled')) engine.setReactiveEnabled(state.reactiveEnabled);
+  if (has('reactiveStrength')) engine.setReactiveBoostStrength(state.reactiveStrength);
+  if (has('reactiveDuration')) engine.setReactiveBoostDuration(state.reactiveDuration);
+}
+
+// 変更された項目をスライダーと表示に反映する
+function renderSettings(state: Readonly<SettingsState>, changed: readonly SettingsKey[]) {
+  const has = (key: SettingsKey) => changed.includes(key);
+
+  if (has('mix')) renderMixer(state.mix);
+  if (has('eqBandCount')) {
+    renderEqSliders();
+  } else if (has('eq')) {
+    updateEqSliders();
+  }
+
+  if (has('volume')) {
+    volumeSlider.value = String(state.volume);
+    volumeValue.textContent = state.volume.toFixed(2);
+  }
+  if (has('noiseVolume')) {
+    noiseSlider.value = String(state.noiseVolume);
+    noiseValue.textContent = state.noiseVolume.toFixed(2);
+  }
+  if (has('soundVolume')) {
+    soundSlider.value = String(state.soundVolume);
+    soundValue.textContent = state.soundVolume.toFixed(2);
+  }
+  if (has('soundscapes')) {
+    document.querySelectorAll<HTMLInputElement>('.sound-slider').forEach(slider => {
+      const id = slider.dataset.sound;
+      slider.value = String(id ? state.soundscapes[id] ?? 0 : 0);
+    });
+  }
+
+  if (has('density')) {
+    densitySlider.value = String(state.density);
+    densityValue.textContent = state.density.toFixed(2);
+  }
+  if (has('stereoWidth')) {
+    mixWidthSlider.value = String(state.stereoWidth);
+    valWidth.textContent = Math.round(state.stereoWidth * 100) + '%';
+  }
+  if (has('fluctuationEnabled')) fluctuationCheck.checked = state.fluctuationEnabled;
+  if (has('fluctuationStrength')) {
+    fluctuationStrengthSlider.value = String(state.fluctuationStrength);
+    fluctuationStrengthValue.textContent = state.fluctuationStrength.toFixed(1);
+  }
+  if (has('tinnitusNotch')) renderNotch(state.tinnitusNotch);
+  if (has('toneLayer')) renderTone(state.toneLayer);
+  if (has('room')) renderRoom(state.room);
+
+  if (has('sensitivity')) {
+    sensSlider.value = String(state.sensitivity);
+    sensValue.textContent = state.sensitivity.toFixed(2);
+  }
+  if (has('adaptiveSpeed')) {
+    adaptiveSpeedSlider.value = String(state.adaptiveSpeed);
+    adaptiveSpeedValue.textContent = state.adaptiveSpeed.toFixed(1);
+  }
+  if (has('adaptiveDecay')) {
+    adaptiveDecaySlider.value = String(state.adaptiveDecay);
+    adaptiveDecayValue.textContent = state.adaptiveDecay.toFixed(1);
+  }
+  if (has('reactiveEnabled')) {
+    reactiveCheck.checked = state.reactiveEnabled;
+    reactiveControls.classList.toggle('disabled', !state.reactiveEnabled);
+    reactiveSensControls.classList.toggle('disabled', !state.reactiveEnabled);
+    reactiveResponseControls.classList.toggle('disabled', !state.reactiveEnabled);
+  }
+  if (has('reactiveStrength')) {
+    reactiveStrengthSlider.value = String(state.reactiveStrength);
+    reactiveStrengthValue.textContent = state.reactiveStrength.toFixed(2);
+  }
+  if (has('reactiveDuration')) {
+    reactiveDurationSlider.value = String(state.reactiveDuration);
+    reactiveDurationValue.textContent = String(state.reactiveDuration);
+  }
+}
 
-  // 落下音 (LL): 100-500Hz, Pink主体 mid-range boost
-  impact_mid: { mix: { w: 0, p: 0.7, b: 0.3, d: 0.2 }, eq: [2, 6, 4, 0, -4], volume: 0.15, density: 0.0 },
+settingsStore.subscribe(syncSettingsToEngine);
+settingsStore.subscribe(renderSettings);
+renderSettings(settingsStore.get(), SETTINGS_KEYS);
 
-  // 話し声・テレビ: 100-3kHz, Pink/White Mix
-  voices: { mix: { w: 0.2, p: 0.6, b: 0.2, d: 0 }, eq: [-4, 4, 8, 4, -2], volume: 0.12, density: 0.1 },
+// ------------------------------------------
+// 取り消し・やり直し
+// ------------------------------------------
 
-  // 睡眠用: High cut for relaxation, High Density
-  sleep: { mix: { w: 0, p: 0, b: 1.0, d: 0.1 }, eq: [6, 4, 0, -6, -10], volume: 0.08, density: 0.6 },
+const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
+const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
 
-  // カフェ: White/Pink/Brown balanced, Medium Density
-  cafe: { mix: { w: 0.1, p: 0.4, b: 0.4, d: 0.1 }, eq: [2, 2, 2, 2, 0], volume: 0.12, density: 0.3 },
+function updateUndoButtons() {
+  undoBtn.disabled = !settingsStore.canUndo();
+  redoBtn.disabled = !settingsStore.canRedo();
+}
 
-  // 瞑想: Deep Brown + Sub, High Density
-  deep_focus: { mix: { w: 0, p: 0, b: 0.5, d: 0.5, s: 0.3 }, eq: [4, 0, 0, -5, -10], volume: 0.15, density: 0.5 },
+// 切り替え中の補間は止めてから戻す
+function undoSettings() {
+  presetMorph.cancel();
+  settingsStore.undo();
+}
 
-  // 集中用: Pink/Brown Mix
-  focus: { mix: { w: 0, p: 0.6, b: 0.4, d: 0 }, eq: [2, 2, 0, 0, -2], volume: 0.1, density: 0.0 },
+function redoSettings() {
+  presetMorph.cancel();
+  settingsStore.redo();
+}
 
-  // 耳鳴り/高音対策: > 4kHz, White + High Boost
-  tinnitus: { mix: { w: 0.4, p: 0.1, b: 0, d: 0 }, eq: [-12, -6, 0, 6, 12], volume: 0.05, density: 0.2 },
+undoBtn.addEventListener('click', undoSettings);
+redoBtn.addEventListener('click', redoSettings);
+
+// Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) (文字入力中はブラウザの取り消しに任せる)
+document.addEventListener('keydown', (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+  const target = e.target as HTMLElement;
+  if (target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && target.type !== 'range' && target.type !== 'checkbox')) return;
+
+  const key = e.key.toLowerCase();
+  if (key === 'z' && !e.shiftKey) {
+    e.preventDefault();
+    undoSettings();
+  } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+    e.preventDefault();
+    redoSettings();
+  }
+});
 
-  // フラット
-  flat: { mix: { w: 0.5, p: 0, b: 0, d: 0 }, eq: [0, 0, 0, 0, 0], volume: 0.1, density: 0.0 }
-};
+settingsStore.subscribe(updateUndoButtons);
+updateUndoButtons();
+
+// 設定をUIとエンジンに反映 (ユーザープリセット・共有リンク・予測マスキングからの復帰)
+function applySlotSettings(slotData: CustomSlotData, options?: SettingsUpdateOptions) {
+  presetMorph.cancel();
+
+  // ノイズ・EQ・音量・Soundscape・Room・Tone Layer・Auto Maskingの調整値
+  // (V9以前のスロットのEQは5バンド構成として読み込まれる)
+  settingsStore.update(pickSettingsState(slotData), options);
+
+  // ユーザー定義バンド・モード
+  // 作業中の定義は消さず、スロットの定義をIDで上書き追加する
+  const custom = engine.getCustomDetection();
+  const merge = <T extends { id: string }>(current: T[], incoming: T[]) =>
+    [...current.filter(item => !incoming.some(i => i.id === item.id)), ...incoming];
+  applyCustomDetection({
+    bands: merge(custom.bands, slotData.customDetection.bands),
+    modes: merge(custom.modes, slotData.customDetection.modes)
+  });
 
-// プリセット適用関数
-function applyPreset(presetName: string) {
-  const preset = PRESETS[presetName];
-  if (!preset) return;
+  // Reactiveブーストの掛け方
+  applyReactiveResponses(slotData.reactiveResponses);
 
-  // ノイズミキシング設定適用
-  const m = preset.mix;
-  const s = m.s || 0;
-  const sf = m.sf || 55; // New: default to 55Hz
-  const r = m.r || 0; // New: default to 0
-  const rf = m.rf || 55; // New
-  const rs = m.rs || 1.0; // New
-  applyMixerUI(m.w, m.p, m.b, m.d, s, sf, r, rf, rs); // Added sf, r, rf, rs
-
-  engine.setNoiseMix(m.w, m.p, m.b, m.d); // Don't pass r here
-  engine.setSubBassVolume(s);
-  engine.setSubBassFrequency(sf);
-  engine.setRumbleVolume(r); // Use setTargetAtTime for consistency
-  engine.setRumbleFrequency(rf);
-  engine.setRumbleSpeed(rs);
-
-
-  // EQ設定
-  preset.eq.forEach((gain, index) => {
-    engine.setEQBand(index, gain);
-    const slider = document.querySelector(`.eq-slider[data-band="${index}"]`) as HTMLInputElement;
-    if (slider) {
-      slider.value = String(gain);
-      const valueSpan = slider.parentElement?.querySelector('.eq-value');
-      if (valueSpan) {
-        valueSpan.textContent = gain > 0 ? `+${gain}` : String(gain);
-      }
-    }
-  });
+  // Auto Masking復元
+  autoModeCheck.checked = slotData.autoMode;
+  // Dispatch event to trigger engine update
+  autoModeCheck.dispatchEvent(new Event('change'));
 
-  // ボリューム設定
-  engine.setVolume(preset.volume);
-  volumeSlider.value = String(preset.volume);
-  engine.setVolume(preset.volume);
-  volumeValue.textContent = preset.volume.toFixed(2);
+  // Mode Selection
+  if (slotData.detectionMode === 'detailed') {
+    detailedModeBtn.click();
+    // Restore checked bands
+    renderBandCheckboxes(slotData.detailedBands);
+    applyDetailedModeFromCheckboxes();
 
-  // Density
-  if (preset.density !== undefined) {
-    const d = preset.density;
-    densitySlider.value = String(d);
-    densityValue.textContent = d.toFixed(2);
-    engine.setDensity(d);
+  } else {
+    simpleModeBtn.click();
+    // Click corresponding simple mode button
+    const btn = simpleModeButtons.querySelector(`.simple-mode-btn[data-mode="${slotData.simpleModeId}"]`) as HTMLElement;
+    if (btn) btn.click();
   }
 
-  // アクティブ表示
-  document.querySelectorAll('.preset-btn').forEach(btn => btn.classList.remove('active'));
-  const activeBtn = document.querySelector(`.preset-btn[data-preset="${presetName}"]`);
-  if (activeBtn) activeBtn.classList.add('active');
+  // プリセットのアクティブ表示をクリア
+  setActivePreset(null);
 }
 
-// プリセットボタンイベント
-const presetBtns = document.querySelectorAll('.preset-btn');
-presetBtns.forEach((btn) => {
-  btn.addEventListener('click', () => {
-    const presetName = (btn as HTMLElement).dataset.preset;
-    if (presetName) {
-      applyPreset(presetName);
-    }
-  });
-});
 
 // ==========================================
-// カスタムスロット機能
+// プリセットライブラリ
 // ==========================================
 
-const SLOT_STORAGE_KEY = 'soundmasking_custom_slots_v2'; // v2へ移行
-
-interface CustomSlotData {
-  mix: { w: number; p: number; b: number; d: number; s?: number; r?: number; sf?: number; rf?: number; rs?: number }; // Sub, Rumble, SubFreq, RumbleFreq, RumbleSpeed added
-  eq: number[];
-  volume: number;
-  noiseVolume: number; // New V3
-  soundVolume: number; // New V3
-  soundscapes: Record<string, number>; // New V3: Sound ID -> volume
-
-  // New V4: Auto Masking settings (Timer excluded)
-  autoMode: boolean;
-  detectionMode: string; // 'simple' or 'detailed'
-  simpleModeId: string; // e.g., 'all'
-  detailedBands: string[]; // List of checked bands
+const presetButtons = document.getElementById('preset-buttons') as HTMLDivElement;
+const presetNameInput = document.getElementById('preset-name-input') as HTMLInputElement;
+const presetSaveBtn = document.getElementById('preset-save-btn') as HTMLButtonElement;
+const presetSearchInput = document.getElementById('preset-search') as HTMLInputElement;
+const presetFilterSelect = document.getElementById('preset-filter') as HTMLSelectElement;
+const presetList = document.getElementById('preset-list') as HTMLUListElement;
+const presetExportBtn = document.getElementById('preset-export-btn') as HTMLButtonElement;
+const presetImportBtn = document.getElementById('preset-import-btn') as HTMLButtonElement;
+const presetImportFile = document.getElementById('preset-import-file') as HTMLInputElement;
+const presetLinkBtn = document.getElementById('preset-link-btn') as HTMLButtonElement;
+const presetTransferStatus = document.getElementById('preset-transfer-status') as HTMLParagraphElement;
+const presetTransitionSelect = document.getElementById('preset-transition') as HTMLSelectElement;
+const presetMorphASelect = document.getElementById('preset-morph-a') as HTMLSelectElement;
+const presetMorphBSelect = document.getElementById('preset-morph-b') as HTMLSelectElement;
+const presetMorphSlider = document.getElementById('preset-morph-slider') as HTMLInputElement;
+const presetMorphStatus = document.getElementById('preset-morph-status') as HTMLParagraphElement;
+
+type PresetFilter = 'all' | 'favorite' | 'user' | 'builtin';
+
+type PresetListItem =
+  | { kind: 'user'; preset: UserPreset; favorite: boolean }
+  | { kind: 'builtin'; preset: BuiltInPreset; favorite: boolean };
+
+const PRESET_SOURCE_LABELS: Record<PresetSource, string> = {
+  user: '',
+  slot: '旧スロット',
+  meister: 'Meister',
+  import: '読み込み'
+};
 
-  // Auto Masking Sliders
-  adaptiveSpeed: number;
-  adaptiveDecay: number;
-  reactiveEnabled: boolean;
-  sensitivity: number;
-  reactiveStrength: number;
-  reactiveDuration: number;
+const { library: presetLibrary, backup: presetBackup } = loadPresetLibrary();
+// 読み込み中のプリセット (組み込み・ユーザー共通のID)
+let activePresetId: string | null = null;
+// 名前・タグ・メモを編集中のユーザープリセット
+let editingPresetId: string | null = null;
+// 一覧に「変更あり」を表示しているか
+let presetDirtyShown = false;
+// 共有リンクで開いた設定 (エンジン起動前はStart時に適用する)
+let pendingSharedSettings: CustomSlotData | null = null;
+// Load時の切り替え (切り替え時間が0以外のとき)
+const presetMorph = new MorphTransition();
+// モーフスライダーの両端 (組み込みプリセットの未指定項目は選んだ時点の設定で補う)
+let morphEndpoints: { a: MorphParams; b: MorphParams } | null = null;
+
+function formatPresetDate(iso: string): string {
+  const date = new Date(iso);
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
 
-  // New V5: Fluctuation
-  fluctuationEnabled?: boolean;
-  fluctuationStrength?: number;
+function renderQuickPresets() {
+  const button = (id: string, icon: string, name: string) =>
+    `<button class="preset-btn${id === activePresetId ? ' active' : ''}" data-preset="${escapeHtml(id)}">` +
+    `<span class="preset-icon">${icon}</span><span class="preset-name">${escapeHtml(name)}</span></button>`;
 
-  // New V6: Density
-  density?: number;
+  // 組み込み + お気に入りのユーザープリセット
+  presetButtons.innerHTML = [
+    ...BUILT_IN_PRESETS.map(p => button(p.id, p.icon, p.name)),
+    ...presetLibrary.presets.filter(p => p.favorite).map(p => button(p.id, '⭐', p.name))
+  ].join('');
+}
 
-  savedAt: string;
+// 絞り込み・検索に一致するプリセット (お気に入り → ユーザー (更新順) → 組み込み)
+function getVisiblePresets(): PresetListItem[] {
+  const filter = presetFilterSelect.value as PresetFilter;
+  const favoriteBuiltIns = new Set(presetLibrary.favoriteBuiltIns);
+  const items: PresetListItem[] = [
+    ...[...presetLibrary.presets]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(preset => ({ kind: 'user' as const, preset, favorite: preset.favorite })),
+    ...BUILT_IN_PRESETS.map(preset => ({ kind: 'builtin' as const, preset, favorite: favoriteBuiltIns.has(preset.id) }))
+  ];
+  return items
+    .filter(item => filter === 'all' || (filter === 'favorite' ? item.favorite : item.kind === filter))
+    .filter(item => matchesPresetQuery(item.preset, presetSearchInput.value))
+    .sort((a, b) => Number(b.favorite) - Number(a.favorite));
 }
 
-// 現在の設定を取得
-function getCurrentSettings(): CustomSlotData {
-  const mix = {
-    w: parseFloat(mixWhiteSlider.value),
-    p: parseFloat(mixPinkSlider.value),
-    b: parseFloat(mixBrownSlider.value),
-    d: parseFloat(mixDarkSlider.value),
-    s: parseFloat(mixSubSlider.value),
-    sf: parseFloat(subFreqSlider.value), // New
-    r: parseFloat(mixRumbleSlider.value), // New
-    rf: parseFloat(rumbleFreqSlider.value), // New
-    rs: parseFloat(rumbleSpeedSlider.value) // New
-  };
+function renderPresetEditor(preset: UserPreset): string {
+  return `<div class="preset-edit">` +
+    `<input type="text" class="preset-edit-name" maxlength="${PRESET_NAME_MAX_LENGTH}" value="${escapeHtml(preset.name)}" placeholder="名前" />` +
+    `<input type="text" class="preset-edit-tags" value="${escapeHtml(preset.tags.join(', '))}" placeholder="タグ (カンマ区切り)" />` +
+    `<textarea class="preset-edit-note" rows="2" placeholder="メモ">${escapeHtml(preset.note)}</textarea>` +
+    `<div class="preset-edit-actions">` +
+    `<button class="slot-btn save-btn" data-action="save-edit">保存</button>` +
+    `<button class="slot-btn" data-action="overwrite">現在の設定で上書き</button>` +
+    `<button class="slot-btn" data-action="cancel-edit">キャンセル</button>` +
+    `</div></div>`;
+}
 
-  const eq: number[] = [];
-  document.querySelectorAll('.eq-slider').forEach((slider) => {
-    eq.push(parseFloat((slider as HTMLInputElement).value));
-  });
+function renderPresetItem(item: PresetListItem): string {
+  const { preset } = item;
+  const active = preset.id === activePresetId ? ' active' : '';
+  const dirty = active && presetDirtyShown ? '<span class="preset-dirty">変更あり</span>' : '';
+  const tags = preset.tags.map(t => `<span class="preset-tag">${escapeHtml(t)}</span>`).join('');
+  let name = escapeHtml(preset.name);
+  let meta = '組み込み';
+  let actions = '';
+  let editor = '';
+  if (item.kind === 'builtin') {
+    name = `${item.preset.icon} ${name}`;
+  } else {
+    const source = PRESET_SOURCE_LABELS[item.preset.source];
+    meta = `${source ? `${source} / ` : ''}${formatPresetDate(item.preset.updatedAt)}`;
+    actions = `<button class="slot-btn" data-action="edit">Edit</button>` +
+      `<button class="slot-btn" data-action="duplicate">Copy</button>` +
+      `<button class="slot-btn danger" data-action="delete">Delete</button>`;
+    if (preset.id === editingPresetId) editor = renderPresetEditor(item.preset);
+  }
 
-  const volume = parseFloat(volumeSlider.value);
-  const noiseVolume = parseFloat(noiseSlider.value);
-  const soundVolume = parseFloat(soundSlider.value);
+  return `<li class="preset-item${active}" data-preset="${escapeHtml(preset.id)}">` +
+    `<button class="preset-fav-btn${item.favorite ? ' on' : ''}" data-action="favorite" title="お気に入り">★</button>` +
+    `<div class="preset-info"><span class="preset-item-name">${name}</span>` +
+    (tags ? `<span class="preset-tags">${tags}</span>` : '') +
+    (preset.note ? `<span class="preset-note">${escapeHtml(preset.note)}</span>` : '') +
+    `<span class="preset-meta">${meta}${dirty}</span></div>` +
+    `<div class="preset-actions"><button class="slot-btn load-btn" data-action="load">Load</button>${actions}</div>` +
+    `${editor}</li>`;
+}
 
-  const soundscapes: Record<string, number> = {};
-  document.querySelectorAll('.sound-slider').forEach((slider) => {
-    const s = slider as HTMLInputElement;
-    const id = s.dataset.sound;
-    if (id && parseFloat(s.value) > 0) {
-      soundscapes[id] = parseFloat(s.value);
-    }
-  });
+function renderPresetLibrary() {
+  presetDirtyShown = activePresetId !== null && settingsStore.isDirty();
+  renderQuickPresets();
+  const items = getVisiblePresets();
+  const empty = presetFilterSelect.value === 'user' && presetLibrary.presets.length === 0
+    ? 'まだ保存したプリセットはありません'
+    : '該当するプリセットはありません';
+  presetList.innerHTML = items.map(renderPresetItem).join('') || `<li class="desc">${empty}</li>`;
+}
 
-  // Auto Masking Settings
-  const autoMode = autoModeCheck.checked;
-  const detectionMode = document.getElementById('simple-mode-panel')?.classList.contains('hidden') ? 'detailed' : 'simple';
+function savePresets() {
+  savePresetLibrary(presetLibrary);
+  renderPresetLibrary();
+  renderMorphOptions();
+  renderABOptions();
+  // 予測マスキングの切り替え先の一覧も更新
+  renderPreMask();
+}
 
-  const activeSimpleBtn = document.querySelector('.simple-mode-btn.active') as HTMLElement;
-  const simpleModeId = activeSimpleBtn ? activeSimpleBtn.dataset.mode || 'all' : 'all';
+// 読み込んだプリセットから変わった・戻ったときだけ一覧を描き直す
+settingsStore.subscribe(() => {
+  if ((activePresetId !== null && settingsStore.isDirty()) !== presetDirtyShown) renderPresetLibrary();
+});
 
-  const detailedBands: string[] = [];
-  document.querySelectorAll('.band-check input[type="checkbox"]').forEach((c) => {
-    const cb = c as HTMLInputElement;
-    if (cb.checked && cb.dataset.band) detailedBands.push(cb.dataset.band);
-  });
+// 読み込んだ・保存したプリセットを、変更の有無の比較元にする
+function setActivePreset(id: string | null) {
+  activePresetId = id;
+  settingsStore.setBaseline(id ? settingsStore.get() : null);
+  renderPresetLibrary();
+}
 
-  // Fluctuation
-  const fluctuationEnabled = fluctuationCheck.checked;
-  const fluctuationStrength = parseFloat(fluctuationStrengthSlider.value);
+function loadPresetById(id: string) {
+  const builtIn = findBuiltInPreset(id);
+  if (builtIn) {
+    transitionToPreset(builtIn.name, morphParamsFromBuiltIn(builtIn, getCurrentMorphParams()), (options) => applyPreset(builtIn, options));
+    return;
+  }
+  const preset = presetLibrary.presets.find(p => p.id === id);
+  if (!preset) return;
+  transitionToPreset(preset.name, morphParamsFromSettings(preset.settings), (options) => {
+    applySlotSettings(preset.settings, options);
+    setActivePreset(preset.id);
+  }, preset.settings.eqBandCount);
+}
 
-  return {
-    mix,
-    eq,
-    volume,
-    noiseVolume,
-    soundVolume,
-    soundscapes,
+function addUserPreset(preset: UserPreset) {
+  presetLibrary.presets.push({ ...preset, name: uniquePresetName(preset.name, presetLibrary.presets) });
+}
 
-    // Auto Masking
-    autoMode,
-    detectionMode,
-    simpleModeId,
-    detailedBands,
-    adaptiveSpeed: parseFloat(adaptiveSpeedSlider.value),
-    adaptiveDecay: parseFloat(adaptiveDecaySlider.value),
-    reactiveEnabled: reactiveCheck.checked,
-    sensitivity: parseFloat(sensSlider.value),
-    reactiveStrength: parseFloat(reactiveStrengthSlider.value),
-    reactiveDuration: parseInt(reactiveDurationSlider.value),
-
-    fluctuationEnabled,
-    fluctuationStrength,
-    density: parseFloat(densitySlider.value),
-    savedAt: new Date().toISOString()
-  };
+function toggleFavoritePreset(id: string) {
+  const preset = presetLibrary.presets.find(p => p.id === id);
+  if (preset) {
+    preset.favorite = !preset.favorite;
+  } else if (findBuiltInPreset(id)) {
+    const favorites = presetLibrary.favoriteBuiltIns;
+    presetLibrary.favoriteBuiltIns = favorites.includes(id) ? favorites.filter(f => f !== id) : [...favorites, id];
+  }
+  savePresets();
 }
 
-// 1/f Fluctuation Controls
-const fluctuationCheck = document.getElementById('fluctuation-check') as HTMLInputElement;
-const fluctuationStrengthSlider = document.getElementById('fluctuation-strength-slider') as HTMLInputElement;
-const fluctuationStrengthValue = document.getElementById('fluctuation-strength-value') as HTMLSpanElement;
+function saveCurrentAsPreset() {
+  const name = presetNameInput.value.trim() || `プリセット ${formatPresetDate(new Date().toISOString())}`;
+  const preset = createUserPreset(name, getCurrentSettings());
+  addUserPreset(preset);
+  presetNameInput.value = '';
+  savePresets();
+  setActivePreset(preset.id);
+  presetTransferStatus.textContent = `「${presetLibrary.presets[presetLibrary.presets.length - 1].name}」を保存しました`;
+}
 
-// Density Controls
-const densitySlider = document.getElementById('density-slider') as HTMLInputElement;
-const densityValue = document.getElementById('density-value') as HTMLSpanElement;
+presetSaveBtn.addEventListener('click', saveCurrentAsPreset);
+presetNameInput.addEventListener('keydown', (e) => {
+  if (e.key === 'Enter') saveCurrentAsPreset();
+});
 
-// Density Event
-densitySlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  densityValue.textContent = val.toFixed(2);
-  engine.setDensity(val);
+presetButtons.addEventListener('click', (e) => {
+  const button = (e.target as HTMLElement).closest<HTMLElement>('.preset-btn');
+  if (button?.dataset.preset) loadPresetById(button.dataset.preset);
 });
 
-// 1/f Fluctuation Events
-fluctuationCheck.addEventListener('change', (e) => {
-  const checked = (e.target as HTMLInputElement).checked;
-  engine.setFluctuation(checked);
+presetSearchInput.addEventListener('input', renderPresetLibrary);
+presetFilterSelect.addEventListener('change', renderPresetLibrary);
+
+presetList.addEventListener('click', (e) => {
+  const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+  const item = button?.closest<HTMLLIElement>('.preset-item');
+  const id = item?.dataset.preset;
+  if (!button || !item || !id) return;
+  const preset = presetLibrary.presets.find(p => p.id === id);
+
+  switch (button.dataset.action) {
+    case 'load':
+      loadPresetById(id);
+      break;
+    case 'favorite':
+      toggleFavoritePreset(id);
+      break;
+    case 'edit':
+      editingPresetId = editingPresetId === id ? null : id;
+      renderPresetLibrary();
+      break;
+    case 'cancel-edit':
+      editingPresetId = null;
+      renderPresetLibrary();
+      break;
+    case 'save-edit': {
+      if (!preset) break;
+      const name = (item.querySelector('.preset-edit-name') as HTMLInputElement).value.trim();
+      const others = presetLibrary.presets.filter(p => p.id !== id);
+      preset.name = name ? uniquePresetName(name.slice(0, PRESET_NAME_MAX_LENGTH), others) : preset.name;
+      preset.tags = parsePresetTags((item.querySelector('.preset-edit-tags') as HTMLInputElement).value);
+      preset.note = (item.querySelector('.preset-edit-note') as HTMLTextAreaElement).value.trim();
+      preset.updatedAt = new Date().toISOString();
+      editingPresetId = null;
+      savePresets();
+      break;
+    }
+    case 'overwrite':
+      if (!preset || !confirm(`「${preset.name}」を現在の設定で上書きしますか?`)) break;
+      preset.settings = getCurrentSettings();
+      preset.updatedAt = preset.settings.savedAt;
+      editingPresetId = null;
+      savePresets();
+      setActivePreset(preset.id);
+      presetTransferStatus.textContent = `「${preset.name}」を上書きしました`;
+      break;
+    case 'duplicate':
+      if (!preset) break;
+      addUserPreset({ ...createUserPreset(preset.name, preset.settings), tags: [...preset.tags], note: preset.note });
+      savePresets();
+      break;
+    case 'delete':
+      if (!preset || !confirm(`「${preset.name}」を削除しますか?`)) break;
+      presetLibrary.presets = presetLibrary.presets.filter(p => p.id !== id);
+      savePresets();
+      if (activePresetId === id) setActivePreset(null);
+      break;
+  }
 });
 
-fluctuationStrengthSlider.addEventListener('input', (e) => {
-  const val = parseFloat((e.target as HTMLInputElement).value);
-  fluctuationStrengthValue.textContent = val.toFixed(1);
-  engine.setFluctuationStrength(val);
+// ------------------------------------------
+// 書き出し・読み込み・共有リンク
+// ------------------------------------------
+
+// 表示中のユーザープリセットを書き出す
+presetExportBtn.addEventListener('click', () => {
+  const presets = getVisiblePresets().flatMap(item => item.kind === 'user' ? [item.preset] : []);
+  if (presets.length === 0) {
+    alert('書き出すプリセットがありません');
+    return;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(new Blob([createPresetExport(presets)], { type: 'application/json' }), `soundmasking-presets-${date}.json`);
+  presetTransferStatus.textContent = `${presets.length}件のプリセットを書き出しました`;
 });
 
-// スロットデータを読み込み
-function loadSlotData(): Record<string, CustomSlotData> {
-  try {
-    const data = localStorage.getItem(SLOT_STORAGE_KEY);
-    return data ? JSON.parse(data) : {};
-  } catch {
-    return {};
-  }
-}
-
-// スロットデータを保存
-function saveSlotData(slots: Record<string, CustomSlotData>) {
-  localStorage.setItem(SLOT_STORAGE_KEY, JSON.stringify(slots));
-}
-
-// スロットにセーブ
-function saveToSlot(slotId: string) {
-  const slots = loadSlotData();
-  slots[slotId] = getCurrentSettings();
-  saveSlotData(slots);
-  updateSlotUI();
-}
-
-// スロットからロード
-function loadFromSlot(slotId: string) {
-  const slots = loadSlotData();
-  const slotData = slots[slotId];
-  if (!slotData) return;
-
-  // ノイズタイプ設定
-  // ノイズ設定復元
-  // 旧データ互換性チェック: noiseTypeがある場合は変換
-  const anySlot = slotData as any;
-  if (anySlot.noiseType !== undefined && !slotData.mix) {
-    // Migration
-    const type = anySlot.noiseType;
-    let w = 0, p = 0, b = 0, d = 0, s = 0;
-    if (type === 0) w = 1;
-    else if (type === 1) p = 1;
-    else b = 1;
-
-    applyMixerUI(w, p, b, d, s, 55, 0, 55, 1.0); // Updated arguments
-    engine.setNoiseMix(w, p, b, d);
-    engine.setSubBassVolume(s);
-  } else if (slotData.mix) {
-    const m = slotData.mix;
-    // 古いデータにはs, sf, r, rf, rsがないかもしれないのでチェック
-    const s = (m as any).s || 0;
-    const sf = (m as any).sf || 55;
-    const r = (m as any).r || 0;
-    const rf = (m as any).rf || 55;
-    const rs = (m as any).rs || 1.0;
-
-    applyMixerUI(m.w, m.p, m.b, m.d, s, sf, r, rf, rs); // Updated arguments
-    engine.setNoiseMix(m.w, m.p, m.b, m.d);
-    engine.setSubBassVolume(s);
-  }
-
-  // EQ設定
-  slotData.eq.forEach((gain, index) => {
-    engine.setEQBand(index, gain);
-    const slider = document.querySelector(`.eq-slider[data-band="${index}"]`) as HTMLInputElement;
-    if (slider) {
-      slider.value = String(gain);
-      const valueSpan = slider.parentElement?.querySelector('.eq-value');
-      if (valueSpan) {
-        valueSpan.textContent = gain > 0 ? `+${gain}` : String(gain);
-      }
-    }
-  });
+presetImportBtn.addEventListener('click', () => presetImportFile.click());
 
-  // ボリューム設定
-  engine.setVolume(slotData.volume);
-  volumeSlider.value = String(slotData.volume);
-  volumeValue.textContent = slotData.volume.toFixed(2);
+presetImportFile.addEventListener('change', async () => {
+  const file = presetImportFile.files?.[0];
+  presetImportFile.value = '';
+  if (!file) return;
 
-  if (slotData.noiseVolume !== undefined) {
-    engine.setNoiseVolume(slotData.noiseVolume);
-    noiseSlider.value = String(slotData.noiseVolume);
-    noiseValue.textContent = slotData.noiseVolume.toFixed(2);
+  let imported: PresetImport;
+  try {
+    imported = parsePresetExport(await file.text());
+  } catch (e) {
+    console.error('Failed to import presets:', e);
+    alert('プリセットのファイルを読み込めませんでした');
+    return;
   }
 
-  if (slotData.soundVolume !== undefined) {
-    engine.setSoundscapeVolume(slotData.soundVolume);
-    soundSlider.value = String(slotData.soundVolume);
-    soundValue.textContent = slotData.soundVolume.toFixed(2);
+  // 同じIDのプリセットがあれば上書きするか確認し、しない場合は別のプリセットとして追加
+  for (const preset of imported.presets) {
+    const index = presetLibrary.presets.findIndex(p => p.id === preset.id);
+    if (index < 0) {
+      addUserPreset(preset);
+    } else if (confirm(`「${presetLibrary.presets[index].name}」は既にあります。読み込んだ内容で上書きしますか?\n(キャンセルすると別のプリセットとして追加します)`)) {
+      presetLibrary.presets[index] = preset;
+    } else {
+      addUserPreset({ ...preset, id: createPresetId() });
+    }
   }
 
-  // Soundscapes復元 (一度全てリセットしてから適用)
-  document.querySelectorAll('.sound-slider').forEach((slider) => {
-    const s = slider as HTMLInputElement;
-    const id = s.dataset.sound;
+  savePresets();
+  presetTransferStatus.textContent = imported.skipped > 0
+    ? `${imported.presets.length}件を読み込みました (読めないため${imported.skipped}件を読み込みませんでした)`
+    : `${imported.presets.length}件を読み込みました`;
+});
 
-    let vol = 0;
-    if (slotData.soundscapes && id && slotData.soundscapes[id] !== undefined) {
-      vol = slotData.soundscapes[id];
+presetLinkBtn.addEventListener('click', async () => {
+  try {
+    const url = createSlotShareUrl(location.href, await encodeSlotShare(getCurrentSettings()));
+    if (navigator.clipboard) {
+      await navigator.clipboard.writeText(url);
+      presetTransferStatus.textContent = '現在の設定の共有リンクをコピーしました';
+    } else {
+      prompt('共有リンク', url);
     }
+  } catch (e) {
+    console.error('Failed to create share link:', e);
+    alert('共有リンクを作成できませんでした');
+  }
+});
 
-    s.value = String(vol);
-    if (id) engine.setSoundVolume(id, vol);
-  });
+// 共有リンクの設定を適用する
+// Auto Masking (マイク入力) はリンクだけでは切り替えず、今の状態のままにする
+function applySharedSettings(settings: CustomSlotData) {
+  applySlotSettings({ ...settings, autoMode: autoModeCheck.checked });
+}
+
+// 共有リンクで開いた場合は設定を読み込む (再読み込みで再適用しないようフラグメントは消す)
+async function readSharedLink() {
+  const value = readSlotShareFragment(location.hash);
+  if (!value) return;
+  history.replaceState(null, '', location.pathname + location.search);
 
-  // Fluctuation
-  if (slotData.fluctuationEnabled !== undefined) {
-    fluctuationCheck.checked = slotData.fluctuationEnabled;
-    engine.setFluctuation(slotData.fluctuationEnabled);
+  const settings = await decodeSlotShare(value);
+  if (!settings) {
+    alert('共有リンクの設定を読み込めませんでした');
+    return;
+  }
+  if (engine.isInitialized) {
+    applySharedSettings(settings);
+    presetTransferStatus.textContent = '共有リンクの設定を適用しました (Saveでプリセットに保存できます)';
   } else {
-    fluctuationCheck.checked = false;
-    engine.setFluctuation(false);
+    pendingSharedSettings = settings;
+    presetTransferStatus.textContent = '共有リンクの設定を読み込みました。Startで適用されます';
   }
+}
+
+window.addEventListener('hashchange', () => { readSharedLink(); });
+readSharedLink();
+
+// ------------------------------------------
+// 切り替え (クロスフェード)・モーフ
+// ------------------------------------------
+
+const PRESET_TRANSITION_STORAGE_KEY = 'soundmasking_preset_transition_v1';
+
+function getCurrentMorphParams(): MorphParams {
+  return morphParamsFromSettings(getCurrentSettings());
+}
 
-  if (slotData.fluctuationStrength !== undefined) {
-    fluctuationStrengthSlider.value = String(slotData.fluctuationStrength);
-    fluctuationStrengthValue.textContent = slotData.fluctuationStrength.toFixed(1);
-    engine.setFluctuationStrength(slotData.fluctuationStrength);
+// 補間した値の設定 (Tone LayerやAuto Maskingなどには触れない)
+// EQはeqFreqsの構成に合わせる
+function morphSettingsPatch(params: MorphParams, eqFreqs: number[]): Partial<SettingsState> {
+  const soundscapes: Record<string, number> = {};
+  Object.entries(params.soundscapes).forEach(([id, vol]) => {
+    if (vol > 0) soundscapes[id] = vol;
+  });
+  return {
+    mix: params.mix,
+    eq: resampleEqGains(params.eq, params.eqFreqs, eqFreqs),
+    volume: params.volume,
+    noiseVolume: params.noiseVolume,
+    soundVolume: params.soundVolume,
+    density: params.density,
+    stereoWidth: params.stereoWidth,
+    soundscapes
+  };
+}
+
+// 補間した値をストアへ
+function applyMorphParams(params: MorphParams, options: SettingsUpdateOptions) {
+  settingsStore.update(morphSettingsPatch(params, getLayoutFreqs(settingsStore.get().eqBandCount)), options);
+}
+
+/**
+ * 切り替え時間をかけてプリセットへ移る
+ * 連続的なパラメータを補間し、最後にapplyTargetでプリセットの全設定を適用する
+ * 取り消しは切り替え全体で1回 (途中経過は履歴に残さない)
+ */
+function transitionToPreset(name: string, target: MorphParams, applyTarget: (options: SettingsUpdateOptions) => void, eqBandCount?: EqBandCount) {
+  presetMorph.cancel();
+  morphEndpoints = null;
+  const durationMs = parseFloat(presetTransitionSelect.value) * 1000;
+  if (!engine.isInitialized || !(durationMs > 0)) {
+    presetMorphStatus.textContent = '';
+    applyTarget({});
+    return;
   }
 
-  // Density
-  if (slotData.density !== undefined) {
-    densitySlider.value = String(slotData.density);
-    densityValue.textContent = slotData.density.toFixed(2);
-    engine.setDensity(slotData.density);
-  } else {
-    densitySlider.value = "0";
-    densityValue.textContent = "0.00";
-    engine.setDensity(0);
-  }
-
-  // Auto Masking復元 (V4)
-  if (slotData.autoMode !== undefined) {
-    autoModeCheck.checked = slotData.autoMode;
-    // Dispatch event to trigger engine update
-    autoModeCheck.dispatchEvent(new Event('change'));
-
-    // Mode Selection
-    if (slotData.detectionMode === 'detailed') {
-      detailedModeBtn.click();
-      // Restore checked bands
-      document.querySelectorAll('.band-check input[type="checkbox"]').forEach((c) => {
-        const cb = c as HTMLInputElement;
-        cb.checked = slotData.detailedBands.includes(cb.dataset.band || '');
-      });
-      // Apply
-      // applyDetailedModeFromCheckboxes(); // Function might not be defined or needed if event listener handles it?
-      // Checkboxes change event updates engine? Yes.
-      // Manually trigger update
-      document.querySelectorAll('.band-check input[type="checkbox"]').forEach((c) => {
-        c.dispatchEvent(new Event('change'));
-      });
+  const from = getCurrentMorphParams();
+  settingsStore.checkpoint();
+  // EQのバンド数は先に切り替える (今のカーブは新しいバンドに引き継がれる)
+  if (eqBandCount !== undefined) settingsStore.update(eqWithBandCount(eqBandCount), { history: 'none' });
+  const eqFreqs = getLayoutFreqs(settingsStore.get().eqBandCount);
+
+  presetMorph.start(from, target, durationMs, (params, progress) => {
+    applyMorphParams(params, { history: 'none' });
+    presetMorphStatus.textContent = `「${name}」へ切り替え中... ${Math.round(progress * 100)}%`;
+  }, () => {
+    applyTarget({ history: 'none' });
+    presetMorphStatus.textContent = `「${name}」に切り替えました`;
+  }, eqFreqs);
+}
 
+// プリセットの選択肢 (選択中のプリセットは残し、なければindex番目を選ぶ)
+function renderPresetOptions(selects: HTMLSelectElement[], extra: string = '') {
+  const options = extra + [
+    ...presetLibrary.presets.map(p => `<option value="${escapeHtml(p.id)}">${escapeHtml(p.name)}</option>`),
+    ...BUILT_IN_PRESETS.map(p => `<option value="${escapeHtml(p.id)}">${p.icon} ${escapeHtml(p.name)}</option>`)
+  ].join('');
+  selects.forEach((select, index) => {
+    // 初回 (選択肢がまだない) はindex番目
+    const selected = select.options.length > 0 ? select.value : null;
+    select.innerHTML = options;
+    if (selected !== null && [...select.options].some(o => o.value === selected)) {
+      select.value = selected;
     } else {
-      simpleModeBtn.click();
-      // Click corresponding simple mode button
-      const btn = document.querySelector(`.simple-mode-btn[data-mode="${slotData.simpleModeId}"]`) as HTMLElement;
-      if (btn) btn.click();
+      select.selectedIndex = Math.min(index, select.options.length - 1);
     }
+  });
+}
 
-    // Sliders & Checks
-    adaptiveSpeedSlider.value = String(slotData.adaptiveSpeed);
-    adaptiveSpeedValue.textContent = slotData.adaptiveSpeed.toFixed(1);
-    engine.setAdaptiveSpeed(slotData.adaptiveSpeed);
+// モーフのA/Bの選択肢
+function renderMorphOptions() {
+  renderPresetOptions([presetMorphASelect, presetMorphBSelect]);
+  morphEndpoints = null;
+}
 
-    adaptiveDecaySlider.value = String(slotData.adaptiveDecay);
-    adaptiveDecayValue.textContent = slotData.adaptiveDecay.toFixed(1);
-    engine.setAdaptiveDecay(slotData.adaptiveDecay);
+function resolveMorphParams(id: string, current: MorphParams): MorphParams | null {
+  const builtIn = findBuiltInPreset(id);
+  if (builtIn) return morphParamsFromBuiltIn(builtIn, current);
+  const preset = presetLibrary.presets.find(p => p.id === id);
+  return preset ? morphParamsFromSettings(preset.settings) : null;
+}
 
-    reactiveCheck.checked = slotData.reactiveEnabled;
-    // Trigger change to update UI state
-    reactiveCheck.dispatchEvent(new Event('change'));
+presetMorphSlider.addEventListener('input', () => {
+  presetMorph.cancel();
+  if (!morphEndpoints) {
+    const current = getCurrentMorphParams();
+    const a = resolveMorphParams(presetMorphASelect.value, current);
+    const b = resolveMorphParams(presetMorphBSelect.value, current);
+    if (!a || !b) return;
+    morphEndpoints = { a, b };
+  }
 
-    sensSlider.value = String(slotData.sensitivity);
-    sensValue.textContent = slotData.sensitivity.toFixed(1);
-    engine.setSensitivity(slotData.sensitivity);
+  const t = parseFloat(presetMorphSlider.value);
+  const eqFreqs = getLayoutFreqs(settingsStore.get().eqBandCount);
+  applyMorphParams(interpolateMorph(morphEndpoints.a, morphEndpoints.b, t, eqFreqs), { group: 'morph' });
+  const nameOf = (select: HTMLSelectElement) => select.selectedOptions[0]?.textContent ?? '';
+  presetMorphStatus.textContent = `${nameOf(presetMorphASelect)} ${Math.round((1 - t) * 100)}% / ${nameOf(presetMorphBSelect)} ${Math.round(t * 100)}%`;
+  if (activePresetId !== null) setActivePreset(null);
+});
 
-    reactiveStrengthSlider.value = String(slotData.reactiveStrength);
-    reactiveStrengthValue.textContent = slotData.reactiveStrength.toFixed(2);
-    engine.setReactiveBoostStrength(slotData.reactiveStrength);
+[presetMorphASelect, presetMorphBSelect].forEach(select => {
+  select.addEventListener('change', () => { morphEndpoints = null; });
+});
 
-    reactiveDurationSlider.value = String(slotData.reactiveDuration);
-    reactiveDurationValue.textContent = String(slotData.reactiveDuration);
-    engine.setReactiveBoostDuration(slotData.reactiveDuration);
+// 手動で操作したら切り替えをやめ、モーフの両端も選び直す
+document.addEventListener('input', (e) => {
+  const target = e.target;
+  if (!e.isTrusted || target === presetMorphSlider || !(target instanceof HTMLInputElement) || target.type !== 'range') return;
+  if (presetMorph.isRunning()) {
+    presetMorph.cancel();
+    presetMorphStatus.textContent = '操作されたため切り替えを中止しました';
   }
+  morphEndpoints = null;
+});
 
-  // プリセットのアクティブ表示をクリア
-  document.querySelectorAll('.preset-btn').forEach(btn => btn.classList.remove('active'));
+presetTransitionSelect.value = localStorage.getItem(PRESET_TRANSITION_STORAGE_KEY) ?? '0';
+if (!presetTransitionSelect.value) presetTransitionSelect.value = '0';
+presetTransitionSelect.addEventListener('change', () => {
+  localStorage.setItem(PRESET_TRANSITION_STORAGE_KEY, presetTransitionSelect.value);
+});
+
+// ------------------------------------------
+// A/B比較
+// ------------------------------------------
+
+const abASelect = document.getElementById('ab-a') as HTMLSelectElement;
+const abBSelect = document.getElementById('ab-b') as HTMLSelectElement;
+const abBlindCheck = document.getElementById('ab-blind-check') as HTMLInputElement;
+const abStartBtn = document.getElementById('ab-start-btn') as HTMLButtonElement;
+const abNowPlaying = document.getElementById('ab-now-playing') as HTMLDivElement;
+const abSwitchBtn = document.getElementById('ab-switch-btn') as HTMLButtonElement;
+const abKeepBtn = document.getElementById('ab-keep-btn') as HTMLButtonElement;
+const abCancelBtn = document.getElementById('ab-cancel-btn') as HTMLButtonElement;
+const abStatus = document.getElementById('ab-status') as HTMLParagraphElement;
+
+let abSession: ABComparison | null = null;
+// 比較中にエンジンへ適用している設定 (比較中はストアに触れないため、スライダーやプリセット名は比較前のまま)
+let abEngineState: SettingsState | null = null;
+const abMorph = new MorphTransition();
+let abDipTimer: number | null = null;
+
+function renderABOptions() {
+  renderPresetOptions([abASelect, abBSelect], '<option value="">現在の設定</option>');
+}
+
+// 比べる設定 (組み込みプリセットの未指定項目は現在の設定で補う)
+function resolveABConfig(id: string): ABConfig | null {
+  const current = pickSettingsState(settingsStore.get());
+  if (!id) return { name: '現在の設定', settings: current };
+  const builtIn = findBuiltInPreset(id);
+  if (builtIn) return { name: builtIn.name, settings: { ...current, ...builtInPresetSettings(builtIn) } };
+  const preset = presetLibrary.presets.find(p => p.id === id);
+  return preset ? { name: preset.name, settings: pickSettingsState(preset.settings) } : null;
 }
 
+// 比較中の設定はストアを通さずエンジンへ直接適用する (ブラインドで画面から答えが分からないように)
+function applyABSettings(patch: Partial<SettingsState>) {
+  const previous = abEngineState ?? pickSettingsState(settingsStore.get());
+  const next = { ...previous, ...patch };
+  const changed = SETTINGS_KEYS.filter(key => !isSameValue(previous[key], next[key]));
+  syncSettingsToEngine(next, changed, previous);
+  abEngineState = next;
+}
 
-// スロットUIを更新
-function updateSlotUI() {
-  const slots = loadSlotData();
+// Room・Tone Layerなど補間できない項目がエンジンの設定と違うか
+function needsABDip(target: SettingsState): boolean {
+  const current = abEngineState ?? settingsStore.get();
+  return AB_DIP_KEYS.some(key => !isSameValue(current[key], target[key]));
+}
 
-  for (let i = 1; i <= 3; i++) {
-    const slotId = String(i);
-    const slotData = slots[slotId];
-    const statusEl = document.getElementById(`slot-status-${i}`);
-    const loadBtn = document.querySelector(`.load-btn[data-slot="${i}"]`) as HTMLButtonElement;
+// 比較を終え、エンジンをストアの設定に戻す
+function endABSession() {
+  stopABSwitching();
+  abSession = null;
+  if (abEngineState) applyABSettings(pickSettingsState(settingsStore.get()));
+  abEngineState = null;
+}
 
-    if (slotData) {
-      // 保存日時をフォーマット
-      const date = new Date(slotData.savedAt);
-      const dateStr = `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
-      const noiseNames = ['White', 'Pink', 'Brown'];
+function stopABSwitching() {
+  abMorph.cancel();
+  if (abDipTimer !== null) {
+    clearTimeout(abDipTimer);
+    abDipTimer = null;
+  }
+}
 
-      if (statusEl) {
-        const anySlot = slotData as any;
-        const name = anySlot.noiseType !== undefined ? noiseNames[anySlot.noiseType] : 'Custom Mix';
-        statusEl.textContent = `${name} / Vol ${(slotData.volume * 100).toFixed(0)}% (${dateStr})`;
-        statusEl.classList.add('has-data');
-      }
-      if (loadBtn) loadBtn.disabled = false;
+function renderABComparison() {
+  const session = abSession;
+  const ready = session?.isReady() ?? false;
+  abStartBtn.disabled = session !== null;
+  abASelect.disabled = abBSelect.disabled = abBlindCheck.disabled = session !== null;
+  abSwitchBtn.disabled = abKeepBtn.disabled = !ready;
+  abCancelBtn.disabled = session === null;
+
+  if (!session) {
+    abNowPlaying.textContent = '-';
+    abSwitchBtn.textContent = '切り替え';
+    return;
+  }
+  if (!ready) {
+    abNowPlaying.textContent = '…';
+    abStatus.textContent = '音量を揃えるため、両方の音量を測っています...';
+    return;
+  }
+
+  const side = session.getPlaying();
+  const label = session.labelOf(side);
+  abNowPlaying.textContent = label;
+  abSwitchBtn.textContent = `${session.labelOf(otherSide(side))} に切り替え`;
+  const correction = 20 * Math.log10(session.getGain(side));
+  abStatus.textContent = session.blind
+    ? `再生中: ${label} (どちらの設定かは採用したときに表示します)`
+    : `再生中: ${session.describe(side)} (音量補正 ${correction.toFixed(1)}dB)`;
+}
+
+async function startABComparison() {
+  if (!engine.isInitialized) {
+    alert('先にStartを押してください');
+    return;
+  }
+  const a = resolveABConfig(abASelect.value);
+  const b = resolveABConfig(abBSelect.value);
+  if (!a || !b) return;
+  if (isSameValue(a.settings, b.settings)) {
+    alert('AとBが同じ設定です');
+    return;
+  }
+
+  presetMorph.cancel();
+  // やめた直後 (音量を下げて戻している途中) なら、先にエンジンを戻しておく
+  endABSession();
+  abEngineState = pickSettingsState(settingsStore.get());
+  const session = new ABComparison(a, b, abBlindCheck.checked);
+  abSession = session;
+  renderABComparison();
+
+  // 揃える前の音量差を聴かせないよう、測定中は無音にする
+  engine.setComparisonGain(0, AB_DIP_MS / 1000);
+  await new Promise(resolve => setTimeout(resolve, AB_DIP_MS));
+  const levels: Record<ABSide, number> = { a: 0, b: 0 };
+  for (const side of ['a', 'b'] as const) {
+    applyABSettings(session.configs[side].settings);
+    levels[side] = await measureLoudness(() => engine.getProgramRms());
+    // 測定中にやめた・他の操作で終わった
+    if (abSession !== session) return;
+  }
+  session.setLevels(levels);
+
+  const side = session.getPlaying();
+  applyABSettings(session.configs[side].settings);
+  engine.setComparisonGain(session.getGain(side), AB_CROSSFADE_MS / 1000);
+  renderABComparison();
+}
+
+/**
+ * もう一方の設定へクロスフェードする
+ * 連続的なパラメータは補間し、同時に音量合わせのゲインも移す
+ * Room・Tone Layerなど補間できない項目が違うときは、先に音量を一度下げて差し替える
+ */
+function switchABSide() {
+  const session = abSession;
+  if (!session?.isReady()) return;
+  stopABSwitching();
+
+  const side = session.toggle();
+  const target = session.configs[side].settings;
+
+  const crossfade = () => {
+    if (!abEngineState) return;
+    engine.setComparisonGain(session.getGain(side), AB_CROSSFADE_MS / 1000);
+    const eqFreqs = getLayoutFreqs(abEngineState.eqBandCount);
+    abMorph.start(morphParamsFromSettings(abEngineState), morphParamsFromSettings(target), AB_CROSSFADE_MS, (params) => {
+      applyABSettings(morphSettingsPatch(params, eqFreqs));
+    }, () => applyABSettings(target), eqFreqs);
+  };
+
+  if (needsABDip(target)) {
+    engine.setComparisonGain(0, AB_DIP_MS / 1000);
+    abDipTimer = window.setTimeout(() => {
+      abDipTimer = null;
+      if (!abEngineState) return;
+      const patch = Object.fromEntries(AB_DIP_KEYS.map(key => [key, target[key]])) as Partial<SettingsState>;
+      // EQのバンド数は今のカーブを引き継いで切り替える (カーブはクロスフェードで移る)
+      const eq = resampleEqGains(abEngineState.eq, getLayoutFreqs(abEngineState.eqBandCount), getLayoutFreqs(target.eqBandCount));
+      applyABSettings({ ...patch, eq });
+      crossfade();
+    }, AB_DIP_MS);
+  } else {
+    crossfade();
+  }
+  renderABComparison();
+}
+
+/**
+ * 比較を終える
+ * @param keep 再生中の設定を残す (falseなら比較前の設定に戻す)
+ */
+function finishABComparison(keep: boolean) {
+  const session = abSession;
+  if (!session) return;
+  stopABSwitching();
+  abSession = null;
+
+  if (keep && session.isReady()) {
+    const side = session.getPlaying();
+    const kept = session.configs[side];
+    // 比較中に聴いていた音量のまま残す (音量合わせのゲインをMaster Volumeへ移す)
+    const volume = Math.min(1, kept.settings.volume * session.getGain(side));
+    // ストアへの反映でスライダーも採用した設定になる (取り消しで比較前に戻せる)
+    settingsStore.update({ ...kept.settings, volume });
+    endABSession();
+    setActivePreset(null);
+    abStatus.textContent = session.blind
+      ? `${session.labelOf(side)} は「${session.describe(side)}」でした。採用しました`
+      : `「${session.describe(side)}」を採用しました`;
+    engine.setComparisonGain(1, AB_CROSSFADE_MS / 1000);
+  } else {
+    // ストアは比較前のままなので、エンジンだけ戻す
+    const restore = pickSettingsState(settingsStore.get());
+    const apply = () => {
+      endABSession();
+      engine.setComparisonGain(1, AB_CROSSFADE_MS / 1000);
+    };
+    if (needsABDip(restore)) {
+      engine.setComparisonGain(0, AB_DIP_MS / 1000);
+      abDipTimer = window.setTimeout(() => {
+        abDipTimer = null;
+        apply();
+      }, AB_DIP_MS);
     } else {
-      if (statusEl) {
-        statusEl.textContent = 'Empty';
-        statusEl.classList.remove('has-data');
-      }
-      if (loadBtn) loadBtn.disabled = true;
+      apply();
     }
+    abStatus.textContent = '比較をやめ、比較前の設定に戻しました';
   }
+  renderABComparison();
 }
 
-// セーブボタンイベント
-document.querySelectorAll('.save-btn').forEach((btn) => {
-  btn.addEventListener('click', () => {
-    const slotId = (btn as HTMLElement).dataset.slot;
-    if (slotId) {
-      saveToSlot(slotId);
-    }
-  });
+// 比較中に他の操作 (スライダー・プリセット・取り消しなど) で設定が変わったら、その設定で比較を終える
+settingsStore.subscribe(() => {
+  if (!abSession) return;
+  endABSession();
+  engine.setComparisonGain(1, AB_CROSSFADE_MS / 1000);
+  abStatus.textContent = '設定が変更されたため比較を終了しました';
+  renderABComparison();
 });
 
-// ロードボタンイベント
-document.querySelectorAll('.load-btn').forEach((btn) => {
-  btn.addEventListener('click', () => {
-    const slotId = (btn as HTMLElement).dataset.slot;
-    if (slotId) {
-      loadFromSlot(slotId);
-    }
+abStartBtn.addEventListener('click', () => {
+  startABComparison().catch(e => {
+    console.error('A/B comparison failed', e);
+    finishABComparison(false);
   });
 });
-
-// 初期化時にスロットUIを更新
-updateSlotUI();
+abSwitchBtn.addEventListener('click', switchABSide);
+abKeepBtn.addEventListener('click', () => finishABComparison(true));
+abCancelBtn.addEventListener('click', () => finishABComparison(false));
+// 停止したら比較も終える
+stopBtn.addEventListener('click', () => finishABComparison(false));
+
+renderPresetLibrary();
+renderMorphOptions();
+renderABOptions();
+renderABComparison();
+
+// 読めなかった保存データは退避済み。読めた分だけで保存し直されるので通知は一度だけ
+if (presetBackup && confirm('保存されていたプリセットの一部が壊れていたため読み込めませんでした。\n元のデータをファイルに保存しますか?')) {
+  downloadBlob(new Blob([presetBackup], { type: 'application/json' }), 'soundmasking-presets-backup.json');
+}
 
 // ==========================================
 // タイマー機能
@@ -1127,6 +2566,378 @@ stopBtn.addEventListener('click', () => {
 });
 
 
+// ==========================================
+// エクスポート (Offline Render)
+// ==========================================
+
+const exportDurationSelect = document.getElementById('export-duration') as HTMLSelectElement;
+const exportFormatSelect = document.getElementById('export-format') as HTMLSelectElement;
+const exportProgressFill = document.getElementById('export-progress-fill') as HTMLDivElement;
+const exportStatus = document.getElementById('export-status') as HTMLParagraphElement;
+const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // ダウンロード開始後に解放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+exportBtn.addEventListener('click', async () => {
+  if (!engine.isInitialized) {
+    exportStatus.textContent = '先にStartを押してください';
+    return;
+  }
+
+  const duration = parseInt(exportDurationSelect.value);
+  const format = exportFormatSelect.value as ExportFormat;
+
+  exportBtn.disabled = true;
+  exportProgressFill.style.width = '0%';
+  exportStatus.textContent = 'レンダリング中... 0%';
+
+  try {
+    const buffer = await engine.renderOffline(duration, (progress) => {
+      exportProgressFill.style.width = `${progress * 100}%`;
+      exportStatus.textContent = `レンダリング中... ${Math.round(progress * 100)}%`;
+    });
+
+    exportStatus.textContent = 'エンコード中...';
+    // 描画を反映させてから重い処理に入る
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const blob = await encodeAudioBuffer(buffer, format, (progress) => {
+      exportStatus.textContent = `エンコード中... ${Math.round(progress * 100)}%`;
+    });
+
+    const minutes = Math.round(duration / 60);
+    downloadBlob(blob, `sound-masking-${minutes}min.${format}`);
+    exportStatus.textContent = `完了 (${(blob.size / 1024 / 1024).toFixed(1)} MB)`;
+  } catch (e) {
+    console.error('Export failed:', e);
+    exportStatus.textContent = 'Error: ' + String(e);
+  } finally {
+    exportBtn.disabled = false;
+  }
+});
+
+// ==========================================
+// 検知ログ (History)
+// ==========================================
+
+const historyRangeSelect = document.getElementById('history-range') as HTMLSelectElement;
+const historyRefreshBtn = document.getElementById('history-refresh-btn') as HTMLButtonElement;
+const historySummary = document.getElementById('history-summary') as HTMLParagraphElement;
+const historyHours = document.getElementById('history-hours') as HTMLDivElement;
+const historyBands = document.getElementById('history-bands') as HTMLDivElement;
+const historyRecent = document.getElementById('history-recent') as HTMLUListElement;
+const historyJsonBtn = document.getElementById('history-json-btn') as HTMLButtonElement;
+const historyCsvBtn = document.getElementById('history-csv-btn') as HTMLButtonElement;
+const historyClearBtn = document.getElementById('history-clear-btn') as HTMLButtonElement;
+
+const HISTORY_RECENT_COUNT = 20;
+let historyRefreshTimer: number | null = null;
+
+function getHistoryRangeStart(): number {
+  return Date.now() - parseInt(historyRangeSelect.value) * 24 * 60 * 60 * 1000;
+}
+
+function getImpactDisplayName(entry: ImpactLogEntry): string {
+  if (entry.soundName) return `🔊 ${entry.soundName}`;
+  return getBandDisplayName(entry.bandId);
+}
+
+function getBandDisplayName(bandId: string | null): string {
+  if (!bandId) return '全帯域';
+  const band = getAllDetectionBands(engine.getCustomDetection()).find(b => b.id === bandId);
+  return band ? band.nameJa : bandId;
+}
+
+function formatLogTime(time: number): string {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}:${String(date.getSeconds()).padStart(2, '0')}`;
+}
+
+async function refreshHistory() {
+  try {
+    const { impacts, scores } = await queryEventLog(getHistoryRangeStart());
+
+    const meanScore = scores.length > 0 ? scores.reduce((sum, e) => sum + e.score, 0) / scores.length : 0;
+    const peakScore = scores.reduce((max, e) => Math.max(max, e.peak), 0);
+    const recognizedCount = impacts.filter(e => e.soundId).length;
+    historySummary.textContent = `衝撃 ${impacts.length - recognizedCount}回 / 認識した音 ${recognizedCount}回 / 平均騒音スコア ${meanScore.toFixed(3)} (最大 ${peakScore.toFixed(3)})`;
+
+    // 時間帯別 (0-23時)
+    const hourCounts = new Array(24).fill(0);
+    impacts.forEach(e => hourCounts[new Date(e.time).getHours()]++);
+    const maxHour = Math.max(1, ...hourCounts);
+    historyHours.innerHTML = hourCounts.map((count, hour) =>
+      `<div class="history-hour" style="height: ${(count / maxHour) * 100}%" title="${hour}時: ${count}回"></div>`
+    ).join('');
+
+    // バンド・認識した音別 (多い順)
+    const bandCounts = new Map<string, number>();
+    impacts.forEach(e => {
+      const name = getImpactDisplayName(e);
+      bandCounts.set(name, (bandCounts.get(name) ?? 0) + 1);
+    });
+    const maxBand = Math.max(1, ...bandCounts.values());
+    historyBands.innerHTML = [...bandCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, count]) => `
+        <div class="history-band-row">
+          <span>${escapeHtml(name)}</span>
+          <div class="history-band-bar" style="width: ${(count / maxBand) * 100}%"></div>
+          <span class="history-band-count">${count}</span>
+        </div>`)
+      .join('') || '<p class="desc">記録なし</p>';
+
+    historyRecent.innerHTML = impacts.slice(-HISTORY_RECENT_COUNT).reverse().map(e =>
+      `<li>${formatLogTime(e.time)} ${escapeHtml(getImpactDisplayName(e))}` +
+      `${e.confidence !== undefined ? ` ${Math.round(e.confidence * 100)}%` : ''} 強度 ${e.intensity.toFixed(2)} (×${e.reactiveGain.toFixed(2)})</li>`
+    ).join('');
+  } catch (e) {
+    console.error('Failed to load event log', e);
+    historySummary.textContent = '履歴を読み込めませんでした';
+  }
+}
+
+// 連続した記録でまとめて1回だけ再描画
+function scheduleHistoryRefresh() {
+  if (historyRefreshTimer !== null) return;
+  historyRefreshTimer = window.setTimeout(() => {
+    historyRefreshTimer = null;
+    refreshHistory();
+  }, 2000);
+}
+
+engine.onDetectionEvent = (event) => {
+  const time = event.time * 1000;
+  let saved: Promise<void>;
+  if (event.type === 'impact') {
+    saved = recordImpact({
+      time,
+      bandId: event.bandId ?? null,
+      intensity: event.intensity,
+      adaptiveGain: event.adaptiveGain,
+      reactiveGain: event.reactiveGain
+    });
+  } else if (event.type === 'recognized') {
+    showRecognizedSound(event.soundName, event.confidence);
+    saved = recordImpact({
+      time,
+      bandId: null,
+      intensity: event.intensity,
+      adaptiveGain: event.adaptiveGain,
+      reactiveGain: event.reactiveGain,
+      soundId: event.soundId,
+      soundName: event.soundName,
+      confidence: event.confidence
+    });
+  } else {
+    saved = recordScoreSample({ time, score: event.score, peak: event.peak, adaptiveGain: event.adaptiveGain });
+  }
+
+  saved.then(scheduleHistoryRefresh).catch(e => console.error('Failed to record detection event', e));
+};
+
+async function exportHistory(format: 'json' | 'csv') {
+  try {
+    const data = await queryEventLog(getHistoryRangeStart());
+    const text = format === 'json' ? eventLogToJson(data) : eventLogToCsv(data);
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([text], { type }), `sound-masking-events-${date}.${format}`);
+  } catch (e) {
+    console.error('Failed to export event log', e);
+    alert('ログを書き出せませんでした');
+  }
+}
+
+historyRangeSelect.addEventListener('change', () => refreshHistory());
+historyRefreshBtn.addEventListener('click', () => refreshHistory());
+historyJsonBtn.addEventListener('click', () => exportHistory('json'));
+historyCsvBtn.addEventListener('click', () => exportHistory('csv'));
+
+historyClearBtn.addEventListener('click', async () => {
+  if (!confirm('検知ログをすべて消去しますか？')) return;
+  try {
+    await clearEventLog();
+  } catch (e) {
+    console.error('Failed to clear event log', e);
+  }
+  refreshHistory();
+});
+
+// ==========================================
+// 予測マスキング (繰り返す騒音の時間帯を学習)
+// ==========================================
+
+const premaskCheck = document.getElementById('premask-check') as HTMLInputElement;
+const premaskLeadSelect = document.getElementById('premask-lead') as HTMLSelectElement;
+const premaskActionSelect = document.getElementById('premask-action') as HTMLSelectElement;
+const premaskPresetLabel = document.getElementById('premask-preset-label') as HTMLLabelElement;
+const premaskPresetSelect = document.getElementById('premask-preset') as HTMLSelectElement;
+const premaskWindowsList = document.getElementById('premask-windows') as HTMLUListElement;
+const premaskStatus = document.getElementById('premask-status') as HTMLParagraphElement;
+const premaskLearnBtn = document.getElementById('premask-learn-btn') as HTMLButtonElement;
+
+// 学習は1時間ごと、時間帯の判定は30秒ごと
+const PREMASK_LEARN_INTERVAL = 60 * 60 * 1000;
+const PREMASK_CHECK_INTERVAL = 30 * 1000;
+
+const premaskState = loadPreMaskState();
+let premaskActiveId: string | null = null;
+// プリセット切り替え前の設定 (時間帯が終わったら戻す)
+let premaskRestoreSettings: CustomSlotData | null = null;
+// 切り替えた直後の設定 (時間帯の間に変えられていたら戻さない)
+let premaskAppliedSettings: SettingsState | null = null;
+
+function formatWindowLabel(label: string): string {
+  if (!label) return '';
+  if (label === 'all') return '全帯域';
+  const band = getAllDetectionBands(engine.getCustomDetection()).find(b => b.id === label);
+  return band ? band.nameJa : label;
+}
+
+function renderPreMask() {
+  const { settings, windows } = premaskState;
+  premaskCheck.checked = settings.enabled;
+  premaskLeadSelect.value = String(settings.leadMinutes);
+  premaskActionSelect.value = settings.action;
+  // 開いている選択肢を閉じないよう、プリセットが変わった時だけ作り直す
+  const options = `<option value="">(未選択)</option>` + presetLibrary.presets
+    .map(p => `<option value="${escapeHtml(p.id)}">${escapeHtml(p.name)}</option>`).join('');
+  if (premaskPresetSelect.innerHTML !== options) premaskPresetSelect.innerHTML = options;
+  premaskPresetSelect.value = presetLibrary.presets.some(p => p.id === settings.presetId) ? settings.presetId : '';
+  premaskPresetLabel.classList.toggle('hidden', settings.action !== 'preset');
+
+  premaskWindowsList.innerHTML = windows.map(w => {
+    const checked = w.enabled ? ' checked' : '';
+    const active = w.id === premaskActiveId ? ' class="active"' : '';
+    const label = formatWindowLabel(w.label);
+    return `<li${active}><label><input type="checkbox" data-window="${w.id}"${checked} /> ` +
+      `${formatMinute(w.startMinute)} - ${formatMinute(w.endMinute)}</label>` +
+      `<span class="premask-window-detail">${label ? `${escapeHtml(label)} / ` : ''}${w.days}日 (${Math.round(w.ratio * 100)}%)</span></li>`;
+  }).join('') || `<li class="desc">まだ繰り返す時間帯はありません (${PATTERN_LEARNING_DAYS}日間のうち3日以上の記録が必要)</li>`;
+
+  const active = windows.find(w => w.id === premaskActiveId);
+  const next = findNextWindow(windows, new Date());
+  if (!settings.enabled) {
+    premaskStatus.textContent = 'オフ';
+  } else if (active) {
+    premaskStatus.textContent = `動作中: ${formatMinute(active.startMinute)} - ${formatMinute(active.endMinute)}`;
+  } else if (next) {
+    premaskStatus.textContent = `次: ${formatMinute(next.startMinute - settings.leadMinutes)} から`;
+  } else {
+    premaskStatus.textContent = '';
+  }
+}
+
+function savePreMask() {
+  savePreMaskState(premaskState);
+  updatePreMask();
+}
+
+async function learnPreMaskWindows() {
+  try {
+    const { impacts, scores } = await queryEventLog(Date.now() - PATTERN_LEARNING_DAYS * 24 * 60 * 60 * 1000);
+    premaskState.windows = mergeWindowSettings(learnDisturbanceWindows(impacts, scores), premaskState.windows);
+    savePreMask();
+  } catch (e) {
+    console.error('Failed to learn disturbance patterns', e);
+  }
+}
+
+function startPreMask(target: DisturbanceWindow) {
+  const { settings } = premaskState;
+  console.log(`Pre-masking: ${formatMinute(target.startMinute)} - ${formatMinute(target.endMinute)}`);
+  if (settings.action === 'preset') {
+    const preset = presetLibrary.presets.find(p => p.id === settings.presetId);
+    if (!preset) return;
+    premaskRestoreSettings = getCurrentSettings();
+    // 自動の切り替えも1回の操作として記録する (取り消すと切り替え前に戻る)
+    settingsStore.checkpoint();
+    applySlotSettings(preset.settings, { history: 'none' });
+    premaskAppliedSettings = pickSettingsState(settingsStore.get());
+  } else {
+    engine.setPreMaskGain(settings.gainBoost);
+  }
+}
+
+function stopPreMask() {
+  engine.setPreMaskGain(0);
+  // 時間帯の間にユーザーが設定を変えていたら、その設定のままにする
+  if (premaskRestoreSettings && premaskAppliedSettings && isSameValue(pickSettingsState(settingsStore.get()), premaskAppliedSettings)) {
+    settingsStore.checkpoint();
+    applySlotSettings(premaskRestoreSettings, { history: 'none' });
+  }
+  premaskRestoreSettings = null;
+  premaskAppliedSettings = null;
+}
+
+// 時間帯に入ったら強め、抜けたら戻す
+function updatePreMask() {
+  const { settings, windows } = premaskState;
+  const active = settings.enabled ? findActiveWindow(windows, new Date(), settings.leadMinutes) : null;
+  if ((active?.id ?? null) !== premaskActiveId) {
+    if (premaskActiveId !== null) stopPreMask();
+    premaskActiveId = active?.id ?? null;
+    if (active) startPreMask(active);
+  }
+  renderPreMask();
+}
+
+premaskCheck.addEventListener('change', () => {
+  premaskState.settings.enabled = premaskCheck.checked;
+  savePreMask();
+});
+
+premaskLeadSelect.addEventListener('change', () => {
+  premaskState.settings.leadMinutes = parseInt(premaskLeadSelect.value);
+  savePreMask();
+});
+
+premaskActionSelect.addEventListener('change', () => {
+  // 動作中に切り替えた場合は、前の動作を戻してから掛け直す
+  if (premaskActiveId !== null) {
+    stopPreMask();
+    premaskActiveId = null;
+  }
+  premaskState.settings.action = premaskActionSelect.value as PreMaskAction;
+  savePreMask();
+});
+
+premaskPresetSelect.addEventListener('change', () => {
+  premaskState.settings.presetId = premaskPresetSelect.value;
+  savePreMask();
+});
+
+premaskWindowsList.addEventListener('change', (e) => {
+  const input = e.target as HTMLInputElement;
+  const target = premaskState.windows.find(w => w.id === input.dataset.window);
+  if (!target) return;
+  target.enabled = input.checked;
+  savePreMask();
+});
+
+premaskLearnBtn.addEventListener('click', () => learnPreMaskWindows());
+
+setInterval(updatePreMask, PREMASK_CHECK_INTERVAL);
+setInterval(learnPreMaskWindows, PREMASK_LEARN_INTERVAL);
+
+// 保持期間を過ぎた記録を削除してから表示・学習
+pruneEventLog(Date.now() - EVENT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  .catch(e => console.error('Failed to prune event log', e))
+  .finally(() => {
+    refreshHistory();
+    learnPreMaskWindows();
+  });
+
 // ==========================================
 // Soundscapes & Tabs Logic
 // ==========================================
@@ -1239,12 +3050,13 @@ function setupMeisterMode() {
 
         // If it was playing, restore volumes and ensure UI is running
         if (wasPlayingBeforeMeister) {
-          const noiseVol = parseFloat(noiseSlider.value) || 0;
-          const soundVol = parseFloat(soundSlider.value) || 0;
+          const { noiseVolume, soundVolume, toneLayer } = settingsStore.get();
 
-          console.log('[Meister] Restoring to RUNNING. Vol:', noiseVol, soundVol);
-          engine.setNoiseVolume(noiseVol);
-          engine.setSoundscapeVolume(soundVol);
+          console.log('[Meister] Restoring to RUNNING. Vol:', noiseVolume, soundVolume);
+          engine.setNoiseVolume(noiseVolume);
+          engine.setSoundscapeVolume(soundVolume);
+          // muteImmediateで落としたTone Layerも戻す
+          engine.setToneLayer({ level: toneLayer.level });
 
           // Restore button state manually instead of updatePlayButtonState to ensure correct timing
           statusEl.textContent = 'Running';
@@ -1278,36 +3090,22 @@ function setupMeisterMode() {
         (name, settings) => {
           console.log('[Meister] onComplete (Save). Settings:', settings);
 
-          // Apply Settings Logic...
-          const m = settings.mix;
-
-          applyMixerUI(m.w, m.p, m.b, m.d, m.s || 0, m.sf || 55, m.r || 0, m.rf || 55, m.rs || 1.0);
-          engine.setNoiseMix(m.w, m.p, m.b, m.d);
-          engine.setSubBassVolume(m.s || 0);
-          engine.setSubBassFrequency(m.sf || 55);
-          engine.setRumbleVolume(m.r || 0);
-          engine.setRumbleFrequency(m.rf || 55);
-          engine.setRumbleSpeed(m.rs || 1.0);
-
-          if (settings.eq) {
-            settings.eq.forEach((val: number, i: number) => {
-              engine.setEQBand(i, val);
-              const slider = document.querySelector(`.eq-slider[data-band="${i}"]`) as HTMLInputElement;
-              if (slider) slider.value = String(val);
-            });
-          }
-
-          // Update sliders if settings have volume info
-          if (settings.noiseVolume !== undefined) {
-            noiseSlider.value = String(settings.noiseVolume);
-            noiseValue.textContent = settings.noiseVolume.toFixed(2);
-          }
-          if (settings.soundVolume !== undefined) {
-            soundSlider.value = String(settings.soundVolume);
-            soundValue.textContent = settings.soundVolume.toFixed(2);
-          }
+          // ストア経由で適用する (エンジンと表示の両方に反映される)
+          settingsStore.update({
+            mix: { ...DEFAULT_MIX, ...settings.mix },
+            ...(settings.eq ? { eq: eqForCurrentLayout(settings.eq, settings.eqFreqs ?? AUTOTUNER_EQ_FREQS) } : {}),
+            ...(settings.noiseVolume !== undefined ? { noiseVolume: settings.noiseVolume } : {}),
+            ...(settings.soundVolume !== undefined ? { soundVolume: settings.soundVolume } : {})
+          });
 
           console.log("Applied Meister Settings:", name);
+
+          // 結果をプリセットライブラリに保存
+          const preset = createUserPreset(name, getCurrentSettings(), 'meister');
+          preset.tags = ['Meister'];
+          addUserPreset(preset);
+          savePresets();
+          setActivePreset(preset.id);
           // restoreState will be called by onClose next
         },
         // onClose (Called after Save OR on Cancel)
@@ -0,0 +1,174 @@
+import type { AudioEngine } from '../audio/AudioEngine';
+import { getAllDetectionBands } from '../audio/ImpactDetector';
+import {
+    computeMicCalibration,
+    referenceMarginDb,
+    MIN_REFERENCE_MARGIN_DB,
+    type InputMeasurement,
+    type MicCalibration
+} from '../audio/MicCalibration';
+
+// 測定時間 (秒)
+const QUIET_SECONDS = 5;
+const REFERENCE_SECONDS = 5;
+
+/**
+ * マイク校正ウィザード
+ * 1. 静かな部屋の騒音 → 2. 基準音 (手拍子・ノック) → 3. 結果の確認と保存
+ */
+export class CalibrationWizard {
+    private overlay: HTMLElement;
+    private scenes: HTMLElement[];
+    private engine: AudioEngine;
+    private onComplete: (calibration: MicCalibration) => void;
+    private onClose: (() => void) | null = null;
+
+    private quiet: InputMeasurement | null = null;
+    private result: MicCalibration | null = null;
+    private measuring = false;
+
+    constructor(
+        engine: AudioEngine,
+        onComplete: (calibration: MicCalibration) => void,
+        onClose?: () => void
+    ) {
+        this.engine = engine;
+        this.onComplete = onComplete;
+        this.onClose = onClose || null;
+        this.overlay = document.getElementById('calibration-overlay')!;
+        this.scenes = Array.from(this.overlay.querySelectorAll('.calibration-scene'));
+
+        this.initEvents();
+    }
+
+    public async open() {
+        this.overlay.classList.add('active');
+        this.goToScene(0);
+        this.engine.setCalibrationActive(true);
+
+        try {
+            await this.engine.initInput();
+        } catch (e) {
+            console.error(e);
+            alert('Microphone access required for calibration.');
+            this.close();
+            return;
+        }
+
+        const device = this.engine.getInputDevice();
+        this.setText('calib-device', device?.label || '既定のマイク');
+        const current = this.engine.getMicCalibration();
+        this.setText('calib-current', current
+            ? `前回の校正: ${new Date(current.calibratedAt).toLocaleString()}`
+            : '未校正 (既定のプリアンプ5倍)');
+    }
+
+    public close() {
+        // 測定中に閉じた場合も測定自体は数秒で終わり、出力のミュートも解除される
+        this.overlay.classList.remove('active');
+        this.engine.setCalibrationActive(false);
+        if (this.onClose) {
+            this.onClose();
+        }
+    }
+
+    private goToScene(index: number) {
+        this.scenes.forEach((scene, i) => {
+            scene.classList.toggle('active', i === index);
+        });
+        this.scenes[index].querySelectorAll<HTMLElement>('.calibration-progress-fill').forEach(fill => {
+            fill.style.width = '0%';
+        });
+        this.setText('calib-reference-error', '');
+    }
+
+    private async measure(sceneIndex: number, seconds: number, mode: 'average' | 'peak'): Promise<InputMeasurement | null> {
+        if (this.measuring) return null;
+        this.measuring = true;
+
+        const scene = this.scenes[sceneIndex];
+        const fill = scene.querySelector<HTMLElement>('.calibration-progress-fill');
+        const button = scene.querySelector<HTMLButtonElement>('.calibration-measure-btn');
+        if (button) button.disabled = true;
+
+        try {
+            return await this.engine.measureInput(seconds, mode, progress => {
+                if (fill) fill.style.width = `${Math.round(progress * 100)}%`;
+            });
+        } catch (e) {
+            console.error('Calibration measurement failed', e);
+            alert('測定に失敗しました。マイクの接続を確認してください。');
+            return null;
+        } finally {
+            this.measuring = false;
+            if (button) button.disabled = false;
+        }
+    }
+
+    private async measureQuiet() {
+        const quiet = await this.measure(0, QUIET_SECONDS, 'average');
+        if (!quiet) return;
+        this.quiet = quiet;
+        this.goToScene(1);
+    }
+
+    private async measureReference() {
+        if (!this.quiet) return;
+        const reference = await this.measure(1, REFERENCE_SECONDS, 'peak');
+        if (!reference) return;
+
+        const margin = referenceMarginDb(this.quiet, reference);
+        if (!(margin >= MIN_REFERENCE_MARGIN_DB)) {
+            this.setText('calib-reference-error',
+                `基準音が小さすぎます (+${Math.max(0, margin).toFixed(0)}dB)。もう少し強く、マイクの近くで鳴らしてください。`);
+            return;
+        }
+
+        const device = this.engine.getInputDevice() ?? { id: 'default', label: '' };
+        const bands = getAllDetectionBands(this.engine.getCustomDetection());
+        this.result = computeMicCalibration(this.quiet, reference, bands, device);
+        this.showResult(this.result);
+        this.goToScene(2);
+    }
+
+    private showResult(calibration: MicCalibration) {
+        this.setText('calib-result-floor', `${calibration.noiseFloorDb.toFixed(1)} dBFS`);
+        this.setText('calib-result-reference', `${calibration.referenceDb.toFixed(1)} dBFS`);
+        this.setText('calib-result-gain', `×${calibration.preampGain.toFixed(1)}`);
+        this.setText('calib-result-sensitivity', calibration.sensitivity.toFixed(1));
+    }
+
+    private setText(id: string, text: string) {
+        const el = document.getElementById(id);
+        if (el) el.textContent = text;
+    }
+
+    private initEvents() {
+        const bind = (id: string, handler: () => void) => {
+            const el = document.getElementById(id);
+            if (el) {
+                el.onclick = (e) => {
+                    e.stopPropagation();
+                    handler();
+                };
+            }
+        };
+
+        bind('calibration-close', () => this.close());
+        bind('calib-quiet-btn', () => this.measureQuiet());
+        bind('calib-reference-btn', () => this.measureReference());
+        bind('calib-reference-back', () => this.goToScene(0));
+        bind('calib-retry-btn', () => this.goToScene(0));
+        bind('calib-save-btn', () => {
+            if (this.result) {
+                this.onComplete(this.result);
+            }
+            this.close();
+        });
+
+        // Prevent clicks on the overlay itself from reaching bottom elements
+        this.overlay.onclick = (e) => {
+            e.stopPropagation();
+        };
+    }
+}